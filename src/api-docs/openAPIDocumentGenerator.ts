@@ -2,9 +2,11 @@ import { OpenAPIRegistry, OpenApiGeneratorV3 } from "@asteasolutions/zod-to-open
 
 import { healthCheckRegistry } from "@/api/healthCheck/healthCheckRouter";
 import { elizaRegistry } from "@/api/eliza/elizaRouter";
+import { knowledgeRegistry } from "@/api/knowledge/knowledgeRouter";
+import { credentialsRegistry } from "@/api/credentials/credentialsRouter";
 
 export function generateOpenAPIDocument() {
-  const registry = new OpenAPIRegistry([healthCheckRegistry, elizaRegistry]);
+  const registry = new OpenAPIRegistry([healthCheckRegistry, elizaRegistry, knowledgeRegistry, credentialsRegistry]);
   const generator = new OpenApiGeneratorV3(registry.definitions);
 
   return generator.generateDocument({
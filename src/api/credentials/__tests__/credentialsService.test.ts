@@ -0,0 +1,109 @@
+import { randomBytes } from "node:crypto";
+import { StatusCodes } from "http-status-codes";
+import type { Mock } from "vitest";
+
+import type { ProviderCredential } from "@/api/credentials/credentialsModel";
+import { CredentialsRepository } from "@/api/credentials/credentialsRepository";
+import { CredentialsService } from "@/api/credentials/credentialsService";
+import { LLMProviders } from "@/common/ai/LLMModelManager";
+
+vi.mock("@/api/credentials/credentialsRepository");
+
+describe("credentialsService", () => {
+  let credentialsServiceInstance: CredentialsService;
+  let credentialsRepositoryInstance: CredentialsRepository;
+
+  const userId = "user-1";
+  const apiKey = "sk-user-0123456789abcdefWXYZ";
+  const mockCredential: ProviderCredential = {
+    provider: LLMProviders.OPENAI,
+    hint: "…WXYZ",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeEach(() => {
+    credentialsRepositoryInstance = new CredentialsRepository();
+    credentialsServiceInstance = new CredentialsService(credentialsRepositoryInstance, randomBytes(32));
+  });
+
+  // Keeps what the service saves, so getApiKeys can read it back
+  const storeSaved = () => {
+    let saved: Record<string, unknown> = {};
+    (credentialsRepositoryInstance.saveCredentialAsync as Mock).mockImplementation(async (data) => {
+      saved = data;
+      return mockCredential;
+    });
+    (credentialsRepositoryInstance.findEncryptedCredentialsAsync as Mock).mockImplementation(async () => [saved]);
+    return () => saved;
+  };
+
+  describe("saveCredential", () => {
+    it("stores the key encrypted and returns only its hint", async () => {
+      // Arrange
+      const saved = storeSaved();
+
+      // Act
+      const result = await credentialsServiceInstance.saveCredential(userId, LLMProviders.OPENAI, apiKey);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(result.responseObject).toEqual(mockCredential);
+      expect(JSON.stringify(result)).not.toContain(apiKey);
+      expect(saved()).toMatchObject({ userId, provider: LLMProviders.OPENAI, hint: "…WXYZ" });
+      expect(JSON.stringify(saved())).not.toContain(apiKey);
+    });
+
+    it("returns 503 when no master key is configured", async () => {
+      // Arrange
+      const service = new CredentialsService(credentialsRepositoryInstance, null);
+
+      // Act
+      const result = await service.saveCredential(userId, LLMProviders.OPENAI, apiKey);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.SERVICE_UNAVAILABLE);
+      expect(credentialsRepositoryInstance.saveCredentialAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getApiKeys", () => {
+    it("decrypts the user's keys by provider", async () => {
+      // Arrange
+      storeSaved();
+      await credentialsServiceInstance.saveCredential(userId, LLMProviders.OPENAI, apiKey);
+
+      // Act
+      const apiKeys = await credentialsServiceInstance.getApiKeys(userId);
+
+      // Assert
+      expect(apiKeys).toEqual({ [LLMProviders.OPENAI]: apiKey });
+    });
+
+    it("skips keys that do not decrypt, e.g. stored for another user", async () => {
+      // Arrange
+      storeSaved();
+      await credentialsServiceInstance.saveCredential("user-2", LLMProviders.OPENAI, apiKey);
+
+      // Act
+      const apiKeys = await credentialsServiceInstance.getApiKeys(userId);
+
+      // Assert
+      expect(apiKeys).toEqual({});
+    });
+  });
+
+  describe("deleteCredential", () => {
+    it("returns 404 when the user has no key for the provider", async () => {
+      // Arrange
+      (credentialsRepositoryInstance.deleteCredentialAsync as Mock).mockResolvedValue(false);
+
+      // Act
+      const result = await credentialsServiceInstance.deleteCredential(userId, LLMProviders.ANTHROPIC);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.NOT_FOUND);
+      expect(result.message).toEqual("Credential not found");
+    });
+  });
+});
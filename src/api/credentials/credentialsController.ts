@@ -0,0 +1,45 @@
+import type { Request, RequestHandler, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+
+import { CredentialProviderRequestSchema, SaveCredentialRequestSchema } from "@/api/credentials/credentialsModel";
+import { credentialsService } from "@/api/credentials/credentialsService";
+import { requestUserId } from "@/api/credentials/userIdentity";
+import { ServiceResponse } from "@/common/models/serviceResponse";
+import { handleServiceResponse } from "@/common/utils/httpHandlers";
+
+const missingUser = (res: Response) =>
+  handleServiceResponse(
+    ServiceResponse.failure(
+      "The X-User-Id header of an authenticated user is required",
+      null,
+      StatusCodes.UNAUTHORIZED,
+    ),
+    res,
+  );
+
+class CredentialsController {
+  public getCredentials: RequestHandler = async (req: Request, res: Response) => {
+    const userId = requestUserId(req);
+    if (!userId) return missingUser(res);
+    const serviceResponse = await credentialsService.findCredentials(userId);
+    return handleServiceResponse(serviceResponse, res);
+  };
+
+  public saveCredential: RequestHandler = async (req: Request, res: Response) => {
+    const userId = requestUserId(req);
+    if (!userId) return missingUser(res);
+    const { params, body } = SaveCredentialRequestSchema.parse({ params: req.params, body: req.body });
+    const serviceResponse = await credentialsService.saveCredential(userId, params.provider, body.apiKey);
+    return handleServiceResponse(serviceResponse, res);
+  };
+
+  public deleteCredential: RequestHandler = async (req: Request, res: Response) => {
+    const userId = requestUserId(req);
+    if (!userId) return missingUser(res);
+    const { params } = CredentialProviderRequestSchema.parse({ params: req.params });
+    const serviceResponse = await credentialsService.deleteCredential(userId, params.provider);
+    return handleServiceResponse(serviceResponse, res);
+  };
+}
+
+export const credentialsController = new CredentialsController();
@@ -0,0 +1,53 @@
+import { extendZodWithOpenApi } from "@asteasolutions/zod-to-openapi";
+import { z } from "zod";
+
+import { LLMProviders } from "@/common/ai/LLMModelManager";
+
+extendZodWithOpenApi(z);
+
+// Providers a user can bring a key for; FAKE needs none
+export const CREDENTIAL_PROVIDERS = [
+  LLMProviders.OPENAI,
+  LLMProviders.ANTHROPIC,
+  LLMProviders.DEEPSEEK,
+  LLMProviders.OPENAI_COMPATIBLE,
+] as const;
+export type CredentialProvider = (typeof CREDENTIAL_PROVIDERS)[number];
+
+const CredentialProviderSchema = z.enum(CREDENTIAL_PROVIDERS);
+
+// The user is identified by the gateway that authenticates requests, which sets this header
+export const USER_ID_HEADER = "x-user-id";
+// Proves that a request came through the gateway, when GATEWAY_SECRET is set
+export const GATEWAY_SECRET_HEADER = "x-gateway-secret";
+export const UserIdHeaderSchema = z.object({
+  [USER_ID_HEADER]: z.string().trim().min(1).max(200).openapi({
+    description: "ID of the authenticated user, set by the gateway in front of the API",
+  }),
+});
+
+export type ProviderCredential = z.infer<typeof ProviderCredentialSchema>;
+export const ProviderCredentialSchema = z.object({
+  provider: CredentialProviderSchema,
+  hint: z.string().openapi({ description: "Last characters of the key; the key itself is never returned" }),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const ProviderCredentialListSchema = z.array(ProviderCredentialSchema);
+
+// Input Validation for 'PUT credentials/:provider' endpoint
+export type SaveCredentialBody = z.infer<typeof SaveCredentialBodySchema>;
+export const SaveCredentialBodySchema = z.object({
+  apiKey: z.string().trim().min(8).max(500).openapi({ description: "Stored encrypted; never returned or logged" }),
+});
+
+export const SaveCredentialRequestSchema = z.object({
+  params: z.object({ provider: CredentialProviderSchema }),
+  body: SaveCredentialBodySchema,
+});
+
+// Input Validation for 'DELETE credentials/:provider' endpoint
+export const CredentialProviderRequestSchema = z.object({
+  params: z.object({ provider: CredentialProviderSchema }),
+});
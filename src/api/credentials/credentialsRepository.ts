@@ -0,0 +1,45 @@
+import type { CredentialProvider, ProviderCredential } from "@/api/credentials/credentialsModel";
+import type { EncryptedCredential } from "@/common/utils/credentialEncryption";
+import { DatabaseService, type ProviderCredentialSummary } from "@/database";
+
+const toProviderCredential = (row: ProviderCredentialSummary): ProviderCredential => ({
+  provider: row.provider as CredentialProvider,
+  hint: row.hint,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+});
+
+export class CredentialsRepository {
+  private db: DatabaseService;
+
+  constructor(db: DatabaseService = DatabaseService.getInstance()) {
+    this.db = db;
+  }
+
+  async saveCredentialAsync(
+    data: EncryptedCredential & { userId: string; provider: CredentialProvider; hint: string },
+  ): Promise<ProviderCredential> {
+    return toProviderCredential(await this.db.providerCredentials.upsertCredential(data));
+  }
+
+  async findCredentialsAsync(userId: string): Promise<ProviderCredential[]> {
+    const rows = await this.db.providerCredentials.listCredentials(userId);
+    return rows.map(toProviderCredential);
+  }
+
+  async findEncryptedCredentialsAsync(
+    userId: string,
+  ): Promise<(EncryptedCredential & { provider: CredentialProvider })[]> {
+    const rows = await this.db.providerCredentials.getEncryptedCredentials(userId);
+    return rows.map(({ provider, ciphertext, iv, authTag }) => ({
+      provider: provider as CredentialProvider,
+      ciphertext,
+      iv,
+      authTag,
+    }));
+  }
+
+  async deleteCredentialAsync(userId: string, provider: CredentialProvider): Promise<boolean> {
+    return this.db.providerCredentials.deleteCredential(userId, provider);
+  }
+}
@@ -0,0 +1,62 @@
+import { OpenAPIRegistry } from "@asteasolutions/zod-to-openapi";
+import express, { type Router } from "express";
+import { z } from "zod";
+
+import { createApiResponse } from "@/api-docs/openAPIResponseBuilders";
+import {
+  CredentialProviderRequestSchema,
+  ProviderCredentialListSchema,
+  ProviderCredentialSchema,
+  SaveCredentialBodySchema,
+  SaveCredentialRequestSchema,
+  UserIdHeaderSchema,
+} from "@/api/credentials/credentialsModel";
+import { validateRequest } from "@/common/utils/httpHandlers";
+import { credentialsController } from "./credentialsController";
+
+export const credentialsRegistry = new OpenAPIRegistry();
+export const credentialsRouter: Router = express.Router();
+
+credentialsRegistry.register("ProviderCredential", ProviderCredentialSchema);
+
+credentialsRegistry.registerPath({
+  method: "get",
+  path: "/credentials",
+  tags: ["Credentials"],
+  request: { headers: UserIdHeaderSchema },
+  responses: createApiResponse(ProviderCredentialListSchema, "Success"),
+});
+
+credentialsRegistry.registerPath({
+  method: "put",
+  path: "/credentials/{provider}",
+  tags: ["Credentials"],
+  request: {
+    headers: UserIdHeaderSchema,
+    params: SaveCredentialRequestSchema.shape.params,
+    body: {
+      content: {
+        "application/json": {
+          schema: SaveCredentialBodySchema,
+        },
+      },
+    },
+  },
+  responses: createApiResponse(ProviderCredentialSchema, "Success"),
+});
+
+credentialsRegistry.registerPath({
+  method: "delete",
+  path: "/credentials/{provider}",
+  tags: ["Credentials"],
+  request: { headers: UserIdHeaderSchema, params: CredentialProviderRequestSchema.shape.params },
+  responses: createApiResponse(z.null(), "Success"),
+});
+
+credentialsRouter.get("/", credentialsController.getCredentials);
+credentialsRouter.put("/:provider", validateRequest(SaveCredentialRequestSchema), credentialsController.saveCredential);
+credentialsRouter.delete(
+  "/:provider",
+  validateRequest(CredentialProviderRequestSchema),
+  credentialsController.deleteCredential,
+);
@@ -0,0 +1,123 @@
+import { StatusCodes } from "http-status-codes";
+
+import type { CredentialProvider, ProviderCredential } from "@/api/credentials/credentialsModel";
+import { CredentialsRepository } from "@/api/credentials/credentialsRepository";
+import type { LLMProviders } from "@/common/ai/LLMModelManager";
+import { ServiceResponse } from "@/common/models/serviceResponse";
+import {
+  credentialHint,
+  decryptCredential,
+  encryptCredential,
+  parseMasterKey,
+} from "@/common/utils/credentialEncryption";
+import { env } from "@/common/utils/envConfig";
+import { logger } from "@/server";
+
+const configuredMasterKey = env.CREDENTIALS_MASTER_KEY ? parseMasterKey(env.CREDENTIALS_MASTER_KEY) : null;
+
+// Binds a ciphertext to its user and provider, so a row copied to another user or provider does not decrypt
+const encryptionContext = (userId: string, provider: CredentialProvider) => JSON.stringify([userId, provider]);
+
+export class CredentialsService {
+  private credentialsRepository: CredentialsRepository;
+  private masterKey: Buffer | null;
+
+  constructor(
+    repository: CredentialsRepository = new CredentialsRepository(),
+    masterKey: Buffer | null = configuredMasterKey,
+  ) {
+    this.credentialsRepository = repository;
+    this.masterKey = masterKey;
+  }
+
+  // Encrypts and stores a user's key for a provider, replacing the key they had for it
+  async saveCredential(
+    userId: string,
+    provider: CredentialProvider,
+    apiKey: string,
+  ): Promise<ServiceResponse<ProviderCredential | null>> {
+    if (!this.masterKey) return this.notConfigured();
+    try {
+      const credential = await this.credentialsRepository.saveCredentialAsync({
+        userId,
+        provider,
+        ...encryptCredential(apiKey, this.masterKey, encryptionContext(userId, provider)),
+        hint: credentialHint(apiKey),
+      });
+      return ServiceResponse.success<ProviderCredential>("Credential saved", credential);
+    } catch (ex) {
+      // Only the provider is logged; the error cannot contain the key, which never reaches the database
+      const errorMessage = `Error saving the ${provider} credential: ${(ex as Error).message}`;
+      logger.error(errorMessage);
+      return ServiceResponse.failure(
+        "An error occurred while saving the credential.",
+        null,
+        StatusCodes.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // Lists which providers a user has keys for, with their hints
+  async findCredentials(userId: string): Promise<ServiceResponse<ProviderCredential[] | null>> {
+    try {
+      const credentials = await this.credentialsRepository.findCredentialsAsync(userId);
+      return ServiceResponse.success<ProviderCredential[]>("Credentials found", credentials);
+    } catch (ex) {
+      const errorMessage = `Error finding credentials: ${(ex as Error).message}`;
+      logger.error(errorMessage);
+      return ServiceResponse.failure(
+        "An error occurred while retrieving credentials.",
+        null,
+        StatusCodes.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // Deletes a user's key for a provider; their sessions use the server's key again
+  async deleteCredential(userId: string, provider: CredentialProvider): Promise<ServiceResponse<null>> {
+    try {
+      const deleted = await this.credentialsRepository.deleteCredentialAsync(userId, provider);
+      if (!deleted) {
+        return ServiceResponse.failure("Credential not found", null, StatusCodes.NOT_FOUND);
+      }
+      return ServiceResponse.success("Credential deleted", null);
+    } catch (ex) {
+      const errorMessage = `Error deleting the ${provider} credential: ${(ex as Error).message}`;
+      logger.error(errorMessage);
+      return ServiceResponse.failure(
+        "An error occurred while deleting the credential.",
+        null,
+        StatusCodes.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Decrypt a user's keys for their model calls
+   * A key that no longer decrypts, e.g. after the master key changed, is skipped so the server's key is used.
+   * @param userId User ID
+   * @returns The keys by provider; empty when the store is not configured
+   */
+  async getApiKeys(userId: string): Promise<Partial<Record<LLMProviders, string>>> {
+    if (!this.masterKey) return {};
+    const apiKeys: Partial<Record<LLMProviders, string>> = {};
+    for (const { provider, ...encrypted } of await this.credentialsRepository.findEncryptedCredentialsAsync(userId)) {
+      try {
+        apiKeys[provider] = decryptCredential(encrypted, this.masterKey, encryptionContext(userId, provider));
+      } catch {
+        logger.warn(`The ${provider} credential of a user could not be decrypted, using the server's key`);
+      }
+    }
+    return apiKeys;
+  }
+
+  private notConfigured(): ServiceResponse<null> {
+    return ServiceResponse.failure(
+      "Provider credentials are not enabled on this server. Set CREDENTIALS_MASTER_KEY to enable them.",
+      null,
+      StatusCodes.SERVICE_UNAVAILABLE,
+    );
+  }
+}
+
+export const credentialsService = new CredentialsService();
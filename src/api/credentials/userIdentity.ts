@@ -0,0 +1,54 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { Request } from "express";
+
+import { GATEWAY_SECRET_HEADER, USER_ID_HEADER, UserIdHeaderSchema } from "@/api/credentials/credentialsModel";
+import { env } from "@/common/utils/envConfig";
+
+export const gatewayConfig = {
+  /** Secret the gateway sends with X-User-Id; without one, X-User-Id is ignored and every request is anonymous */
+  secret: env.GATEWAY_SECRET,
+  /** Users who manage the global knowledge */
+  admins: env.ADMIN_USER_IDS.split(",")
+    .map((userId) => userId.trim())
+    .filter(Boolean),
+};
+
+// Compared as hashes, so neither the length nor the content of the secret leaks through timing
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+// Fails closed: without a configured secret no request can prove that the gateway sent it
+const fromGateway = (req: Request): boolean => {
+  if (!gatewayConfig.secret) return false;
+  const secret = req.headers[GATEWAY_SECRET_HEADER];
+  return typeof secret === "string" && timingSafeEqual(digest(secret), digest(gatewayConfig.secret));
+};
+
+// The authenticated user, or null when the gateway did not identify one
+export const requestUserId = (req: Request): string | null => {
+  if (!fromGateway(req)) return null;
+  const headers = UserIdHeaderSchema.safeParse(req.headers);
+  return headers.success ? headers.data[USER_ID_HEADER] : null;
+};
+
+// Whether the gateway identified the request's user as one of ADMIN_USER_IDS
+export const isAdmin = (req: Request): boolean => {
+  const userId = requestUserId(req);
+  return userId !== null && gatewayConfig.admins.includes(userId);
+};
+
+/**
+ * Check whether a user may use a session: sessions without an owner are open to everyone,
+ * those created by a user only to that user
+ * @param session The session, with the user who created it
+ * @param userId The user, or null for an anonymous request
+ */
+export const ownsSession = (session: { userId: string | null }, userId: string | null): boolean =>
+  !session.userId || session.userId === userId;
+
+/**
+ * Check whether a request may use a session, see `ownsSession`
+ * @param session The session, with the user who created it
+ * @param req The request, identifying its user through the gateway
+ */
+export const isSessionOwner = (session: { userId: string | null }, req: Request): boolean =>
+  ownsSession(session, requestUserId(req));
@@ -0,0 +1,669 @@
+import request from "supertest";
+
+import { gatewayConfig } from "@/api/credentials/userIdentity";
+import { elizaService } from "@/api/eliza/elizaService";
+import { LLMProviders } from "@/common/ai/LLMModelManager";
+import {
+  allowedModels,
+  characterUpdateConfig,
+  fallbackModels,
+  modelProfiles,
+  resilienceConfig,
+} from "@/common/ai/aiConfig";
+import { ElizaGeneratorAgent } from "@/common/ai/delilaElizaAgent/AgentServer";
+import { ScriptedChatModel } from "@/common/ai/fakeProviders/ScriptedChatModel";
+import { KnowledgeIngestor } from "@/common/ai/knowledge/KnowledgeIngestor";
+import { providerCircuitBreakers } from "@/common/ai/resilience/circuitBreaker";
+import { ServiceResponse } from "@/common/models/serviceResponse";
+import { app } from "@/server";
+
+// In-memory stand-in for the Prisma backed repositories, so the chat stream runs without Postgres
+const db = vi.hoisted(() => {
+  type Row = { id: string; sessionId: string; createdAt: Date; [key: string]: unknown };
+  type Session = { id: string; stage: string; provider?: string; model?: string; userId?: string };
+  type Credential = { userId: string; provider: string; hint: string; createdAt: Date; updatedAt: Date };
+  const sessions = new Map<string, Session>();
+  const messages: Row[] = [];
+  const characterFiles = new Map<string, Row & { content: unknown; version: number }>();
+  const credentials: Credential[] = [];
+  let nextId = 0;
+  const id = () => `00000000-0000-4000-8000-${String(++nextId).padStart(12, "0")}`;
+
+  return {
+    sessions,
+    messages,
+    characterFiles,
+    credentials,
+    service: {
+      connect: async () => {},
+      sessions: {
+        createSession: async (data: { provider?: string; model?: string; userId?: string } = {}) => {
+          const session = { id: id(), stage: "persona", ...data };
+          sessions.set(session.id, session);
+          return session;
+        },
+        getSessionById: async (sessionId: string) => sessions.get(sessionId) ?? null,
+        updateSession: async (sessionId: string, data: { stage?: string }) => {
+          const session = { ...sessions.get(sessionId), ...data } as Session;
+          sessions.set(sessionId, session);
+          return session;
+        },
+      },
+      messages: {
+        createMessage: async (data: {
+          content: string;
+          role: string;
+          sessionId: string;
+          citations?: unknown;
+          toolCall?: unknown;
+        }) => {
+          const message = { id: id(), createdAt: new Date(), ...data };
+          messages.push(message);
+          return message;
+        },
+        getMessagesBySessionId: async (sessionId: string) =>
+          messages.filter((message) => message.sessionId === sessionId),
+      },
+      characterFiles: {
+        createCharacterFile: async (data: { content: unknown; sessionId: string }) => {
+          const previous = characterFiles.get(data.sessionId);
+          const characterFile = {
+            id: previous?.id ?? id(),
+            createdAt: new Date(),
+            content: data.content,
+            sessionId: data.sessionId,
+            version: (previous?.version ?? 0) + 1,
+          };
+          characterFiles.set(data.sessionId, characterFile);
+          return characterFile;
+        },
+        getCharacterFileBySessionId: async (sessionId: string) => characterFiles.get(sessionId) ?? null,
+      },
+      providerCredentials: {
+        upsertCredential: async (data: Omit<Credential, "createdAt" | "updatedAt">) => {
+          const credential = { ...data, createdAt: new Date(), updatedAt: new Date() };
+          credentials.push(credential);
+          return credential;
+        },
+        getEncryptedCredentials: async (userId: string) =>
+          credentials.filter((credential) => credential.userId === userId),
+        listCredentials: async (userId: string) => credentials.filter((credential) => credential.userId === userId),
+      },
+    },
+  };
+});
+
+vi.mock("@/database", () => ({
+  DatabaseService: { getInstance: () => db.service },
+}));
+
+type StreamEvent = { type: string; content: unknown; [key: string]: unknown };
+
+const parseEvents = (body: string) => {
+  const data = body
+    .split("\n\n")
+    .filter((frame) => frame.startsWith("data: "))
+    .map((frame) => frame.slice("data: ".length));
+  return {
+    done: data[data.length - 1] === "[DONE]",
+    events: data.filter((payload) => payload !== "[DONE]").map((payload) => JSON.parse(payload) as StreamEvent),
+  };
+};
+
+// Make the fake model fail the reply after streaming `chunksBeforeError` chunks; the character file is unaffected
+const failReply = (error: Error, chunksBeforeError = 0) => {
+  const streamChunks = ScriptedChatModel.prototype._streamResponseChunks;
+  return vi.spyOn(ScriptedChatModel.prototype, "_streamResponseChunks").mockImplementation(async function* (
+    this: ScriptedChatModel,
+    messages,
+    options,
+    runManager,
+  ) {
+    const isReply = this.respondTo(messages, options).text.startsWith('{"reply"');
+    let chunks = 0;
+    for await (const chunk of streamChunks.call(this, messages, options, runManager)) {
+      if (isReply && chunks++ === chunksBeforeError) throw error;
+      yield chunk;
+    }
+  });
+};
+
+// Headers of a request the gateway authenticated as `userId`
+const GATEWAY_SECRET = "gateway-secret";
+const asUser = (userId: string) => ({ "X-User-Id": userId, "X-Gateway-Secret": GATEWAY_SECRET });
+
+describe("Eliza chat stream (FAKE provider)", () => {
+  beforeAll(() => {
+    gatewayConfig.secret = GATEWAY_SECRET;
+  });
+
+  afterAll(() => {
+    gatewayConfig.secret = "";
+  });
+
+  it("POST /eliza/chat - streams the reply and character file as SSE events", async () => {
+    // Arrange
+    const session = await db.service.sessions.createSession();
+
+    // Act
+    const response = await request(app)
+      .post("/eliza/chat")
+      .send({ sessionId: session.id, messages: [{ role: "user", content: "I want a community agent" }] });
+
+    // Assert
+    expect(response.statusCode).toEqual(200);
+    expect(response.headers["content-type"]).toContain("text/event-stream");
+
+    const { events, done } = parseEvents(response.text);
+    expect(done).toBe(true);
+    expect(events.filter((event) => event.type === "error")).toEqual([]);
+
+    // Text deltas, then the complete reply once
+    const replies = events.filter((event) => event.type === "reply");
+    const replyText = replies.map((event) => event.content).join("");
+    expect(replies.length).toBeGreaterThan(1);
+    expect(replyText).toContain("offline fake model");
+    expect(replyText).not.toContain('"reply"');
+    const completes = events.filter((event) => event.type === "replyComplete");
+    expect(completes).toHaveLength(1);
+    expect(completes[0].content).toEqual(replyText);
+    expect(events.indexOf(completes[0])).toBeGreaterThan(events.lastIndexOf(replies[replies.length - 1]));
+
+    const characterFiles = events.filter((event) => event.type === "characterFile");
+    expect(characterFiles.length).toBeGreaterThan(0);
+    expect(characterFiles[characterFiles.length - 1].content).toMatchObject({ name: "Nova", modelProvider: "openai" });
+
+    // Fields are reported as the edit operations stream in, before the whole character file
+    const fields = events.filter((event) => event.type === "characterField");
+    expect(fields.every((event) => event.source === "character")).toBe(true);
+    expect(fields.map((event) => event.content)).toContainEqual({
+      path: "/name",
+      field: "name",
+      change: "set",
+      value: "Nova",
+    });
+    expect(events.indexOf(fields[fields.length - 1])).toBeLessThan(events.indexOf(characterFiles[0]));
+
+    // The fake edit operations give a valid file, so neither a full draft nor a repair call is made
+    const stats = events.find((event) => event.type === "stats");
+    expect(stats?.content).toMatchObject({
+      valid: true,
+      errors: [],
+      mode: "edits",
+      fallback: false,
+      operations: expect.any(Number),
+      repaired: false,
+      modelCalls: { edit: 1, draft: 0, repair: 0, total: 1 },
+      timingsMs: { total: expect.any(Number) },
+    });
+
+    const lintIndex = events.findIndex((event) => event.type === "lint");
+    expect(lintIndex).toBeGreaterThan(events.lastIndexOf(characterFiles[characterFiles.length - 1]));
+    expect(events[lintIndex].content).toMatchObject({
+      findings: expect.arrayContaining([
+        expect.objectContaining({ rule: "missing-secret", path: "/settings/secrets/OPENAI_API_KEY", fixable: true }),
+        expect.objectContaining({ rule: "client-required", severity: "error" }),
+      ]),
+    });
+
+    // The plan the reply follows comes before it, the updated plan after the character file
+    const plans = events.filter((event) => event.type === "plan");
+    expect(plans).toHaveLength(2);
+    expect(events.indexOf(plans[0])).toBeLessThan(events.findIndex((event) => event.type === "reply"));
+    expect(plans[0].content).toMatchObject({ stage: "persona", progress: 0 });
+    expect(plans[1].content).toMatchObject({ stage: "persona", progress: expect.any(Number) });
+    expect((plans[1].content as { progress: number }).progress).toBeGreaterThan(0);
+    expect(db.sessions.get(session.id)?.stage).toEqual("persona");
+
+    // The reply and character file events are interleaved, each source numbering its own from 0
+    for (const source of ["session", "reply", "character"]) {
+      const sequence = events.filter((event) => event.source === source).map((event) => event.seq);
+      expect(sequence).toEqual(sequence.map((_, index) => index));
+    }
+    expect(replies.every((event) => event.source === "reply")).toBe(true);
+    expect(characterFiles.every((event) => event.source === "character")).toBe(true);
+  });
+
+  it("POST /eliza/chat - keeps streaming the reply when the character file fails", async () => {
+    // Arrange
+    const session = await db.service.sessions.createSession();
+    const generateCharacterFile = vi
+      .spyOn(ElizaGeneratorAgent.prototype, "generateCharacterFile")
+      .mockRejectedValueOnce(new Error("Provider unavailable"));
+
+    // Act
+    const response = await request(app)
+      .post("/eliza/chat")
+      .send({ sessionId: session.id, messages: [{ role: "user", content: "Make it friendly" }] });
+    generateCharacterFile.mockRestore();
+
+    // Assert
+    const { events, done } = parseEvents(response.text);
+    expect(done).toBe(true);
+    expect(events.filter((event) => event.type === "error")).toEqual([
+      expect.objectContaining({ source: "character", errorType: "characterFileError", error: "Provider unavailable" }),
+    ]);
+    expect(events.find((event) => event.type === "replyComplete")?.content).toContain("offline fake model");
+    expect(events.some((event) => event.type === "characterFile")).toBe(false);
+    expect(db.characterFiles.get(session.id)).toBeUndefined();
+  });
+
+  it("POST /eliza/chat - reports a reply that fails mid-stream instead of completing and storing it", async () => {
+    // Arrange
+    const session = await db.service.sessions.createSession();
+    failReply(new Error("Connection reset"), 2);
+
+    // Act
+    const response = await request(app)
+      .post("/eliza/chat")
+      .send({ sessionId: session.id, messages: [{ role: "user", content: "Make it friendly" }] });
+
+    // Assert
+    const { events, done } = parseEvents(response.text);
+    expect(done).toBe(true);
+    expect(events.filter((event) => event.type === "reply")).toHaveLength(2);
+    expect(events.some((event) => event.type === "replyComplete")).toBe(false);
+    expect(events.filter((event) => event.type === "error")).toEqual([
+      expect.objectContaining({ source: "reply", errorType: "replyError" }),
+    ]);
+    expect(db.messages.filter((message) => message.sessionId === session.id && message.role === "assistant")).toEqual(
+      [],
+    );
+  });
+
+  it("POST /eliza/chat - keeps generating the character file when the reply fails", async () => {
+    // Arrange
+    const session = await db.service.sessions.createSession();
+    failReply(new Error("Invalid request"));
+
+    // Act
+    const response = await request(app)
+      .post("/eliza/chat")
+      .send({ sessionId: session.id, messages: [{ role: "user", content: "Make it friendly" }] });
+
+    // Assert
+    const { events, done } = parseEvents(response.text);
+    expect(done).toBe(true);
+    expect(events.filter((event) => event.type === "error")).toEqual([
+      expect.objectContaining({ source: "reply", errorType: "replyError" }),
+    ]);
+    const characterEvents = events.filter((event) => event.source === "character").map((event) => event.type);
+    expect(characterEvents).toEqual(expect.arrayContaining(["characterFile", "stats", "lint", "plan"]));
+    expect(db.characterFiles.get(session.id)?.content).toMatchObject({ name: "Nova" });
+  });
+
+  it("POST /eliza/chat - persists the assistant reply and the generated character file", async () => {
+    // Arrange
+    const session = await db.service.sessions.createSession();
+
+    // Act
+    const response = await request(app)
+      .post("/eliza/chat")
+      .send({ sessionId: session.id, messages: [{ role: "user", content: "Make it friendly" }] });
+
+    // Assert
+    const assistantMessages = db.messages.filter(
+      (message) => message.sessionId === session.id && message.role === "assistant",
+    );
+    const userMessages = db.messages.filter((message) => message.sessionId === session.id && message.role === "user");
+    expect(userMessages.map((message) => message.content)).toEqual(["Make it friendly"]);
+    expect(assistantMessages).toHaveLength(1);
+    expect(assistantMessages[0].content).toContain("offline fake model");
+    // Exactly the text the client was streamed
+    const streamed = parseEvents(response.text)
+      .events.filter((event) => event.type === "reply")
+      .map((event) => event.content)
+      .join("");
+    expect(assistantMessages[0].content).toEqual(streamed);
+    // With the configured default model
+    expect(assistantMessages[0]).toMatchObject({ provider: "FAKE", model: "fake" });
+    // Stored with the linter's safe autofixes applied, exactly as the client was sent it
+    const stored = db.characterFiles.get(session.id)?.content;
+    expect(stored).toMatchObject({
+      name: "Nova",
+      settings: { secrets: { OPENAI_API_KEY: "" } },
+    });
+    const characterFiles = parseEvents(response.text).events.filter((event) => event.type === "characterFile");
+    expect(characterFiles[characterFiles.length - 1].content).toEqual(stored);
+    // Edit operations are applied by the server, without tool calls
+    expect(db.messages.filter((message) => message.sessionId === session.id && message.role === "tool")).toEqual([]);
+  });
+
+  it("POST /eliza/chat - regenerates the full character file through the tool loop in full mode", async () => {
+    // Arrange
+    const session = await db.service.sessions.createSession();
+    characterUpdateConfig.mode = "full";
+
+    // Act
+    let response: request.Response;
+    try {
+      response = await request(app)
+        .post("/eliza/chat")
+        .send({ sessionId: session.id, messages: [{ role: "user", content: "Make it friendly" }] });
+    } finally {
+      characterUpdateConfig.mode = "edits";
+    }
+
+    // Assert
+    const stats = parseEvents(response.text).events.find((event) => event.type === "stats");
+    expect(stats?.content).toMatchObject({ mode: "full", modelCalls: { edit: 0, draft: 1, repair: 0, total: 1 } });
+    expect(db.characterFiles.get(session.id)?.content).toMatchObject({ name: "Nova" });
+
+    const toolMessages = db.messages.filter((message) => message.sessionId === session.id && message.role === "tool");
+    expect(toolMessages).toHaveLength(1);
+    expect(toolMessages[0].toolCall).toMatchObject({ name: "validate_character_file", args: { name: "Nova" } });
+    expect(JSON.parse(toolMessages[0].content as string)).toMatchObject({ name: "Nova" });
+    expect(toolMessages[0]).toMatchObject({ provider: "FAKE", model: "fake" });
+  });
+
+  it("POST /eliza/init-session - rejects a model that is not in LLM_ALLOWED_MODELS", async () => {
+    // Act
+    const response = await request(app).post("/eliza/init-session").send({ provider: "OPENAI", model: "gpt-4o" });
+
+    // Assert
+    expect(response.statusCode).toEqual(400);
+    expect(response.body).toMatchObject({
+      error: "Model not allowed",
+      allowedModels: [{ provider: "FAKE", model: "fake" }],
+    });
+  });
+
+  it("POST /eliza/init-session - rejects a character file that is not an object before creating the session", async () => {
+    // Arrange
+    const sessionCount = db.sessions.size;
+
+    // Act
+    const response = await request(app)
+      .post("/eliza/init-session")
+      .send({ characterFile: ["not", "an", "object"] });
+
+    // Assert
+    expect(response.statusCode).toEqual(400);
+    expect(response.body.message).toContain("Invalid input");
+    expect(db.sessions.size).toEqual(sessionCount);
+  });
+
+  it("POST /eliza/chat - chats with the model chosen at init-session and records it on the messages", async () => {
+    // Arrange
+    allowedModels.push({ provider: LLMProviders.FAKE, model: "fake-large" });
+
+    try {
+      // Act
+      const init = await request(app).post("/eliza/init-session").send({ model: "fake-large" });
+      const { sessionId } = init.body as { sessionId: string };
+      await request(app)
+        .post("/eliza/chat")
+        .send({ sessionId, messages: [{ role: "user", content: "Make it friendly" }] });
+      // A single turn can switch back to the default model
+      await request(app)
+        .post("/eliza/chat")
+        .send({ sessionId, model: "fake", messages: [{ role: "user", content: "And funny" }] });
+
+      // Assert
+      expect(init.statusCode).toEqual(200);
+      expect(db.sessions.get(sessionId)).toMatchObject({ provider: "FAKE", model: "fake-large" });
+      const assistantMessages = db.messages.filter(
+        (message) => message.sessionId === sessionId && message.role === "assistant",
+      );
+      expect(assistantMessages.map((message) => message.model)).toEqual(["fake-large", "fake"]);
+    } finally {
+      allowedModels.pop();
+    }
+  });
+
+  it("POST /eliza/chat - routes the reply to the model of the reply profile", async () => {
+    // Arrange
+    const session = await db.service.sessions.createSession();
+    modelProfiles.reply = { model: "fake-mini", temperature: 0.9 };
+
+    // Act
+    try {
+      await request(app)
+        .post("/eliza/chat")
+        .send({ sessionId: session.id, messages: [{ role: "user", content: "Make it friendly" }] });
+    } finally {
+      modelProfiles.reply = undefined;
+    }
+
+    // Assert
+    const assistantMessages = db.messages.filter(
+      (message) => message.sessionId === session.id && message.role === "assistant",
+    );
+    expect(assistantMessages).toHaveLength(1);
+    expect(assistantMessages[0]).toMatchObject({ provider: "FAKE", model: "fake-mini" });
+  });
+
+  it("POST /eliza/chat - keeps the reply on the session's chosen model over the reply profile", async () => {
+    // Arrange
+    const session = await db.service.sessions.createSession({ provider: "FAKE", model: "fake" });
+    modelProfiles.reply = { model: "fake-mini" };
+
+    // Act
+    try {
+      await request(app)
+        .post("/eliza/chat")
+        .send({ sessionId: session.id, messages: [{ role: "user", content: "Make it friendly" }] });
+    } finally {
+      modelProfiles.reply = undefined;
+    }
+
+    // Assert
+    const assistantMessages = db.messages.filter(
+      (message) => message.sessionId === session.id && message.role === "assistant",
+    );
+    expect(assistantMessages).toHaveLength(1);
+    expect(assistantMessages[0]).toMatchObject({ provider: "FAKE", model: "fake" });
+  });
+
+  it("POST /eliza/chat - tells the client when a fallback model answered and records it", async () => {
+    // Arrange
+    const session = await db.service.sessions.createSession();
+    const notice = {
+      from: { provider: "FAKE", model: "fake" },
+      to: { provider: "FAKE", model: "fake-backup" },
+      reason: "529 Overloaded",
+    };
+    const generateReply = ElizaGeneratorAgent.prototype.generateReply;
+    const spy = vi.spyOn(ElizaGeneratorAgent.prototype, "generateReply").mockImplementationOnce(async function (
+      this: ElizaGeneratorAgent,
+      ...args
+    ) {
+      args[6]?.(notice);
+      return generateReply.apply(this, args);
+    });
+
+    // Act
+    const response = await request(app)
+      .post("/eliza/chat")
+      .send({ sessionId: session.id, messages: [{ role: "user", content: "Make it friendly" }] });
+    spy.mockRestore();
+
+    // Assert
+    const { events } = parseEvents(response.text);
+    const replyEvents = events.filter((event) => event.source === "reply");
+    expect(replyEvents[0]).toMatchObject({ type: "modelFallback", content: notice });
+    expect(replyEvents.some((event) => event.type === "replyComplete")).toBe(true);
+    const assistantMessage = db.messages.find(
+      (message) => message.sessionId === session.id && message.role === "assistant",
+    );
+    expect(assistantMessage).toMatchObject({ provider: "FAKE", model: "fake-backup" });
+  });
+
+  it("POST /eliza/chat - reports an error when the reply model and every fallback fail", async () => {
+    // Arrange
+    const session = await db.service.sessions.createSession();
+    fallbackModels.push({ provider: LLMProviders.FAKE, model: "fake-backup" });
+    const { maxRetries } = resilienceConfig;
+    resilienceConfig.maxRetries = 0;
+    failReply(Object.assign(new Error("Overloaded"), { status: 529 }));
+
+    // Act
+    let response: request.Response;
+    try {
+      response = await request(app)
+        .post("/eliza/chat")
+        .send({ sessionId: session.id, messages: [{ role: "user", content: "Make it friendly" }] });
+    } finally {
+      fallbackModels.pop();
+      resilienceConfig.maxRetries = maxRetries;
+      providerCircuitBreakers.clear();
+    }
+
+    // Assert
+    const { events, done } = parseEvents(response.text);
+    expect(done).toBe(true);
+    const replyEvents = events.filter((event) => event.source === "reply");
+    expect(replyEvents).toEqual([
+      expect.objectContaining({
+        type: "error",
+        errorType: "replyError",
+        error: "No model could answer: FAKE:fake: 529 Overloaded; FAKE:fake-backup: 529 Overloaded",
+      }),
+    ]);
+    expect(db.messages.filter((message) => message.sessionId === session.id && message.role === "assistant")).toEqual(
+      [],
+    );
+  });
+
+  it("POST /eliza/chat - uses the API keys of the session's owner and keeps them out of messages", async () => {
+    // Arrange
+    const apiKey = "sk-user-0123456789abcdefWXYZ";
+    const saved = await request(app).put("/credentials/OPENAI").set(asUser("user-1")).send({ apiKey });
+    allowedModels.push({ provider: LLMProviders.OPENAI, model: "gpt-4o" });
+    // An error quoting the key, as provider SDKs do for a rejected one
+    const create = vi
+      .spyOn(ElizaGeneratorAgent, "create")
+      .mockRejectedValueOnce(new Error(`Stop before the model call with ${apiKey}`));
+    const consoleError = vi.spyOn(console, "error");
+
+    // Act
+    try {
+      const initSession = await request(app)
+        .post("/eliza/init-session")
+        .set(asUser("user-1"))
+        .send({ provider: "OPENAI", model: "gpt-4o", initialMessage: `Use my key ${apiKey}` });
+      const { sessionId } = initSession.body;
+      const stranger = await request(app)
+        .post("/eliza/chat")
+        .set(asUser("user-2"))
+        .send({ sessionId, messages: [{ role: "user", content: "Hi" }] });
+      await request(app)
+        .post("/eliza/chat")
+        .set(asUser("user-1"))
+        .send({ sessionId, messages: [{ role: "user", content: "Hi" }] });
+
+      // Assert
+      expect(saved.status).toEqual(200);
+      expect(saved.body.responseObject).toMatchObject({ provider: "OPENAI", hint: "…WXYZ" });
+      expect(saved.text).not.toContain(apiKey);
+      expect(JSON.stringify(db.credentials)).not.toContain(apiKey);
+      expect(stranger.status).toEqual(403);
+      expect(create).toHaveBeenCalledTimes(1);
+      expect(create.mock.calls[0][0].reply).toMatchObject({ provider: "OPENAI", apiKey });
+      const stored = db.messages.filter((message) => message.sessionId === sessionId);
+      expect(stored.map((message) => message.content)).toEqual(["Use my key [REDACTED]"]);
+      expect(consoleError).toHaveBeenCalledWith("Error in chat handler:", expect.stringContaining("[REDACTED]"));
+      expect(JSON.stringify(consoleError.mock.calls)).not.toContain(apiKey);
+    } finally {
+      allowedModels.pop();
+    }
+  });
+
+  it("/eliza/sessions/:id - refuses a user's session to anyone else", async () => {
+    // Arrange
+    const session = await db.service.sessions.createSession({ userId: "user-1" });
+    const findSessionById = vi
+      .spyOn(elizaService, "findSessionById")
+      .mockResolvedValue(ServiceResponse.success("Session found", null));
+
+    // Act
+    const stranger = await request(app).get(`/eliza/sessions/${session.id}`).set(asUser("user-2"));
+    const anonymous = await request(app).delete(`/eliza/sessions/${session.id}`);
+    const revert = await request(app)
+      .post(`/eliza/sessions/${session.id}/character-file/revert`)
+      .set(asUser("user-2"))
+      .send({ version: 1 });
+    const owner = await request(app).get(`/eliza/sessions/${session.id}`).set(asUser("user-1"));
+
+    // Assert
+    expect([stranger.status, anonymous.status, revert.status]).toEqual([403, 403, 403]);
+    expect(stranger.body.message).toEqual("The session belongs to another user");
+    expect(owner.status).toEqual(200);
+    expect(findSessionById).toHaveBeenCalledTimes(1);
+    expect(db.sessions.has(session.id)).toBe(true);
+  });
+
+  it("GET /credentials - ignores X-User-Id without the gateway secret", async () => {
+    // Act
+    const forged = await request(app).get("/credentials").set("X-User-Id", "user-1");
+    const wrongSecret = await request(app)
+      .get("/credentials")
+      .set("X-User-Id", "user-1")
+      .set("X-Gateway-Secret", "guessed");
+    const trusted = await request(app).get("/credentials").set(asUser("user-1"));
+    gatewayConfig.secret = "";
+    let unconfigured: request.Response;
+    try {
+      unconfigured = await request(app).get("/credentials").set(asUser("user-1"));
+    } finally {
+      gatewayConfig.secret = GATEWAY_SECRET;
+    }
+
+    // Assert
+    expect([forged.status, wrongSecret.status, trusted.status]).toEqual([401, 401, 200]);
+    // Without a configured secret no request is trusted
+    expect(unconfigured.status).toEqual(401);
+  });
+
+  it("POST /eliza/chat - cites the retrieved knowledge before the reply and stores the citations", async () => {
+    // Arrange
+    const session = await db.service.sessions.createSession();
+    const ingestor = new KnowledgeIngestor();
+    const chunks = await ingestor.split(
+      {
+        content: Buffer.from("The discord client needs DISCORD_API_TOKEN in settings.secrets"),
+        contentType: "text/markdown",
+        filename: "clients/discord.md",
+        title: "Discord client",
+      },
+      { type: "markdown", chunkSize: 1000, chunkOverlap: 0 },
+    );
+    await ingestor.replace("discord-docs", "discord.md", "global", chunks);
+
+    // Act
+    const response = await request(app)
+      .post("/eliza/chat")
+      .send({ sessionId: session.id, messages: [{ role: "user", content: "Which discord token do I need?" }] });
+
+    // Assert
+    const { events } = parseEvents(response.text);
+    const contextIndex = events.findIndex((event) => event.type === "context");
+    expect(contextIndex).toBeGreaterThanOrEqual(0);
+    expect(contextIndex).toBeLessThan(events.findIndex((event) => event.type === "reply"));
+    const citation = expect.objectContaining({
+      sourceId: "discord-docs",
+      title: "Discord client",
+      path: "clients/discord.md",
+      namespace: "global",
+      score: expect.any(Number),
+    });
+    expect(events[contextIndex].content).toEqual([citation]);
+
+    const [assistantMessage] = db.messages.filter(
+      (message) => message.sessionId === session.id && message.role === "assistant",
+    );
+    expect(assistantMessage.citations).toEqual([citation]);
+
+    await ingestor.remove("discord-docs");
+  });
+
+  it("POST /eliza/chat - returns 404 for an unknown session", async () => {
+    // Act
+    const response = await request(app)
+      .post("/eliza/chat")
+      .send({ sessionId: "00000000-0000-4000-8000-999999999999", messages: [{ role: "user", content: "Hi" }] });
+
+    // Assert
+    expect(response.statusCode).toEqual(404);
+  });
+});
@@ -0,0 +1,230 @@
+import { StatusCodes } from "http-status-codes";
+import type { Mock } from "vitest";
+
+import type { SessionDetail, SessionSummary } from "@/api/eliza/elizaModel";
+import { ElizaRepository } from "@/api/eliza/elizaRepository";
+import { ElizaService } from "@/api/eliza/elizaService";
+import { KnowledgeIngestor } from "@/common/ai/knowledge/KnowledgeIngestor";
+
+vi.mock("@/api/eliza/elizaRepository");
+vi.mock("@/common/ai/knowledge/KnowledgeIngestor");
+
+describe("elizaService", () => {
+  let elizaServiceInstance: ElizaService;
+  let elizaRepositoryInstance: ElizaRepository;
+  let knowledgeIngestorInstance: KnowledgeIngestor;
+
+  const sessionId = "0b7c5f2e-8f4a-4c1e-9d57-3a1f6f0c2b11";
+  const mockSummary: SessionSummary = {
+    id: sessionId,
+    title: "Trading bot",
+    tags: ["crypto"],
+    stage: "persona",
+    characterName: "Satoshi",
+    messageCount: 4,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+  const mockDetail: SessionDetail = {
+    id: sessionId,
+    title: "Trading bot",
+    tags: ["crypto"],
+    stage: "persona",
+    provider: null,
+    model: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    messages: [
+      {
+        id: "5d3c1a8e-4b2f-4e6a-8c9d-1f2e3a4b5c6d",
+        role: "user",
+        content: "Hi",
+        citations: null,
+        toolCall: null,
+        provider: null,
+        model: null,
+        createdAt: new Date(),
+      },
+    ],
+    characterFile: { name: "Satoshi" },
+  };
+
+  beforeEach(() => {
+    elizaRepositoryInstance = new ElizaRepository();
+    knowledgeIngestorInstance = new KnowledgeIngestor();
+    elizaServiceInstance = new ElizaService(elizaRepositoryInstance, knowledgeIngestorInstance);
+  });
+
+  describe("findSessions", () => {
+    it("returns a page of sessions", async () => {
+      // Arrange
+      (elizaRepositoryInstance.findSessionsAsync as Mock).mockReturnValue({ sessions: [mockSummary], total: 21 });
+
+      // Act
+      const result = await elizaServiceInstance.findSessions(2, 10);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(result.success).toBeTruthy();
+      expect(result.responseObject).toEqual({ items: [mockSummary], page: 2, pageSize: 10, total: 21, totalPages: 3 });
+      expect(elizaRepositoryInstance.findSessionsAsync).toHaveBeenCalledWith(2, 10, undefined, null);
+    });
+
+    it("handles errors for findSessionsAsync", async () => {
+      // Arrange
+      (elizaRepositoryInstance.findSessionsAsync as Mock).mockRejectedValue(new Error("Database error"));
+
+      // Act
+      const result = await elizaServiceInstance.findSessions(1, 20);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.INTERNAL_SERVER_ERROR);
+      expect(result.success).toBeFalsy();
+      expect(result.message).toEqual("An error occurred while retrieving sessions.");
+      expect(result.responseObject).toBeNull();
+    });
+  });
+
+  describe("findSessionById", () => {
+    it("returns a session for a valid ID", async () => {
+      // Arrange
+      (elizaRepositoryInstance.findSessionByIdAsync as Mock).mockReturnValue(mockDetail);
+
+      // Act
+      const result = await elizaServiceInstance.findSessionById(sessionId);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(result.success).toBeTruthy();
+      expect(result.responseObject).toEqual(mockDetail);
+    });
+
+    it("returns a not found error for a non-existent ID", async () => {
+      // Arrange
+      (elizaRepositoryInstance.findSessionByIdAsync as Mock).mockReturnValue(null);
+
+      // Act
+      const result = await elizaServiceInstance.findSessionById(sessionId);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.NOT_FOUND);
+      expect(result.success).toBeFalsy();
+      expect(result.message).toEqual("Session not found");
+    });
+  });
+
+  describe("updateSession", () => {
+    it("returns the updated session", async () => {
+      // Arrange
+      (elizaRepositoryInstance.updateSessionAsync as Mock).mockReturnValue({ ...mockSummary, title: "Renamed" });
+
+      // Act
+      const result = await elizaServiceInstance.updateSession(sessionId, { title: "Renamed" });
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(result.responseObject?.title).toEqual("Renamed");
+      expect(elizaRepositoryInstance.updateSessionAsync).toHaveBeenCalledWith(sessionId, { title: "Renamed" });
+    });
+
+    it("returns a not found error for a non-existent ID", async () => {
+      // Arrange
+      (elizaRepositoryInstance.updateSessionAsync as Mock).mockReturnValue(null);
+
+      // Act
+      const result = await elizaServiceInstance.updateSession(sessionId, { tags: ["a"] });
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.NOT_FOUND);
+      expect(result.success).toBeFalsy();
+    });
+  });
+
+  describe("deleteSession", () => {
+    it("deletes an existing session", async () => {
+      // Arrange
+      (elizaRepositoryInstance.deleteSessionAsync as Mock).mockReturnValue(true);
+
+      // Act
+      const result = await elizaServiceInstance.deleteSession(sessionId);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(result.message).toEqual("Session deleted");
+      expect(knowledgeIngestorInstance.removeNamespace).toHaveBeenCalledWith(`session:${sessionId}`);
+    });
+
+    it("returns a not found error for a non-existent ID", async () => {
+      // Arrange
+      (elizaRepositoryInstance.deleteSessionAsync as Mock).mockReturnValue(false);
+
+      // Act
+      const result = await elizaServiceInstance.deleteSession(sessionId);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.NOT_FOUND);
+      expect(knowledgeIngestorInstance.removeNamespace).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getCatalog", () => {
+    it("returns the versioned catalog filtered by kind and query", () => {
+      // Act
+      const result = elizaServiceInstance.getCatalog("client", "discord");
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(result.responseObject.version).toEqual(expect.any(String));
+      expect(result.responseObject.entries.map((entry) => entry.name)).toEqual(["discord"]);
+      expect(result.responseObject.entries[0].secrets.required).toContain("DISCORD_API_TOKEN");
+    });
+  });
+
+  describe("importCharacterFile", () => {
+    it("returns a bad request error for a character file that is not an object", async () => {
+      // Arrange
+      (elizaRepositoryInstance.sessionExistsAsync as Mock).mockReturnValue(true);
+
+      // Act
+      const result = await elizaServiceInstance.importCharacterFile(sessionId, ["not", "an", "object"]);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.BAD_REQUEST);
+      expect(result.message).toEqual("Character file must be a JSON object");
+      expect(elizaRepositoryInstance.saveCharacterFileAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("lintCharacterFile", () => {
+    it("lints the current character file", async () => {
+      // Arrange
+      (elizaRepositoryInstance.findCharacterFileVersionAsync as Mock).mockReturnValue({
+        version: 3,
+        content: { name: " Satoshi ", modelProvider: "openai", clients: ["twitter"] },
+      });
+
+      // Act
+      const result = await elizaServiceInstance.lintCharacterFile(sessionId);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(result.responseObject?.version).toEqual(3);
+      expect(result.responseObject?.findings).toContainEqual(
+        expect.objectContaining({ rule: "trim-whitespace", path: "/name", fixable: true }),
+      );
+      expect(result.responseObject?.fixedCharacterFile).toMatchObject({ name: "Satoshi" });
+    });
+
+    it("returns a not found error when the session has no character file", async () => {
+      // Arrange
+      (elizaRepositoryInstance.findCharacterFileVersionAsync as Mock).mockReturnValue(null);
+
+      // Act
+      const result = await elizaServiceInstance.lintCharacterFile(sessionId);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.NOT_FOUND);
+      expect(result.success).toBeFalsy();
+    });
+  });
+});
@@ -1,39 +1,32 @@
 import type { Request, RequestHandler, Response } from "express";
 
+import {
+  type CharacterFilePatch,
+  type CharacterImportReport,
+  CharacterFileDiffRequestSchema,
+  CharacterFileVersionRequestSchema,
+  GetCatalogRequestSchema,
+  ListSessionsRequestSchema,
+  ModelSelectionSchema,
+} from "@/api/eliza/elizaModel";
 import { elizaService } from "@/api/eliza/elizaService";
+import { ServiceResponse } from "@/common/models/serviceResponse";
+import { commonValidations } from "@/common/utils/commonValidation";
 import { handleServiceResponse } from "@/common/utils/httpHandlers";
+import { StatusCodes } from "http-status-codes";
 import { ElizaGeneratorAgent } from "@/common/ai/delilaElizaAgent/AgentServer";
-import { LLLModelConfig, LLMProviders } from "@/common/ai/LLMModelManager";
-import { EmbeddingConfig, EmbeddingProvider } from "@/common/ai/EmbeddingManager";
-import { VectorStoreConfig, VectorStoreProvider } from "@/common/ai/VectorStoreManager";
+import { lintCharacterFile } from "@/common/ai/delilaElizaAgent/characterLint";
+import { planInterview } from "@/common/ai/delilaElizaAgent/interviewPlanner";
+import { allowedModels, characterUpdateConfig, embeddingConfig, modelConfigFor, profileModelConfigs, retrievalConfig, selectModel, toolLoopConfig, vectorStoreConfig } from "@/common/ai/aiConfig";
+import type { LLMProviders } from "@/common/ai/LLMModelManager";
+import type { ModelChoice } from "@/common/ai/modelSelection";
+import type { ModelRef } from "@/common/ai/resilience/ResilientChatModel";
+import { isSessionOwner, requestUserId } from "@/api/credentials/userIdentity";
+import { credentialsService } from "@/api/credentials/credentialsService";
+import { redactApiKeys, redactError, redactSecrets } from "@/common/utils/redactSecrets";
 import { LangChainAdapter } from 'ai';
 import { DatabaseService } from "@/database";
 
-const modelConfig: LLLModelConfig = {
-  provider: LLMProviders.ANTHROPIC,
-  apiKey: process.env.ANTHROPIC_API_KEY || '',
-  modelName: "claude-3-5-sonnet-20240620",
-};
-const embeddingConfig: EmbeddingConfig = {
-  provider: EmbeddingProvider.OPENAI,
-  apiKey: process.env.OPENAI_API_KEY || '',
-  modelName: "text-embedding-3-large",
-};
-const vectorStoreConfig: VectorStoreConfig = {
-  provider: VectorStoreProvider.PGVECTOR,
-  connectionConfig: {
-    postgresConnectionOptions: {
-      type: "postgres",
-      host: "127.0.0.1",
-      port: 5432,
-      user: "test",
-      password: "test",
-      database: "api",
-    },
-    tableName: "delila_eliza",
-  },
-};
-
 // Define error interface for better type checking
 interface LLMError {
   name?: string;
@@ -42,6 +35,23 @@ interface LLMError {
   [key: string]: any;
 }
 
+// Where an SSE event of the chat stream comes from
+type SseSource = 'session' | 'reply' | 'character';
+
+// Resolve the provider and model a request asks for against LLM_ALLOWED_MODELS
+const selectRequestModel = (body: unknown, fallback?: ModelChoice): { choice: ModelChoice } | { error: string } => {
+  const selection = ModelSelectionSchema.safeParse(body ?? {});
+  if (!selection.success) {
+    return { error: `Invalid model selection: ${selection.error.errors.map((issue) => issue.message).join(', ')}` };
+  }
+  const choice = selectModel(selection.data, fallback);
+  if (!choice) {
+    const { provider, model } = selection.data;
+    return { error: `${[provider, model].filter(Boolean).join(':')} is not in LLM_ALLOWED_MODELS` };
+  }
+  return { choice };
+};
+
 class ElizaController {
   private db: DatabaseService;
 
@@ -57,28 +67,51 @@ class ElizaController {
    */
   public initSession: RequestHandler = async (req: Request, res: Response) => {
     try {
+      // Only a model the client picked is stored; otherwise the session follows the configured default
+      const selected = selectRequestModel(req.body);
+      if ('error' in selected) {
+        return res.status(400).json({ error: "Model not allowed", message: selected.error, allowedModels });
+      }
+      const pickedModel = Boolean(req.body.provider || req.body.model);
+      // The session belongs to the user the gateway identified, whose own API keys it then uses
+      const userId = requestUserId(req) ?? undefined;
+
       // Connect to the database
       await this.db.connect();
       
       // Create a new session
-      const session = await this.db.sessions.createSession();
+      const session = await this.db.sessions.createSession({ ...(pickedModel && selected.choice), userId });
       
-      // If an initial message was provided, store it
+      // If an initial message was provided, store it without any of the user's API keys
       if (req.body.initialMessage) {
+        const apiKeys = userId ? await credentialsService.getApiKeys(userId) : {};
         await this.db.messages.createMessage({
-          content: req.body.initialMessage,
+          content: redactSecrets(req.body.initialMessage, Object.values(apiKeys)),
           role: 'user',
           sessionId: session.id,
         });
       }
+
+      // If an existing character file was uploaded, seed the session with it
+      let importReport: CharacterImportReport | undefined;
+      if (req.body.characterFile) {
+        const importResponse = await elizaService.importCharacterFile(session.id, req.body.characterFile);
+        if (!importResponse.success || !importResponse.responseObject) {
+          // The session is not left behind without the file it was started from
+          await this.db.sessions.deleteSession(session.id);
+          return handleServiceResponse(importResponse, res);
+        }
+        importReport = importResponse.responseObject.report;
+      }
       
       // Return the session ID
       return res.status(200).json({
         sessionId: session.id,
-        message: "Session initialized successfully"
+        message: "Session initialized successfully",
+        importReport
       });
     } catch (error) {
-      console.error("Error initializing session:", error);
+      console.error("Error initializing session:", redactError(error));
       return res.status(500).json({ 
         error: "Failed to initialize session",
         message: (error as Error).message || String(error)
@@ -87,6 +120,15 @@ class ElizaController {
   };
 
   public chat: RequestHandler = async (req: Request, res: Response) => {
+    // The reply and the character file stream concurrently, so each event names its source and
+    // carries a sequence number counted per source, starting at 0
+    const sequences: Record<SseSource, number> = { session: 0, reply: 0, character: 0 };
+    // The owner's API keys, kept out of messages and logs
+    let secrets: string[] = [];
+    const send = (source: SseSource, event: { type: string; [key: string]: unknown }) => {
+      res.write(`data: ${JSON.stringify({ ...event, source, seq: sequences[source]++ })}\n\n`);
+    };
+
     try {
       // Connect to the database
       await this.db.connect();
@@ -108,13 +150,35 @@ class ElizaController {
         });
       }
       
-      const elizaAgentServer = await ElizaGeneratorAgent.create(modelConfig, embeddingConfig, vectorStoreConfig);
-      console.log(req.body.messages);
-      const message = req.body.messages[req.body.messages.length - 1].content;
-      console.log(message);
+      // Only its owner may chat in a user's session, since the turn is billed to their keys
+      if (!isSessionOwner(sessionExists, req)) {
+        return res.status(403).json({
+          error: "Forbidden",
+          message: "The session belongs to another user"
+        });
+      }
+      
+      // The session's model, unless this turn asks for another allowed one
+      const sessionModel = sessionExists.provider && sessionExists.model
+        ? { provider: sessionExists.provider as LLMProviders, model: sessionExists.model }
+        : undefined;
+      const selected = selectRequestModel(req.body, sessionModel);
+      if ('error' in selected) {
+        return res.status(400).json({ error: "Model not allowed", message: selected.error, allowedModels });
+      }
+      const { choice } = selected;
+      // A model the user picked is used by every chain, whatever model the operator's profiles name
+      const chosenModel = Boolean(sessionModel || req.body.provider || req.body.model);
+      
+      // The owner's own API keys replace the server's; they are kept out of messages and logs
+      const apiKeys = sessionExists.userId ? await credentialsService.getApiKeys(sessionExists.userId) : {};
+      secrets = Object.values(apiKeys);
+      
+      const elizaAgentServer = await ElizaGeneratorAgent.create(profileModelConfigs(modelConfigFor(choice, apiKeys), apiKeys, chosenModel), embeddingConfig, vectorStoreConfig, retrievalConfig, toolLoopConfig, characterUpdateConfig);
+      const message = redactSecrets(req.body.messages[req.body.messages.length - 1].content, secrets);
       
       // Store the user's message in the database
-      await this.db.messages.createMessage({
+      const userMessage = await this.db.messages.createMessage({
         content: message,
         role: 'user',
         sessionId: req.body.sessionId,
@@ -122,135 +186,303 @@ class ElizaController {
       
       // Initialize the session and get message history and context
       const sessionId = req.body.sessionId;
-      const { messageHistory, context, sessionId: actualSessionId, characterFile } = await elizaAgentServer.initializeSession(sessionId, message);
+      const { messageHistory, context, citations, sessionId: actualSessionId, characterFile, plan } = await elizaAgentServer.initializeSession(sessionId, message);
       
       // Set up SSE headers
       res.setHeader('Content-Type', 'text/event-stream');
       res.setHeader('Cache-Control', 'no-cache');
       res.setHeader('Connection', 'keep-alive');
       
-      // First, stream the reply
-      console.log("Starting to stream reply...");
-      let fullReply = '';
+      // Tell the client which knowledge the answer is based on before it streams
+      send('session', { type: 'context', content: citations });
+      // and which interview stage the reply is working on
+      send('session', { type: 'plan', content: plan });
       
-      try {
-        const replyStream = await elizaAgentServer.generateReply(actualSessionId, message, messageHistory, context, characterFile);
-        
-        console.log("Got reply stream, starting to iterate...");
-        for await (const chunk of replyStream) {
-          console.log('Reply chunk received:', JSON.stringify(chunk));
+      // Stream the reply while the character file is generated; a failure of one side does not stop the other
+      const streamReply = async () => {
+        try {
+          // The reply profile may route the reply to another model than the session's
+          let replyModel: ModelRef = elizaAgentServer.getProfileModel('reply');
+          // Tell the client when a fallback model answers because the reply model kept failing
+          const replyStream = await elizaAgentServer.generateReply(actualSessionId, message, messageHistory, context, characterFile, plan, (notice) => {
+            replyModel = notice.to;
+            send('reply', { type: 'modelFallback', content: notice });
+          });
           
-          // Accumulate the full reply for database storage
-          if (chunk.reply) {
-            fullReply += chunk.reply;
+          let fullReply = '';
+          for await (const event of replyStream) {
+            // Text deltas as they stream in, then the complete reply
+            send('reply', event);
+            if (event.type === 'replyComplete') {
+              fullReply = event.content;
+            }
           }
           
-          // Convert the chunk object to a string before writing to the response
-          const replyContent = chunk.reply || chunk;
-          const replyChunk = {
-            type: 'reply',
-            content: replyContent
-          };
-          const chunkString = JSON.stringify(replyChunk);
-          // Format as SSE (Server-Sent Events)
-          res.write(`data: ${chunkString}\n\n`);
-        }
-        
-        // Store the complete reply in the database
-        if (fullReply) {
-          await this.db.messages.createMessage({
-            content: fullReply,
-            role: 'assistant',
-            sessionId: actualSessionId,
+          // Store the complete reply in the database
+          if (fullReply) {
+            await this.db.messages.createMessage({
+              content: redactSecrets(fullReply, secrets),
+              role: 'assistant',
+              sessionId: actualSessionId,
+              citations: citations.length > 0 ? citations : undefined,
+              provider: replyModel.provider,
+              model: replyModel.model ?? undefined,
+            });
+            console.log(`[CONTROLLER] Stored complete reply in database for session ${actualSessionId}`);
+          }
+        } catch (error) {
+          const replyError = error as LLMError;
+          console.error("Error generating reply:", redactError(replyError, secrets));
+          send('reply', {
+            type: 'error',
+            content: 'Failed to generate reply. Please try again.',
+            errorType: 'replyError',
+            error: redactSecrets(redactApiKeys(replyError.message || String(replyError)), secrets)
           });
-          console.log(`[CONTROLLER] Stored complete reply in database for session ${actualSessionId}`);
         }
-      } catch (error) {
-        const replyError = error as LLMError;
-        console.error("Error generating reply:", replyError);
-        const errorChunk = {
-          type: 'error',
-          content: 'Failed to generate reply. Please try again.',
-          errorType: 'replyError'
-        };
-        res.write(`data: ${JSON.stringify(errorChunk)}\n\n`);
-      }
-      
-      // Then, stream the character file
-      console.log("Starting to stream character file...");
-      let characterData: any = null;
+      };
       
-      try {
-        const characterFileStream = await elizaAgentServer.generateCharacterFile(actualSessionId, message, messageHistory, context, characterFile);
-        
-        console.log("Got character file stream, starting to iterate...");
-        for await (const chunk of characterFileStream) {
-          console.log('Character file chunk received:', JSON.stringify(chunk));
+      const streamCharacterFile = async () => {
+        try {
+          // Each field as the model writes it, so the form can fill in live
+          const result = await elizaAgentServer.generateCharacterFile(actualSessionId, message, messageHistory, context, characterFile, (field) => {
+            send('character', { type: 'characterField', content: field });
+          }, (notice) => {
+            send('character', { type: 'modelFallback', content: notice });
+          });
+          // Lint the character file and apply the safe autofixes, so the client gets the file that is stored
+          const lint = result.characterFile ? lintCharacterFile(result.characterFile) : undefined;
+          const characterData = lint?.fixedCharacterFile ?? result.characterFile;
+          
+          send('character', { type: 'characterFile', content: characterData });
+          // Model calls and timings of the generation, plus the fields the repair could not fix
+          send('character', { type: 'stats', content: { ...result.stats, valid: result.valid, errors: result.errors } });
           
-          // Store the complete character data
-          if (chunk) {
-            characterData = chunk;
+          // Store the character file in the database
+          if (lint) {
+            await this.db.characterFiles.createCharacterFile({
+              content: characterData,
+              sessionId: actualSessionId,
+              source: 'generated',
+              messageId: userMessage.id,
+            });
+            console.log(`[CONTROLLER] Stored character file in database for session ${actualSessionId}`);
+            send('character', { type: 'lint', content: lint });
+
+            // Move the interview on according to what the new character file still lacks
+            const nextPlan = planInterview(characterData, plan.stage);
+            await this.db.sessions.updateSession(actualSessionId, { stage: nextPlan.stage });
+            send('character', { type: 'plan', content: nextPlan });
           }
+        } catch (error) {
+          const characterFileError = error as LLMError;
+          console.error("Error generating character file:", redactError(characterFileError, secrets));
+          // Check if it's a parsing error
+          const isParsingError = characterFileError.name === 'OutputParserException' || 
+                                characterFileError.message?.includes('parsing') ||
+                                characterFileError.lc_error_code === 'OUTPUT_PARSING_FAILURE';
           
-          // Convert the chunk object to a string before writing to the response
-          const characterFileChunk = {
-            type: 'characterFile',
-            content: chunk
-          };
-          const chunkString = JSON.stringify(characterFileChunk);
-          // Format as SSE (Server-Sent Events)
-          res.write(`data: ${chunkString}\n\n`);
-        }
-        
-        // Store the character file in the database
-        if (characterData) {
-          await this.db.characterFiles.createCharacterFile({
-            content: characterData,
-            sessionId: actualSessionId,
+          send('character', {
+            type: 'error',
+            content: isParsingError 
+              ? 'Failed to parse character file. The AI generated incomplete or invalid JSON.'
+              : 'Failed to generate character file. Please try again.',
+            errorType: 'characterFileError',
+            error: redactSecrets(redactApiKeys(characterFileError.message || String(characterFileError)), secrets)
           });
-          console.log(`[CONTROLLER] Stored character file in database for session ${actualSessionId}`);
         }
-      } catch (error) {
-        const characterFileError = error as LLMError;
-        console.error("Error generating character file:", characterFileError);
-        // Check if it's a parsing error
-        const isParsingError = characterFileError.name === 'OutputParserException' || 
-                              characterFileError.message?.includes('parsing') ||
-                              characterFileError.lc_error_code === 'OUTPUT_PARSING_FAILURE';
-        
-        const errorChunk = {
-          type: 'error',
-          content: isParsingError 
-            ? 'Failed to parse character file. The AI generated incomplete or invalid JSON.'
-            : 'Failed to generate character file. Please try again.',
-          errorType: 'characterFileError',
-          error: characterFileError.message || String(characterFileError)
-        };
-        res.write(`data: ${JSON.stringify(errorChunk)}\n\n`);
-      }
+      };
+      
+      await Promise.all([streamReply(), streamCharacterFile()]);
       
-      // End the stream with a done event
+      // End the stream with a done event once both sides have finished
       res.write('data: [DONE]\n\n');
       res.end();
     } catch (error) {
       const generalError = error as Error;
-      console.error("Error in chat handler:", generalError);
+      console.error("Error in chat handler:", redactError(generalError, secrets));
       // Check if headers have already been sent
       if (!res.headersSent) {
         res.status(500).json({ error: "An error occurred while processing your request" });
       } else {
         // If headers are already sent, just end the response
-        const errorChunk = {
+        send('session', {
           type: 'error',
           content: 'An error occurred while processing your request',
-          error: generalError.message || String(generalError)
-        };
-        res.write(`data: ${JSON.stringify(errorChunk)}\n\n`);
+          error: redactSecrets(redactApiKeys(generalError.message || String(generalError)), secrets)
+        });
         res.write('data: [DONE]\n\n');
         res.end();
       }
     }
   };
+
+  /**
+   * Refuse requests for a user's session from anyone but that user
+   * Runs before every /sessions/:id route; unknown sessions and invalid IDs are left to the route
+   * @param req Request object with the session ID param
+   * @param res Response object
+   * @param next Continues to the route
+   */
+  public requireSessionOwner: RequestHandler = async (req: Request, res: Response, next) => {
+    const id = commonValidations.uuid.safeParse(req.params.id);
+    if (!id.success) return next();
+    try {
+      await this.db.connect();
+      const session = await this.db.sessions.getSessionById(id.data);
+      if (session && !isSessionOwner(session, req)) {
+        return handleServiceResponse(
+          ServiceResponse.failure("The session belongs to another user", null, StatusCodes.FORBIDDEN),
+          res,
+        );
+      }
+      return next();
+    } catch (error) {
+      return next(error);
+    }
+  };
+
+  /**
+   * Lint a session's current character file
+   * @param req Request object with the session ID param
+   * @param res Response object
+   */
+  public lintCharacterFile: RequestHandler = async (req: Request, res: Response) => {
+    const serviceResponse = await elizaService.lintCharacterFile(req.params.id);
+    return handleServiceResponse(serviceResponse, res);
+  };
+
+  /**
+   * Get the ElizaOS client and plugin catalog
+   * @param req Request object with optional kind and q query params
+   * @param res Response object
+   */
+  public getCatalog: RequestHandler = async (req: Request, res: Response) => {
+    const { kind, q } = GetCatalogRequestSchema.shape.query.parse(req.query);
+    const serviceResponse = elizaService.getCatalog(kind, q);
+    return handleServiceResponse(serviceResponse, res);
+  };
+
+  /**
+   * List the requesting user's sessions with pagination, or the sessions without an owner
+   * @param req Request object with optional page, pageSize and tag query parameters
+   * @param res Response object
+   */
+  public getSessions: RequestHandler = async (req: Request, res: Response) => {
+    const { page, pageSize, tag } = ListSessionsRequestSchema.shape.query.parse(req.query);
+    const serviceResponse = await elizaService.findSessions(page, pageSize, tag, requestUserId(req));
+    return handleServiceResponse(serviceResponse, res);
+  };
+
+  /**
+   * Get a session with its messages and current character file
+   * @param req Request object with the session ID param
+   * @param res Response object
+   */
+  public getSession: RequestHandler = async (req: Request, res: Response) => {
+    const serviceResponse = await elizaService.findSessionById(req.params.id);
+    return handleServiceResponse(serviceResponse, res);
+  };
+
+  /**
+   * Update a session's title and/or tags
+   * @param req Request object with the session ID param
+   * @param res Response object
+   */
+  public updateSession: RequestHandler = async (req: Request, res: Response) => {
+    const serviceResponse = await elizaService.updateSession(req.params.id, req.body);
+    return handleServiceResponse(serviceResponse, res);
+  };
+
+  /**
+   * Delete a session and everything attached to it
+   * @param req Request object with the session ID param
+   * @param res Response object
+   */
+  public deleteSession: RequestHandler = async (req: Request, res: Response) => {
+    const serviceResponse = await elizaService.deleteSession(req.params.id);
+    return handleServiceResponse(serviceResponse, res);
+  };
+
+  /**
+   * List the version history of a session's character file
+   * @param req Request object with the session ID param
+   * @param res Response object
+   */
+  public getCharacterFileVersions: RequestHandler = async (req: Request, res: Response) => {
+    const serviceResponse = await elizaService.findCharacterFileVersions(req.params.id);
+    return handleServiceResponse(serviceResponse, res);
+  };
+
+  /**
+   * Get a single version of a session's character file
+   * @param req Request object with the session ID and version params
+   * @param res Response object
+   */
+  public getCharacterFileVersion: RequestHandler = async (req: Request, res: Response) => {
+    const { id, version } = CharacterFileVersionRequestSchema.shape.params.parse(req.params);
+    const serviceResponse = await elizaService.findCharacterFileVersion(id, version);
+    return handleServiceResponse(serviceResponse, res);
+  };
+
+  /**
+   * Diff two versions of a session's character file
+   * @param req Request object with the session ID param and from/to query parameters
+   * @param res Response object
+   */
+  public diffCharacterFileVersions: RequestHandler = async (req: Request, res: Response) => {
+    const { from, to } = CharacterFileDiffRequestSchema.shape.query.parse(req.query);
+    const serviceResponse = await elizaService.diffCharacterFileVersions(req.params.id, from, to);
+    return handleServiceResponse(serviceResponse, res);
+  };
+
+  /**
+   * Revert a session's character file to an older version
+   * @param req Request object with the session ID param and the target version in the body
+   * @param res Response object
+   */
+  public revertCharacterFile: RequestHandler = async (req: Request, res: Response) => {
+    const serviceResponse = await elizaService.revertCharacterFile(req.params.id, req.body.version);
+    return handleServiceResponse(serviceResponse, res);
+  };
+
+  /**
+   * Manually edit a session's character file
+   * Accepts a JSON Patch (array body or application/json-patch+json) or a JSON Merge Patch
+   * (object body or application/merge-patch+json)
+   * @param req Request object with the session ID param and the patch document as body
+   * @param res Response object
+   */
+  public patchCharacterFile: RequestHandler = async (req: Request, res: Response) => {
+    const isJsonPatch = req.is("application/json-patch+json")
+      ? true
+      : req.is("application/merge-patch+json")
+        ? false
+        : Array.isArray(req.body);
+
+    if (isJsonPatch !== Array.isArray(req.body)) {
+      const message = isJsonPatch
+        ? "A JSON Patch document must be an array of operations"
+        : "A JSON Merge Patch document must be an object";
+      return handleServiceResponse(ServiceResponse.failure(message, null, StatusCodes.BAD_REQUEST), res);
+    }
+
+    const patch: CharacterFilePatch = isJsonPatch
+      ? { format: "json-patch", operations: req.body }
+      : { format: "merge-patch", patch: req.body };
+    const serviceResponse = await elizaService.patchCharacterFile(req.params.id, patch);
+    return handleServiceResponse(serviceResponse, res);
+  };
+
+  /**
+   * Replace a session's character file with an uploaded ElizaOS character file
+   * @param req Request object with the session ID param and the character file in the body
+   * @param res Response object
+   */
+  public importCharacterFile: RequestHandler = async (req: Request, res: Response) => {
+    const serviceResponse = await elizaService.importCharacterFile(req.params.id, req.body.characterFile);
+    return handleServiceResponse(serviceResponse, res);
+  };
 }
 
 export const elizaController = new ElizaController();
@@ -3,6 +3,9 @@ import { z } from "zod";
 
 import { commonValidations } from "@/common/utils/commonValidation";
 import { CharacterSchema } from "@/common/ai/delilaElizaAgent/characterConfig";
+import { INTERVIEW_STAGES } from "@/common/ai/delilaElizaAgent/interviewPlanner";
+import { LLMProviders } from "@/common/ai/LLMModelManager";
+import { type JsonPatchOperation, JsonPatchOperationSchema } from "@/common/utils/jsonPatch";
 
 extendZodWithOpenApi(z);
 
@@ -12,6 +15,13 @@ export const ElizaResponseSchema = z.object({
   characterFile: CharacterSchema,
 });
 
+// LLM provider and/or model to chat with; the pair has to be listed in LLM_ALLOWED_MODELS
+export type ModelSelection = z.infer<typeof ModelSelectionSchema>;
+export const ModelSelectionSchema = z.object({
+  provider: z.nativeEnum(LLMProviders).optional(),
+  model: z.string().min(1).optional(),
+});
+
 // Input Validation for 'GET users/:id' endpoint
 export const GetElizaRequestSchema = z.object({
   messages: z.array(z.object({
@@ -19,17 +29,289 @@ export const GetElizaRequestSchema = z.object({
     role: z.enum(["user", "assistant"]).optional()
   })),
   sessionId: z.string().optional()
+}).merge(ModelSelectionSchema);
+
+
+
+
+// Schemas for session browsing
+export type SessionSummary = z.infer<typeof SessionSummarySchema>;
+export const SessionSummarySchema = z.object({
+  id: z.string().uuid(),
+  title: z.string().nullable(),
+  tags: z.array(z.string()),
+  stage: z.enum(INTERVIEW_STAGES),
+  characterName: z.string().nullable(),
+  messageCount: z.number(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type SessionList = z.infer<typeof SessionListSchema>;
+export const SessionListSchema = z.object({
+  items: z.array(SessionSummarySchema),
+  page: z.number(),
+  pageSize: z.number(),
+  total: z.number(),
+  totalPages: z.number(),
+});
+
+export type Citation = z.infer<typeof CitationSchema>;
+export const CitationSchema = z.object({
+  sourceId: z.string().nullable(),
+  title: z.string(),
+  path: z.string(),
+  page: z.number().optional(),
+  namespace: z.string(),
+  score: z.number(),
+});
+
+export type ToolCall = z.infer<typeof ToolCallSchema>;
+export const ToolCallSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  args: z.record(z.unknown()),
+});
+
+export type SessionMessage = z.infer<typeof SessionMessageSchema>;
+export const SessionMessageSchema = z.object({
+  id: z.string().uuid(),
+  role: z.string(),
+  content: z.string(),
+  // Knowledge an assistant reply was grounded on; null for user messages and replies without context
+  citations: z.array(CitationSchema).nullable(),
+  // The call a `tool` message answers; null for other roles
+  toolCall: ToolCallSchema.nullable(),
+  // The LLM that produced an assistant or tool message; null for user messages
+  provider: z.string().nullable(),
+  model: z.string().nullable(),
+  createdAt: z.date(),
+});
+
+export type SessionDetail = z.infer<typeof SessionDetailSchema>;
+export const SessionDetailSchema = z.object({
+  id: z.string().uuid(),
+  title: z.string().nullable(),
+  tags: z.array(z.string()),
+  stage: z.enum(INTERVIEW_STAGES),
+  // The LLM chosen at init-session; null when the session uses the configured default
+  provider: z.string().nullable(),
+  model: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+  messages: z.array(SessionMessageSchema),
+  // The stored character file is whatever the last turn produced, so it is not guaranteed to match CharacterSchema
+  characterFile: z.record(z.unknown()).nullable(),
+});
+
+// Input Validation for 'GET eliza/sessions' endpoint
+export const ListSessionsRequestSchema = z.object({
+  query: z.object({
+    page: commonValidations.page,
+    pageSize: commonValidations.pageSize,
+    tag: z.string().optional(),
+  }),
+});
+
+// Input Validation for 'GET eliza/sessions/:id' and 'DELETE eliza/sessions/:id' endpoints
+export const SessionIdRequestSchema = z.object({
+  params: z.object({ id: commonValidations.uuid }),
+});
+
+export type UpdateSessionBody = z.infer<typeof UpdateSessionBodySchema>;
+export const UpdateSessionBodySchema = z
+  .object({
+    title: z.string().trim().min(1).max(200).nullable().optional(),
+    tags: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+  })
+  .refine((body) => body.title !== undefined || body.tags !== undefined, "Provide a title or tags to update");
+
+// Input Validation for 'PATCH eliza/sessions/:id' endpoint
+export const UpdateSessionRequestSchema = z.object({
+  params: z.object({ id: commonValidations.uuid }),
+  body: UpdateSessionBodySchema,
+});
+
+// Schemas for character file version history
+export type CharacterFileVersionSummary = z.infer<typeof CharacterFileVersionSummarySchema>;
+export const CharacterFileVersionSummarySchema = z.object({
+  version: z.number(),
+  source: z.string(),
+  revertedFrom: z.number().nullable(),
+  messageId: z.string().nullable(),
+  current: z.boolean(),
+  createdAt: z.date(),
+});
+
+export type CharacterFileVersion = z.infer<typeof CharacterFileVersionSchema>;
+export const CharacterFileVersionSchema = CharacterFileVersionSummarySchema.extend({
+  content: z.record(z.unknown()),
+});
+
+export type CharacterFileDiff = z.infer<typeof CharacterFileDiffSchema>;
+export const CharacterFileDiffSchema = z.object({
+  from: z.number(),
+  to: z.number(),
+  changes: z.array(
+    z.object({
+      op: z.enum(["add", "remove", "replace"]),
+      path: z.string(),
+      value: z.unknown().optional(),
+      oldValue: z.unknown().optional(),
+    }),
+  ),
+});
+
+// Input Validation for 'GET eliza/sessions/:id/character-file/versions/:version' endpoint
+export const CharacterFileVersionRequestSchema = z.object({
+  params: z.object({
+    id: commonValidations.uuid,
+    version: z.coerce.number().int().min(1),
+  }),
+});
+
+// Input Validation for 'GET eliza/sessions/:id/character-file/diff' endpoint
+export const CharacterFileDiffRequestSchema = z.object({
+  params: z.object({ id: commonValidations.uuid }),
+  query: z.object({
+    from: z.coerce.number().int().min(1),
+    // Defaults to the current version
+    to: z.coerce.number().int().min(1).optional(),
+  }),
+});
+
+export const RevertCharacterFileBodySchema = z.object({
+  version: z.number().int().min(1),
+});
+
+// Input Validation for 'POST eliza/sessions/:id/character-file/revert' endpoint
+export const RevertCharacterFileRequestSchema = z.object({
+  params: z.object({ id: commonValidations.uuid }),
+  body: RevertCharacterFileBodySchema,
+});
+
+// Schemas for manual character file edits
+export type CharacterFilePatch =
+  | { format: "json-patch"; operations: JsonPatchOperation[] }
+  | { format: "merge-patch"; patch: Record<string, unknown> };
+
+export const JsonPatchBodySchema = z.array(JsonPatchOperationSchema).openapi({
+  description: "RFC 6902 JSON Patch, applied to the current character file",
+});
+
+export const MergePatchBodySchema = z.record(z.unknown()).openapi({
+  description: "RFC 7386 JSON Merge Patch, applied to the current character file",
+});
+
+// Input Validation for 'PATCH eliza/sessions/:id/character-file' endpoint
+export const PatchCharacterFileRequestSchema = z.object({
+  params: z.object({ id: commonValidations.uuid }),
+  body: z.union([JsonPatchBodySchema, MergePatchBodySchema]),
+});
+
+export type CharacterFieldError = z.infer<typeof CharacterFieldErrorSchema>;
+export const CharacterFieldErrorSchema = z.object({
+  path: z.string(),
+  message: z.string(),
+  code: z.string(),
+});
+
+export type CharacterFileValidationErrors = z.infer<typeof CharacterFileValidationErrorsSchema>;
+export const CharacterFileValidationErrorsSchema = z.object({
+  errors: z.array(CharacterFieldErrorSchema),
+});
+
+// Schemas for linting a character file against the ElizaOS readiness rules
+export type LintFinding = z.infer<typeof LintFindingSchema>;
+export const LintFindingSchema = z.object({
+  rule: z.string(),
+  severity: z.enum(["error", "warning", "info"]),
+  path: z.string(),
+  message: z.string(),
+  fixable: z.boolean(),
+});
+
+export type CharacterLintReport = z.infer<typeof CharacterLintReportSchema>;
+export const CharacterLintReportSchema = z.object({
+  version: z.number(),
+  findings: z.array(LintFindingSchema),
+  counts: z.object({ error: z.number(), warning: z.number(), info: z.number() }),
+  fixedCharacterFile: z
+    .record(z.unknown())
+    .nullable()
+    .openapi({ description: "The character file with the safe autofixes applied, null when nothing is fixable" }),
+});
+
+// Schemas for importing an existing ElizaOS character file
+export type CharacterImportReport = z.infer<typeof CharacterImportReportSchema>;
+export const CharacterImportReportSchema = z.object({
+  droppedFields: z.array(z.string()),
+  defaultedFields: z.array(z.string()),
+  invalidFields: z.array(CharacterFieldErrorSchema),
+  valid: z.boolean(),
+});
+
+export type CharacterImportResult = z.infer<typeof CharacterImportResultSchema>;
+export const CharacterImportResultSchema = z.object({
+  characterFile: CharacterFileVersionSchema,
+  report: CharacterImportReportSchema,
+});
+
+export const ImportCharacterFileBodySchema = z.object({
+  characterFile: z.record(z.unknown()).openapi({ description: "Contents of an ElizaOS .character.json file" }),
+});
+
+// Input Validation for 'POST eliza/sessions/:id/character-file/import' endpoint
+export const ImportCharacterFileRequestSchema = z.object({
+  params: z.object({ id: commonValidations.uuid }),
+  body: ImportCharacterFileBodySchema,
+});
+
+// Schemas for the ElizaOS client and plugin catalog
+export type CatalogEntry = z.infer<typeof CatalogEntrySchema>;
+export const CatalogEntrySchema = z.object({
+  kind: z.enum(["client", "plugin"]),
+  name: z.string().openapi({ description: "Value to add to the character file's clients or plugins" }),
+  package: z.string(),
+  description: z.string(),
+  secrets: z.object({ required: z.array(z.string()), optional: z.array(z.string()) }),
+  clientConfig: z.object({ key: z.string(), example: z.record(z.unknown()) }).nullable(),
+  keywords: z.array(z.string()),
+});
+
+export type Catalog = z.infer<typeof CatalogSchema>;
+export const CatalogSchema = z.object({
+  version: z.string(),
+  elizaVersion: z.string(),
+  entries: z.array(CatalogEntrySchema),
+});
+
+// Input Validation for 'GET eliza/catalog' endpoint
+export const GetCatalogRequestSchema = z.object({
+  query: z.object({
+    kind: z.enum(["client", "plugin"]).optional(),
+    q: z.string().trim().min(1).optional(),
+  }),
 });
 
 // Schema for session initialization
 export type InitSessionResponse = z.infer<typeof InitSessionResponseSchema>;
 export const InitSessionResponseSchema = z.object({
   sessionId: z.string(),
-  message: z.string().optional()
+  message: z.string().optional(),
+  // Present when the session was seeded with an imported character file
+  importReport: CharacterImportReportSchema.optional()
 });
 
 // Schema for session initialization request
-export const InitSessionRequestSchema = z.object({
+export const InitSessionBodySchema = z.object({
   // Optional initial message to start the conversation
-  initialMessage: z.string().optional()
-});
\ No newline at end of file
+  initialMessage: z.string().optional(),
+  // Optional ElizaOS character file to seed the session with instead of the empty template
+  characterFile: ImportCharacterFileBodySchema.shape.characterFile.optional()
+}).merge(ModelSelectionSchema);
+
+// Input Validation for 'POST eliza/init-session' endpoint
+export const InitSessionRequestSchema = z.object({
+  body: InitSessionBodySchema,
+});
@@ -1,3 +1,153 @@
+import type { Prisma } from "@prisma/client";
+
+import type {
+  CharacterFileVersion,
+  CharacterFileVersionSummary,
+  Citation,
+  SessionDetail,
+  SessionSummary,
+  ToolCall,
+  UpdateSessionBody,
+} from "@/api/eliza/elizaModel";
+import type { InterviewStage } from "@/common/ai/delilaElizaAgent/interviewPlanner";
+import { type CharacterFileVersionSource, DatabaseService } from "@/database";
+
+type SessionWithSummaryData = Prisma.SessionGetPayload<{
+  include: { characterFile: true; _count: { select: { messages: true } } };
+}>;
+
+const toSessionSummary = (session: SessionWithSummaryData): SessionSummary => {
+  const content = session.characterFile?.content as { name?: unknown } | null | undefined;
+  return {
+    id: session.id,
+    title: session.title,
+    tags: session.tags,
+    stage: session.stage as InterviewStage,
+    characterName: typeof content?.name === "string" && content.name ? content.name : null,
+    messageCount: session._count.messages,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+  };
+};
+
+type CharacterFileVersionRow = Prisma.CharacterFileVersionGetPayload<{ omit: { content: true } }>;
+
+const toVersionSummary = (row: CharacterFileVersionRow, currentVersion: number): CharacterFileVersionSummary => ({
+  version: row.version,
+  source: row.source,
+  revertedFrom: row.revertedFrom,
+  messageId: row.messageId,
+  current: row.version === currentVersion,
+  createdAt: row.createdAt,
+});
+
 export class ElizaRepository {
+  private db: DatabaseService;
+
+  constructor(db: DatabaseService = DatabaseService.getInstance()) {
+    this.db = db;
+  }
+
+  async findSessionsAsync(
+    page: number,
+    pageSize: number,
+    tag?: string,
+    userId: string | null = null,
+  ): Promise<{ sessions: SessionSummary[]; total: number }> {
+    const { sessions, total } = await this.db.sessions.listSessions({
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+      tag,
+      userId,
+    });
+    return { sessions: sessions.map(toSessionSummary), total };
+  }
+
+  async findSessionByIdAsync(id: string): Promise<SessionDetail | null> {
+    const session = await this.db.sessions.getCompleteSession(id);
+    if (!session) return null;
+
+    return {
+      id: session.id,
+      title: session.title,
+      tags: session.tags,
+      stage: session.stage as InterviewStage,
+      provider: session.provider,
+      model: session.model,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+      messages: session.messages.map((message) => ({
+        id: message.id,
+        role: message.role,
+        content: message.content,
+        citations: (message.citations as Citation[] | null) ?? null,
+        toolCall: (message.toolCall as ToolCall | null) ?? null,
+        provider: message.provider,
+        model: message.model,
+        createdAt: message.createdAt,
+      })),
+      characterFile: (session.characterFile?.content as Record<string, unknown> | undefined) ?? null,
+    };
+  }
+
+  async updateSessionAsync(id: string, data: UpdateSessionBody): Promise<SessionSummary | null> {
+    const existing = await this.db.sessions.getSessionById(id);
+    if (!existing) return null;
+
+    const session = await this.db.sessions.updateSession(id, data);
+    return toSessionSummary(session);
+  }
+
+  async deleteSessionAsync(id: string): Promise<boolean> {
+    const existing = await this.db.sessions.getSessionById(id);
+    if (!existing) return false;
+
+    await this.db.sessions.deleteSession(id);
+    return true;
+  }
+
+  async sessionExistsAsync(id: string): Promise<boolean> {
+    const session = await this.db.sessions.getSessionById(id);
+    return session !== null;
+  }
+
+  async findCharacterFileVersionsAsync(sessionId: string): Promise<CharacterFileVersionSummary[] | null> {
+    const characterFile = await this.db.characterFiles.getCharacterFileBySessionId(sessionId);
+    if (!characterFile) return null;
+
+    const versions = await this.db.characterFileVersions.getVersionsByCharacterFileId(characterFile.id);
+    return versions.map((row) => toVersionSummary(row, characterFile.version));
+  }
+
+  // Resolves a version number of the session's character file; omit it to get the current version
+  async findCharacterFileVersionAsync(sessionId: string, version?: number): Promise<CharacterFileVersion | null> {
+    const characterFile = await this.db.characterFiles.getCharacterFileBySessionId(sessionId);
+    if (!characterFile) return null;
+
+    const row = await this.db.characterFileVersions.getVersion(characterFile.id, version ?? characterFile.version);
+    if (!row) return null;
+
+    return {
+      ...toVersionSummary(row, characterFile.version),
+      content: row.content as Record<string, unknown>,
+    };
+  }
+
+  async saveCharacterFileAsync(
+    sessionId: string,
+    content: Record<string, unknown>,
+    source: CharacterFileVersionSource,
+    options: { messageId?: string; revertedFrom?: number } = {},
+  ): Promise<CharacterFileVersion | null> {
+    const characterFile = await this.db.characterFiles.createCharacterFile({ content, sessionId, source, ...options });
+    return this.findCharacterFileVersionAsync(sessionId, characterFile.version);
+  }
+
+  async revertCharacterFileAsync(sessionId: string, version: number): Promise<CharacterFileVersion | null> {
+    const target = await this.findCharacterFileVersionAsync(sessionId, version);
+    if (!target) return null;
 
+    // Reverting appends a copy of the old content as a new version so the history stays linear
+    return this.saveCharacterFileAsync(sessionId, target.content, "reverted", { revertedFrom: version });
+  }
 }
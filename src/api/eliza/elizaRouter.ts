@@ -3,7 +3,38 @@ import express, { type Router } from "express";
 import { z } from "zod";
 
 import { createApiResponse } from "@/api-docs/openAPIResponseBuilders";
-import { GetElizaRequestSchema, ElizaResponseSchema, InitSessionRequestSchema, InitSessionResponseSchema } from "@/api/eliza/elizaModel";
+import { StatusCodes } from "http-status-codes";
+import {
+  CharacterFileDiffRequestSchema,
+  CharacterFileDiffSchema,
+  CharacterFileVersionRequestSchema,
+  CharacterFileVersionSchema,
+  CharacterFileVersionSummarySchema,
+  CharacterImportResultSchema,
+  CharacterLintReportSchema,
+  CatalogSchema,
+  GetCatalogRequestSchema,
+  GetElizaRequestSchema,
+  ImportCharacterFileBodySchema,
+  ImportCharacterFileRequestSchema,
+  ElizaResponseSchema,
+  InitSessionBodySchema,
+  InitSessionRequestSchema,
+  InitSessionResponseSchema,
+  JsonPatchBodySchema,
+  MergePatchBodySchema,
+  CharacterFileValidationErrorsSchema,
+  PatchCharacterFileRequestSchema,
+  ListSessionsRequestSchema,
+  RevertCharacterFileBodySchema,
+  RevertCharacterFileRequestSchema,
+  SessionDetailSchema,
+  SessionIdRequestSchema,
+  SessionListSchema,
+  SessionSummarySchema,
+  UpdateSessionBodySchema,
+  UpdateSessionRequestSchema,
+} from "@/api/eliza/elizaModel";
 import { validateRequest } from "@/common/utils/httpHandlers";
 import { elizaController } from "./elizaController";
 
@@ -12,6 +43,10 @@ export const elizaRouter: Router = express.Router();
 
 elizaRegistry.register("Eliza", ElizaResponseSchema);
 elizaRegistry.register("InitSession", InitSessionResponseSchema);
+elizaRegistry.register("SessionSummary", SessionSummarySchema);
+elizaRegistry.register("SessionDetail", SessionDetailSchema);
+elizaRegistry.register("CharacterFileVersion", CharacterFileVersionSchema);
+elizaRegistry.register("Catalog", CatalogSchema);
 
 elizaRegistry.registerPath({
   method: "post",
@@ -37,7 +72,7 @@ elizaRegistry.registerPath({
     body: {
       content: {
         'application/json': {
-          schema: InitSessionRequestSchema
+          schema: InitSessionBodySchema
         }
       }
     }
@@ -45,6 +80,192 @@ elizaRegistry.registerPath({
   responses: createApiResponse(InitSessionResponseSchema, "Success"),
 });
 
-elizaRouter.post("/chat", elizaController.chat);
-elizaRouter.post("/init-session", elizaController.initSession);
+elizaRegistry.registerPath({
+  method: "get",
+  path: "/eliza/sessions",
+  tags: ["Eliza"],
+  request: { query: ListSessionsRequestSchema.shape.query },
+  responses: createApiResponse(SessionListSchema, "Success"),
+});
+
+elizaRegistry.registerPath({
+  method: "get",
+  path: "/eliza/sessions/{id}",
+  tags: ["Eliza"],
+  request: { params: SessionIdRequestSchema.shape.params },
+  responses: createApiResponse(SessionDetailSchema, "Success"),
+});
+
+elizaRegistry.registerPath({
+  method: "patch",
+  path: "/eliza/sessions/{id}",
+  tags: ["Eliza"],
+  request: {
+    params: UpdateSessionRequestSchema.shape.params,
+    body: {
+      content: {
+        'application/json': {
+          schema: UpdateSessionBodySchema
+        }
+      }
+    }
+  },
+  responses: createApiResponse(SessionSummarySchema, "Success"),
+});
 
+elizaRegistry.registerPath({
+  method: "delete",
+  path: "/eliza/sessions/{id}",
+  tags: ["Eliza"],
+  request: { params: SessionIdRequestSchema.shape.params },
+  responses: createApiResponse(z.null(), "Success"),
+});
+
+elizaRegistry.registerPath({
+  method: "get",
+  path: "/eliza/sessions/{id}/character-file/versions",
+  tags: ["Eliza"],
+  request: { params: SessionIdRequestSchema.shape.params },
+  responses: createApiResponse(z.array(CharacterFileVersionSummarySchema), "Success"),
+});
+
+elizaRegistry.registerPath({
+  method: "get",
+  path: "/eliza/sessions/{id}/character-file/versions/{version}",
+  tags: ["Eliza"],
+  request: { params: CharacterFileVersionRequestSchema.shape.params },
+  responses: createApiResponse(CharacterFileVersionSchema, "Success"),
+});
+
+elizaRegistry.registerPath({
+  method: "get",
+  path: "/eliza/sessions/{id}/character-file/diff",
+  tags: ["Eliza"],
+  request: {
+    params: CharacterFileDiffRequestSchema.shape.params,
+    query: CharacterFileDiffRequestSchema.shape.query,
+  },
+  responses: createApiResponse(CharacterFileDiffSchema, "Success"),
+});
+
+elizaRegistry.registerPath({
+  method: "post",
+  path: "/eliza/sessions/{id}/character-file/revert",
+  tags: ["Eliza"],
+  request: {
+    params: RevertCharacterFileRequestSchema.shape.params,
+    body: {
+      content: {
+        'application/json': {
+          schema: RevertCharacterFileBodySchema
+        }
+      }
+    }
+  },
+  responses: createApiResponse(CharacterFileVersionSchema, "Success"),
+});
+
+elizaRegistry.registerPath({
+  method: "patch",
+  path: "/eliza/sessions/{id}/character-file",
+  tags: ["Eliza"],
+  request: {
+    params: PatchCharacterFileRequestSchema.shape.params,
+    body: {
+      content: {
+        'application/json-patch+json': {
+          schema: JsonPatchBodySchema
+        },
+        'application/merge-patch+json': {
+          schema: MergePatchBodySchema
+        }
+      }
+    }
+  },
+  responses: {
+    ...createApiResponse(CharacterFileVersionSchema, "Success"),
+    ...createApiResponse(
+      CharacterFileValidationErrorsSchema,
+      "Edited character file does not match the character schema",
+      StatusCodes.UNPROCESSABLE_ENTITY,
+    ),
+  },
+});
+
+elizaRegistry.registerPath({
+  method: "post",
+  path: "/eliza/sessions/{id}/character-file/import",
+  tags: ["Eliza"],
+  request: {
+    params: ImportCharacterFileRequestSchema.shape.params,
+    body: {
+      content: {
+        'application/json': {
+          schema: ImportCharacterFileBodySchema
+        }
+      }
+    }
+  },
+  responses: createApiResponse(CharacterImportResultSchema, "Success"),
+});
+
+elizaRegistry.registerPath({
+  method: "get",
+  path: "/eliza/sessions/{id}/character-file/lint",
+  tags: ["Eliza"],
+  request: { params: SessionIdRequestSchema.shape.params },
+  responses: createApiResponse(CharacterLintReportSchema, "Success"),
+});
+
+elizaRegistry.registerPath({
+  method: "get",
+  path: "/eliza/catalog",
+  tags: ["Eliza"],
+  request: { query: GetCatalogRequestSchema.shape.query },
+  responses: createApiResponse(CatalogSchema, "Success"),
+});
+
+elizaRouter.post("/chat", elizaController.chat);
+elizaRouter.post("/init-session", validateRequest(InitSessionRequestSchema), elizaController.initSession);
+elizaRouter.get("/catalog", validateRequest(GetCatalogRequestSchema), elizaController.getCatalog);
+elizaRouter.get("/sessions", validateRequest(ListSessionsRequestSchema), elizaController.getSessions);
+// Every route of a session, including its character file, is limited to the session's owner
+elizaRouter.use("/sessions/:id", elizaController.requireSessionOwner);
+elizaRouter.get("/sessions/:id", validateRequest(SessionIdRequestSchema), elizaController.getSession);
+elizaRouter.patch("/sessions/:id", validateRequest(UpdateSessionRequestSchema), elizaController.updateSession);
+elizaRouter.delete("/sessions/:id", validateRequest(SessionIdRequestSchema), elizaController.deleteSession);
+elizaRouter.get(
+  "/sessions/:id/character-file/versions",
+  validateRequest(SessionIdRequestSchema),
+  elizaController.getCharacterFileVersions,
+);
+elizaRouter.get(
+  "/sessions/:id/character-file/versions/:version",
+  validateRequest(CharacterFileVersionRequestSchema),
+  elizaController.getCharacterFileVersion,
+);
+elizaRouter.get(
+  "/sessions/:id/character-file/diff",
+  validateRequest(CharacterFileDiffRequestSchema),
+  elizaController.diffCharacterFileVersions,
+);
+elizaRouter.get(
+  "/sessions/:id/character-file/lint",
+  validateRequest(SessionIdRequestSchema),
+  elizaController.lintCharacterFile,
+);
+elizaRouter.post(
+  "/sessions/:id/character-file/revert",
+  validateRequest(RevertCharacterFileRequestSchema),
+  elizaController.revertCharacterFile,
+);
+elizaRouter.patch(
+  "/sessions/:id/character-file",
+  validateRequest(PatchCharacterFileRequestSchema),
+  elizaController.patchCharacterFile,
+);
+elizaRouter.post(
+  "/sessions/:id/character-file/import",
+  validateRequest(ImportCharacterFileRequestSchema),
+  elizaController.importCharacterFile,
+);
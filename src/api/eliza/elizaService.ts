@@ -1,23 +1,337 @@
 import { StatusCodes } from "http-status-codes";
 
-import { ElizaResponseSchema, type ElizaResponse } from "@/api/eliza/elizaModel";
+import type {
+  Catalog,
+  CharacterFileDiff,
+  CharacterFilePatch,
+  CharacterFileValidationErrors,
+  CharacterFileVersion,
+  CharacterFileVersionSummary,
+  CharacterImportResult,
+  CharacterLintReport,
+  SessionDetail,
+  SessionList,
+  SessionSummary,
+  UpdateSessionBody,
+} from "@/api/eliza/elizaModel";
 import { ElizaRepository } from "@/api/eliza/elizaRepository";
+import { createEmptyCharacterFile } from "@/common/ai/delilaElizaAgent/characterConfig";
+import { normalizeCharacterImport } from "@/common/ai/delilaElizaAgent/characterImport";
+import { lintCharacterFile } from "@/common/ai/delilaElizaAgent/characterLint";
+import { validateCharacterFile } from "@/common/ai/delilaElizaAgent/characterValidation";
+import { type CatalogEntryKind, elizaCatalog, findCatalogEntries } from "@/common/ai/delilaElizaAgent/elizaCatalog";
+import { KnowledgeIngestor } from "@/common/ai/knowledge/KnowledgeIngestor";
+import { knowledgeNamespace } from "@/common/ai/knowledge/knowledgeRetrieval";
 import { ServiceResponse } from "@/common/models/serviceResponse";
+import { diffJson } from "@/common/utils/jsonDiff";
+import { JsonPatchError, applyJsonPatch, applyMergePatch } from "@/common/utils/jsonPatch";
 import { logger } from "@/server";
 
 export class ElizaService {
   private elizaRepository: ElizaRepository;
+  private knowledgeIngestor: KnowledgeIngestor;
 
-  constructor(repository: ElizaRepository = new ElizaRepository()) {
+  constructor(
+    repository: ElizaRepository = new ElizaRepository(),
+    knowledgeIngestor: KnowledgeIngestor = new KnowledgeIngestor(),
+  ) {
     this.elizaRepository = repository;
+    this.knowledgeIngestor = knowledgeIngestor;
   }
 
-  // Retrieves all users from the database
-  async findAll(): Promise<ServiceResponse<null>> {
-    return ServiceResponse.success<null>("Users found", null);
+  // Retrieves a page of a user's sessions, or of those without an owner, most recently updated first
+  async findSessions(
+    page: number,
+    pageSize: number,
+    tag?: string,
+    userId: string | null = null,
+  ): Promise<ServiceResponse<SessionList | null>> {
+    try {
+      const { sessions, total } = await this.elizaRepository.findSessionsAsync(page, pageSize, tag, userId);
+      return ServiceResponse.success<SessionList>("Sessions found", {
+        items: sessions,
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      });
+    } catch (ex) {
+      const errorMessage = `Error finding sessions: ${(ex as Error).message}`;
+      logger.error(errorMessage);
+      return ServiceResponse.failure(
+        "An error occurred while retrieving sessions.",
+        null,
+        StatusCodes.INTERNAL_SERVER_ERROR,
+      );
+    }
   }
 
-  
+  // Retrieves a single session with its messages and current character file
+  async findSessionById(id: string): Promise<ServiceResponse<SessionDetail | null>> {
+    try {
+      const session = await this.elizaRepository.findSessionByIdAsync(id);
+      if (!session) {
+        return ServiceResponse.failure("Session not found", null, StatusCodes.NOT_FOUND);
+      }
+      return ServiceResponse.success<SessionDetail>("Session found", session);
+    } catch (ex) {
+      const errorMessage = `Error finding session with id ${id}: ${(ex as Error).message}`;
+      logger.error(errorMessage);
+      return ServiceResponse.failure(
+        "An error occurred while finding session.",
+        null,
+        StatusCodes.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // Renames and/or re-tags a session
+  async updateSession(id: string, data: UpdateSessionBody): Promise<ServiceResponse<SessionSummary | null>> {
+    try {
+      const session = await this.elizaRepository.updateSessionAsync(id, data);
+      if (!session) {
+        return ServiceResponse.failure("Session not found", null, StatusCodes.NOT_FOUND);
+      }
+      return ServiceResponse.success<SessionSummary>("Session updated", session);
+    } catch (ex) {
+      const errorMessage = `Error updating session with id ${id}: ${(ex as Error).message}`;
+      logger.error(errorMessage);
+      return ServiceResponse.failure(
+        "An error occurred while updating session.",
+        null,
+        StatusCodes.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // Deletes a session together with its messages and character file
+  async deleteSession(id: string): Promise<ServiceResponse<null>> {
+    try {
+      const deleted = await this.elizaRepository.deleteSessionAsync(id);
+      if (!deleted) {
+        return ServiceResponse.failure("Session not found", null, StatusCodes.NOT_FOUND);
+      }
+      // The session's knowledge sources are removed by cascade; their chunks live in the vector store
+      await this.knowledgeIngestor.removeNamespace(knowledgeNamespace(id));
+      return ServiceResponse.success("Session deleted", null);
+    } catch (ex) {
+      const errorMessage = `Error deleting session with id ${id}: ${(ex as Error).message}`;
+      logger.error(errorMessage);
+      return ServiceResponse.failure(
+        "An error occurred while deleting session.",
+        null,
+        StatusCodes.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // Lists every recorded revision of a session's character file, newest first
+  async findCharacterFileVersions(sessionId: string): Promise<ServiceResponse<CharacterFileVersionSummary[] | null>> {
+    try {
+      const versions = await this.elizaRepository.findCharacterFileVersionsAsync(sessionId);
+      if (!versions) {
+        return ServiceResponse.failure("Character file not found", null, StatusCodes.NOT_FOUND);
+      }
+      return ServiceResponse.success<CharacterFileVersionSummary[]>("Character file versions found", versions);
+    } catch (ex) {
+      const errorMessage = `Error finding character file versions for session ${sessionId}: ${(ex as Error).message}`;
+      logger.error(errorMessage);
+      return ServiceResponse.failure(
+        "An error occurred while retrieving character file versions.",
+        null,
+        StatusCodes.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // Retrieves one revision of a session's character file, including its content
+  async findCharacterFileVersion(
+    sessionId: string,
+    version: number,
+  ): Promise<ServiceResponse<CharacterFileVersion | null>> {
+    try {
+      const characterFileVersion = await this.elizaRepository.findCharacterFileVersionAsync(sessionId, version);
+      if (!characterFileVersion) {
+        return ServiceResponse.failure("Character file version not found", null, StatusCodes.NOT_FOUND);
+      }
+      return ServiceResponse.success<CharacterFileVersion>("Character file version found", characterFileVersion);
+    } catch (ex) {
+      const errorMessage = `Error finding character file version ${version} for session ${sessionId}: ${(ex as Error).message}`;
+      logger.error(errorMessage);
+      return ServiceResponse.failure(
+        "An error occurred while finding character file version.",
+        null,
+        StatusCodes.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // Computes the changes between two revisions; `to` defaults to the current one
+  async diffCharacterFileVersions(
+    sessionId: string,
+    from: number,
+    to?: number,
+  ): Promise<ServiceResponse<CharacterFileDiff | null>> {
+    try {
+      const [fromVersion, toVersion] = await Promise.all([
+        this.elizaRepository.findCharacterFileVersionAsync(sessionId, from),
+        this.elizaRepository.findCharacterFileVersionAsync(sessionId, to),
+      ]);
+      if (!fromVersion || !toVersion) {
+        return ServiceResponse.failure("Character file version not found", null, StatusCodes.NOT_FOUND);
+      }
+      return ServiceResponse.success<CharacterFileDiff>("Character file diff computed", {
+        from: fromVersion.version,
+        to: toVersion.version,
+        changes: diffJson(fromVersion.content, toVersion.content),
+      });
+    } catch (ex) {
+      const errorMessage = `Error diffing character file versions for session ${sessionId}: ${(ex as Error).message}`;
+      logger.error(errorMessage);
+      return ServiceResponse.failure(
+        "An error occurred while diffing character file versions.",
+        null,
+        StatusCodes.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // Makes an older revision current again by recording it as a new version
+  async revertCharacterFile(sessionId: string, version: number): Promise<ServiceResponse<CharacterFileVersion | null>> {
+    try {
+      const characterFileVersion = await this.elizaRepository.revertCharacterFileAsync(sessionId, version);
+      if (!characterFileVersion) {
+        return ServiceResponse.failure("Character file version not found", null, StatusCodes.NOT_FOUND);
+      }
+      return ServiceResponse.success<CharacterFileVersion>("Character file reverted", characterFileVersion);
+    } catch (ex) {
+      const errorMessage = `Error reverting character file for session ${sessionId} to version ${version}: ${(ex as Error).message}`;
+      logger.error(errorMessage);
+      return ServiceResponse.failure(
+        "An error occurred while reverting character file.",
+        null,
+        StatusCodes.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // Applies a manual edit to the current character file and saves it as a new version if it still validates
+  async patchCharacterFile(
+    sessionId: string,
+    patch: CharacterFilePatch,
+  ): Promise<ServiceResponse<CharacterFileVersion | CharacterFileValidationErrors | null>> {
+    try {
+      if (!(await this.elizaRepository.sessionExistsAsync(sessionId))) {
+        return ServiceResponse.failure("Session not found", null, StatusCodes.NOT_FOUND);
+      }
+
+      // Sessions without a generated character file are edited starting from the empty template
+      const current = await this.elizaRepository.findCharacterFileVersionAsync(sessionId);
+      const base: Record<string, unknown> = current?.content ?? createEmptyCharacterFile();
+
+      let patched: unknown;
+      try {
+        patched =
+          patch.format === "json-patch" ? applyJsonPatch(base, patch.operations) : applyMergePatch(base, patch.patch);
+      } catch (ex) {
+        if (ex instanceof JsonPatchError) {
+          return ServiceResponse.failure(`Patch could not be applied: ${ex.message}`, null, StatusCodes.BAD_REQUEST);
+        }
+        throw ex;
+      }
+
+      const validation = validateCharacterFile(patched);
+      if (!validation.success) {
+        return ServiceResponse.failure<CharacterFileValidationErrors>(
+          "Edited character file does not match the character schema",
+          { errors: validation.errors },
+          StatusCodes.UNPROCESSABLE_ENTITY,
+        );
+      }
+
+      const characterFileVersion = await this.elizaRepository.saveCharacterFileAsync(
+        sessionId,
+        validation.data,
+        "edited",
+      );
+      return ServiceResponse.success<CharacterFileVersion | null>("Character file updated", characterFileVersion);
+    } catch (ex) {
+      const errorMessage = `Error patching character file for session ${sessionId}: ${(ex as Error).message}`;
+      logger.error(errorMessage);
+      return ServiceResponse.failure(
+        "An error occurred while updating character file.",
+        null,
+        StatusCodes.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // Checks the current character file against the ElizaOS readiness rules without changing it
+  async lintCharacterFile(sessionId: string): Promise<ServiceResponse<CharacterLintReport | null>> {
+    try {
+      const current = await this.elizaRepository.findCharacterFileVersionAsync(sessionId);
+      if (!current) {
+        return ServiceResponse.failure("Character file not found", null, StatusCodes.NOT_FOUND);
+      }
+      const lint = lintCharacterFile(current.content);
+      return ServiceResponse.success<CharacterLintReport>("Character file linted", {
+        version: current.version,
+        ...lint,
+      });
+    } catch (ex) {
+      const errorMessage = `Error linting character file for session ${sessionId}: ${(ex as Error).message}`;
+      logger.error(errorMessage);
+      return ServiceResponse.failure(
+        "An error occurred while linting character file.",
+        null,
+        StatusCodes.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // Replaces the session's character file with an uploaded ElizaOS character file, normalized against the schema
+  async importCharacterFile(sessionId: string, input: unknown): Promise<ServiceResponse<CharacterImportResult | null>> {
+    try {
+      if (!(await this.elizaRepository.sessionExistsAsync(sessionId))) {
+        return ServiceResponse.failure("Session not found", null, StatusCodes.NOT_FOUND);
+      }
+      // Anything but a JSON object has no fields to keep, so it is refused instead of stored as an empty file
+      if (typeof input !== "object" || input === null || Array.isArray(input)) {
+        return ServiceResponse.failure("Character file must be a JSON object", null, StatusCodes.BAD_REQUEST);
+      }
+
+      const { characterFile, report } = normalizeCharacterImport(input);
+      const characterFileVersion = await this.elizaRepository.saveCharacterFileAsync(
+        sessionId,
+        characterFile,
+        "imported",
+      );
+      if (!characterFileVersion) {
+        throw new Error("Imported character file version was not recorded");
+      }
+
+      const message = report.valid ? "Character file imported" : "Character file imported, but some fields need fixing";
+      return ServiceResponse.success<CharacterImportResult>(message, { characterFile: characterFileVersion, report });
+    } catch (ex) {
+      const errorMessage = `Error importing character file for session ${sessionId}: ${(ex as Error).message}`;
+      logger.error(errorMessage);
+      return ServiceResponse.failure(
+        "An error occurred while importing character file.",
+        null,
+        StatusCodes.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // Lists the known ElizaOS clients and plugins, optionally filtered by kind and a search query
+  getCatalog(kind?: CatalogEntryKind, query?: string): ServiceResponse<Catalog> {
+    const entries = findCatalogEntries({ kind, query });
+    return ServiceResponse.success<Catalog>("Catalog found", {
+      version: elizaCatalog.version,
+      elizaVersion: elizaCatalog.elizaVersion,
+      entries,
+    });
+  }
 }
 
 export const elizaService = new ElizaService();
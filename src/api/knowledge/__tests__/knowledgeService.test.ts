@@ -0,0 +1,347 @@
+import { StatusCodes } from "http-status-codes";
+import type { Mock } from "vitest";
+
+import type { KnowledgeSource } from "@/api/knowledge/knowledgeModel";
+import { KnowledgeRepository } from "@/api/knowledge/knowledgeRepository";
+import { type KnowledgeRequester, KnowledgeService } from "@/api/knowledge/knowledgeService";
+import { VectorStoreManager, VectorStoreProvider } from "@/common/ai/VectorStoreManager";
+import { HashEmbeddings } from "@/common/ai/fakeProviders/HashEmbeddings";
+import { KnowledgeIngestor } from "@/common/ai/knowledge/KnowledgeIngestor";
+
+vi.mock("@/api/knowledge/knowledgeRepository");
+
+describe("knowledgeService", () => {
+  let knowledgeServiceInstance: KnowledgeService;
+  let knowledgeRepositoryInstance: KnowledgeRepository;
+  let vectorStore: VectorStoreManager;
+
+  const sourceId = "7f1d2c3b-4a5e-4f60-8b7a-9c8d7e6f5a4b";
+  const mockSource: KnowledgeSource = {
+    id: sourceId,
+    name: "clients.md",
+    sessionId: null,
+    title: null,
+    filename: "clients.md",
+    contentType: "text/markdown",
+    checksum: "abc",
+    sizeBytes: 120,
+    splitter: { type: "markdown", chunkSize: 1000, chunkOverlap: 200 },
+    chunkCount: 1,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+  const admin: KnowledgeRequester = { userId: "admin-1", admin: true };
+  const user: KnowledgeRequester = { userId: "user-1", admin: false };
+  const markdown = "# Discord client\nThe discord client needs DISCORD_API_TOKEN.\n";
+
+  const storedChunks = () => vectorStore.getVectorStore().similaritySearch("discord", 100);
+
+  beforeEach(() => {
+    vectorStore = new VectorStoreManager({ provider: VectorStoreProvider.MEMORY }, new HashEmbeddings());
+    knowledgeRepositoryInstance = new KnowledgeRepository();
+    knowledgeServiceInstance = new KnowledgeService(
+      knowledgeRepositoryInstance,
+      new KnowledgeIngestor(() => vectorStore),
+    );
+  });
+
+  describe("ingestSource", () => {
+    it("stores the chunks of a new source and returns 201", async () => {
+      // Arrange
+      (knowledgeRepositoryInstance.saveSourceAsync as Mock).mockResolvedValue({ source: mockSource, created: true });
+
+      // Act
+      const result = await knowledgeServiceInstance.ingestSource(
+        {
+          filename: "clients.md",
+          content: markdown,
+          encoding: "utf8",
+        },
+        admin,
+      );
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.CREATED);
+      expect(result.responseObject).toEqual(mockSource);
+      expect(knowledgeRepositoryInstance.saveSourceAsync).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: "clients.md",
+          contentType: "text/markdown",
+          splitter: { type: "markdown", chunkSize: 1000, chunkOverlap: 200 },
+          chunkCount: 1,
+        }),
+      );
+      const chunks = await storedChunks();
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].metadata).toMatchObject({
+        sourceId,
+        source: "clients.md",
+        filename: "clients.md",
+        namespace: "global",
+      });
+    });
+
+    it("scopes a source to its session's namespace", async () => {
+      // Arrange
+      const sessionId = "0b7c5f2e-8f4a-4c1e-9d57-3a1f6f0c2b11";
+      (knowledgeRepositoryInstance.findSessionAsync as Mock).mockResolvedValue({ userId: null });
+      (knowledgeRepositoryInstance.saveSourceAsync as Mock).mockResolvedValue({
+        source: { ...mockSource, sessionId },
+        created: true,
+      });
+
+      // Act
+      const result = await knowledgeServiceInstance.ingestSource(
+        {
+          filename: "clients.md",
+          content: markdown,
+          encoding: "utf8",
+          sessionId,
+        },
+        admin,
+      );
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.CREATED);
+      expect(knowledgeRepositoryInstance.saveSourceAsync).toHaveBeenCalledWith(expect.objectContaining({ sessionId }));
+      const chunks = await storedChunks();
+      expect(chunks[0].metadata.namespace).toEqual(`session:${sessionId}`);
+    });
+
+    it("returns 404 when the session does not exist", async () => {
+      // Arrange
+      (knowledgeRepositoryInstance.findSessionAsync as Mock).mockResolvedValue(null);
+
+      // Act
+      const result = await knowledgeServiceInstance.ingestSource(
+        {
+          filename: "clients.md",
+          content: markdown,
+          encoding: "utf8",
+          sessionId: "0b7c5f2e-8f4a-4c1e-9d57-3a1f6f0c2b11",
+        },
+        admin,
+      );
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.NOT_FOUND);
+      expect(knowledgeRepositoryInstance.saveSourceAsync).not.toHaveBeenCalled();
+    });
+
+    it("refuses global knowledge and other users' sessions to users who are not administrators", async () => {
+      // Arrange
+      (knowledgeRepositoryInstance.findSessionAsync as Mock).mockResolvedValue({ userId: "user-2" });
+
+      // Act
+      const global = await knowledgeServiceInstance.ingestSource(
+        { filename: "clients.md", content: markdown, encoding: "utf8" },
+        user,
+      );
+      const otherSession = await knowledgeServiceInstance.ingestSource(
+        {
+          filename: "clients.md",
+          content: markdown,
+          encoding: "utf8",
+          sessionId: "0b7c5f2e-8f4a-4c1e-9d57-3a1f6f0c2b11",
+        },
+        user,
+      );
+
+      // Assert
+      expect(global.statusCode).toEqual(StatusCodes.FORBIDDEN);
+      expect(otherSession.statusCode).toEqual(StatusCodes.FORBIDDEN);
+      expect(otherSession.message).toEqual("The session belongs to another user");
+      expect(knowledgeRepositoryInstance.saveSourceAsync).not.toHaveBeenCalled();
+    });
+
+    it("decodes base64 uploads and honours splitter overrides", async () => {
+      // Arrange
+      (knowledgeRepositoryInstance.saveSourceAsync as Mock).mockResolvedValue({ source: mockSource, created: false });
+
+      // Act
+      const result = await knowledgeServiceInstance.ingestSource(
+        {
+          filename: "notes.txt",
+          content: Buffer.from("alpha beta gamma delta ".repeat(20)).toString("base64"),
+          encoding: "base64",
+          splitter: { chunkSize: 100, chunkOverlap: 0 },
+        },
+        admin,
+      );
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      const saved = (knowledgeRepositoryInstance.saveSourceAsync as Mock).mock.calls[0][0];
+      expect(saved.contentType).toEqual("text/plain");
+      expect(saved.splitter).toEqual({ type: "recursive", chunkSize: 100, chunkOverlap: 0 });
+      expect(saved.chunkCount).toBeGreaterThan(1);
+    });
+
+    it("rejects unsupported file types", async () => {
+      // Act
+      const result = await knowledgeServiceInstance.ingestSource(
+        {
+          filename: "logo.png",
+          content: "iVBORw0KGgo=",
+          encoding: "base64",
+        },
+        admin,
+      );
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.UNSUPPORTED_MEDIA_TYPE);
+      expect(knowledgeRepositoryInstance.saveSourceAsync).not.toHaveBeenCalled();
+    });
+
+    it("rejects uploads that cannot be parsed", async () => {
+      // Act
+      const result = await knowledgeServiceInstance.ingestSource(
+        {
+          filename: "data.json",
+          content: "{not json",
+          encoding: "utf8",
+        },
+        admin,
+      );
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.UNPROCESSABLE_ENTITY);
+      expect(result.message).toContain("JSON could not be parsed");
+    });
+
+    it("rejects an overlap larger than the chunk size", async () => {
+      // Act
+      const result = await knowledgeServiceInstance.ingestSource(
+        {
+          filename: "clients.md",
+          content: markdown,
+          encoding: "utf8",
+          splitter: { chunkSize: 100, chunkOverlap: 150 },
+        },
+        admin,
+      );
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.BAD_REQUEST);
+    });
+  });
+
+  describe("findSources", () => {
+    it("maps the namespace filter to a session ID", async () => {
+      // Arrange
+      (knowledgeRepositoryInstance.findSourcesAsync as Mock).mockResolvedValue({ sources: [mockSource], total: 1 });
+
+      // Act
+      await knowledgeServiceInstance.findSources(1, 20, "global", user);
+      await knowledgeServiceInstance.findSources(1, 20, undefined, admin);
+
+      // Assert
+      expect(knowledgeRepositoryInstance.findSourcesAsync).toHaveBeenNthCalledWith(1, 1, 20, null, undefined);
+      expect(knowledgeRepositoryInstance.findSourcesAsync).toHaveBeenNthCalledWith(2, 1, 20, undefined, undefined);
+    });
+
+    it("lists the global sources and the user's own sessions, and refuses other users' sessions", async () => {
+      // Arrange
+      (knowledgeRepositoryInstance.findSourcesAsync as Mock).mockResolvedValue({ sources: [mockSource], total: 1 });
+      (knowledgeRepositoryInstance.findSessionAsync as Mock).mockResolvedValue({ userId: "user-2" });
+
+      // Act
+      const own = await knowledgeServiceInstance.findSources(1, 20, undefined, user);
+      const otherSession = await knowledgeServiceInstance.findSources(
+        1,
+        20,
+        "0b7c5f2e-8f4a-4c1e-9d57-3a1f6f0c2b11",
+        user,
+      );
+
+      // Assert
+      expect(own.statusCode).toEqual(StatusCodes.OK);
+      expect(knowledgeRepositoryInstance.findSourcesAsync).toHaveBeenCalledWith(1, 20, undefined, "user-1");
+      expect(otherSession.statusCode).toEqual(StatusCodes.FORBIDDEN);
+    });
+  });
+
+  describe("reingestSource", () => {
+    it("re-chunks the stored upload with the merged splitter settings", async () => {
+      // Arrange
+      (knowledgeRepositoryInstance.findSourceContentAsync as Mock).mockResolvedValue({
+        source: mockSource,
+        content: Buffer.from(markdown),
+      });
+      (knowledgeRepositoryInstance.updateSourceChunksAsync as Mock).mockImplementation(
+        async (_id, splitter, chunkCount) => ({ ...mockSource, splitter, chunkCount }),
+      );
+
+      // Act
+      const result = await knowledgeServiceInstance.reingestSource(sourceId, { chunkSize: 60, chunkOverlap: 0 }, admin);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(result.responseObject?.splitter).toEqual({ type: "markdown", chunkSize: 60, chunkOverlap: 0 });
+      expect(await storedChunks()).toHaveLength(result.responseObject?.chunkCount ?? -1);
+    });
+
+    it("returns 404 for an unknown source", async () => {
+      // Arrange
+      (knowledgeRepositoryInstance.findSourceContentAsync as Mock).mockResolvedValue(null);
+
+      // Act
+      const result = await knowledgeServiceInstance.reingestSource(sourceId, undefined, admin);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.NOT_FOUND);
+    });
+  });
+
+  describe("deleteSource", () => {
+    it("removes the chunks and the source", async () => {
+      // Arrange
+      (knowledgeRepositoryInstance.saveSourceAsync as Mock).mockResolvedValue({ source: mockSource, created: true });
+      (knowledgeRepositoryInstance.findSourceByIdAsync as Mock).mockResolvedValue(mockSource);
+      await knowledgeServiceInstance.ingestSource(
+        { filename: "clients.md", content: markdown, encoding: "utf8" },
+        admin,
+      );
+
+      // Act
+      const result = await knowledgeServiceInstance.deleteSource(sourceId, admin);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.OK);
+      expect(knowledgeRepositoryInstance.deleteSourceAsync).toHaveBeenCalledWith(sourceId);
+      expect(await storedChunks()).toHaveLength(0);
+    });
+
+    it("leaves the global sources and other users' sessions to their owners", async () => {
+      // Arrange
+      const sessionId = "0b7c5f2e-8f4a-4c1e-9d57-3a1f6f0c2b11";
+      (knowledgeRepositoryInstance.findSourceByIdAsync as Mock)
+        .mockResolvedValueOnce(mockSource)
+        .mockResolvedValueOnce({ ...mockSource, sessionId })
+        .mockResolvedValueOnce({ ...mockSource, sessionId });
+      (knowledgeRepositoryInstance.findSessionAsync as Mock).mockResolvedValue({ userId: "user-2" });
+
+      // Act
+      const global = await knowledgeServiceInstance.deleteSource(sourceId, user);
+      const otherSession = await knowledgeServiceInstance.deleteSource(sourceId, user);
+      const owner = await knowledgeServiceInstance.deleteSource(sourceId, { userId: "user-2", admin: false });
+
+      // Assert
+      expect([global.statusCode, otherSession.statusCode]).toEqual([StatusCodes.FORBIDDEN, StatusCodes.FORBIDDEN]);
+      expect(owner.statusCode).toEqual(StatusCodes.OK);
+      expect(knowledgeRepositoryInstance.deleteSourceAsync).toHaveBeenCalledTimes(1);
+    });
+
+    it("returns 404 for an unknown source", async () => {
+      // Arrange
+      (knowledgeRepositoryInstance.findSourceByIdAsync as Mock).mockResolvedValue(null);
+
+      // Act
+      const result = await knowledgeServiceInstance.deleteSource(sourceId, admin);
+
+      // Assert
+      expect(result.statusCode).toEqual(StatusCodes.NOT_FOUND);
+      expect(knowledgeRepositoryInstance.deleteSourceAsync).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import type { Request, RequestHandler, Response } from "express";
+
+import { isAdmin, requestUserId } from "@/api/credentials/userIdentity";
+import {
+  IngestKnowledgeRequestSchema,
+  ListKnowledgeSourcesRequestSchema,
+  ReingestKnowledgeRequestSchema,
+} from "@/api/knowledge/knowledgeModel";
+import { type KnowledgeRequester, knowledgeService } from "@/api/knowledge/knowledgeService";
+import { handleServiceResponse } from "@/common/utils/httpHandlers";
+
+// The user the gateway identified; only administrators may change the global knowledge
+const requester = (req: Request): KnowledgeRequester => ({ userId: requestUserId(req), admin: isAdmin(req) });
+
+class KnowledgeController {
+  public ingestSource: RequestHandler = async (req: Request, res: Response) => {
+    const upload = IngestKnowledgeRequestSchema.shape.body.parse(req.body);
+    const serviceResponse = await knowledgeService.ingestSource(upload, requester(req));
+    return handleServiceResponse(serviceResponse, res);
+  };
+
+  public getSources: RequestHandler = async (req: Request, res: Response) => {
+    const { page, pageSize, namespace } = ListKnowledgeSourcesRequestSchema.shape.query.parse(req.query);
+    const serviceResponse = await knowledgeService.findSources(page, pageSize, namespace, requester(req));
+    return handleServiceResponse(serviceResponse, res);
+  };
+
+  public getSource: RequestHandler = async (req: Request, res: Response) => {
+    const serviceResponse = await knowledgeService.findSourceById(req.params.id, requester(req));
+    return handleServiceResponse(serviceResponse, res);
+  };
+
+  public reingestSource: RequestHandler = async (req: Request, res: Response) => {
+    const { splitter } = ReingestKnowledgeRequestSchema.shape.body.parse(req.body ?? {});
+    const serviceResponse = await knowledgeService.reingestSource(req.params.id, splitter, requester(req));
+    return handleServiceResponse(serviceResponse, res);
+  };
+
+  public deleteSource: RequestHandler = async (req: Request, res: Response) => {
+    const serviceResponse = await knowledgeService.deleteSource(req.params.id, requester(req));
+    return handleServiceResponse(serviceResponse, res);
+  };
+}
+
+export const knowledgeController = new KnowledgeController();
@@ -0,0 +1,103 @@
+import { extendZodWithOpenApi } from "@asteasolutions/zod-to-openapi";
+import { z } from "zod";
+
+import { KNOWLEDGE_CONTENT_TYPES } from "@/common/ai/knowledge/knowledgeLoaders";
+import { commonValidations } from "@/common/utils/commonValidation";
+
+extendZodWithOpenApi(z);
+
+export type KnowledgeSplitter = z.infer<typeof KnowledgeSplitterSchema>;
+export const KnowledgeSplitterSchema = z.object({
+  type: z.enum(["recursive", "markdown", "character"]),
+  chunkSize: z.number(),
+  chunkOverlap: z.number(),
+});
+
+// Splitter settings given on upload or re-ingest; missing fields keep their current or default value
+export type KnowledgeSplitterOverride = z.infer<typeof KnowledgeSplitterOverrideSchema>;
+export const KnowledgeSplitterOverrideSchema = z.object({
+  type: z.enum(["recursive", "markdown", "character"]).optional(),
+  chunkSize: z.number().int().min(50).max(20000).optional(),
+  chunkOverlap: z.number().int().min(0).optional(),
+});
+
+export type KnowledgeSource = z.infer<typeof KnowledgeSourceSchema>;
+export const KnowledgeSourceSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  sessionId: z.string().uuid().nullable().openapi({ description: "Owning session; null for global knowledge" }),
+  title: z.string().nullable(),
+  filename: z.string(),
+  contentType: z.enum(KNOWLEDGE_CONTENT_TYPES),
+  checksum: z.string(),
+  sizeBytes: z.number(),
+  splitter: KnowledgeSplitterSchema,
+  chunkCount: z.number(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type KnowledgeSourceList = z.infer<typeof KnowledgeSourceListSchema>;
+export const KnowledgeSourceListSchema = z.object({
+  items: z.array(KnowledgeSourceSchema),
+  page: z.number(),
+  pageSize: z.number(),
+  total: z.number(),
+  totalPages: z.number(),
+});
+
+// Input Validation for 'POST knowledge/sources' endpoint
+export type IngestKnowledgeBody = z.infer<typeof IngestKnowledgeBodySchema>;
+export const IngestKnowledgeBodySchema = z.object({
+  filename: z.string().trim().min(1).max(255),
+  content: z.string().min(1).openapi({ description: "File contents; PDFs must be sent base64 encoded" }),
+  encoding: z.enum(["utf8", "base64"]).default("utf8"),
+  contentType: z
+    .string()
+    .optional()
+    .openapi({ description: "Media type of the file; detected from the filename extension when omitted" }),
+  source: z.string().trim().min(1).max(255).optional().openapi({
+    description: "Source key; uploading again with the same key replaces the source. Defaults to filename",
+  }),
+  title: z.string().trim().min(1).max(200).optional(),
+  sessionId: commonValidations.uuid.optional().openapi({
+    description:
+      "Scope the source to one session; omit to make it global knowledge shared by every session (administrators only)",
+  }),
+  splitter: KnowledgeSplitterOverrideSchema.optional(),
+});
+
+export const IngestKnowledgeRequestSchema = z.object({
+  body: IngestKnowledgeBodySchema,
+});
+
+// Input Validation for 'GET knowledge/sources' endpoint
+export const ListKnowledgeSourcesRequestSchema = z.object({
+  query: z.object({
+    page: commonValidations.page,
+    pageSize: commonValidations.pageSize,
+    namespace: z
+      .union([z.literal("global"), commonValidations.uuid])
+      .optional()
+      .openapi({
+        description:
+          "`global` or a session ID; when omitted, administrators get every source, other users the global sources and those of their sessions",
+      }),
+  }),
+});
+
+// Input Validation for 'GET knowledge/sources/:id' and 'DELETE knowledge/sources/:id' endpoints
+export const KnowledgeSourceIdRequestSchema = z.object({
+  params: z.object({ id: commonValidations.uuid }),
+});
+
+// Input Validation for 'POST knowledge/sources/:id/reingest' endpoint
+export type ReingestKnowledgeBody = z.infer<typeof ReingestKnowledgeBodySchema>;
+export const ReingestKnowledgeBodySchema = z.object({
+  splitter: KnowledgeSplitterOverrideSchema.optional(),
+});
+
+export const ReingestKnowledgeRequestSchema = z.object({
+  params: z.object({ id: commonValidations.uuid }),
+  body: ReingestKnowledgeBodySchema,
+});
@@ -0,0 +1,93 @@
+import type { KnowledgeSource, KnowledgeSplitter } from "@/api/knowledge/knowledgeModel";
+import type { KnowledgeContentType } from "@/common/ai/knowledge/knowledgeLoaders";
+import { DatabaseService, type KnowledgeSourceRow } from "@/database";
+
+const toKnowledgeSource = (row: KnowledgeSourceRow): KnowledgeSource => ({
+  id: row.id,
+  name: row.name,
+  sessionId: row.sessionId,
+  title: row.title,
+  filename: row.filename,
+  contentType: row.contentType as KnowledgeContentType,
+  checksum: row.checksum,
+  sizeBytes: row.sizeBytes,
+  splitter: row.splitter as KnowledgeSplitter,
+  chunkCount: row.chunkCount,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+});
+
+export class KnowledgeRepository {
+  private db: DatabaseService;
+
+  constructor(db: DatabaseService = DatabaseService.getInstance()) {
+    this.db = db;
+  }
+
+  async saveSourceAsync(data: {
+    name: string;
+    sessionId?: string;
+    title?: string;
+    filename: string;
+    contentType: KnowledgeContentType;
+    checksum: string;
+    content: Buffer;
+    splitter: KnowledgeSplitter;
+    chunkCount: number;
+  }): Promise<{ source: KnowledgeSource; created: boolean }> {
+    const { source, created } = await this.db.knowledgeSources.upsertKnowledgeSource({
+      ...data,
+      sessionId: data.sessionId ?? null,
+      title: data.title ?? null,
+      sizeBytes: data.content.length,
+    });
+    return { source: toKnowledgeSource(source), created };
+  }
+
+  // A null sessionId lists global sources only, undefined lists every source, or with a userId
+  // the global sources and those of the user's sessions
+  async findSourcesAsync(
+    page: number,
+    pageSize: number,
+    sessionId?: string | null,
+    userId?: string | null,
+  ): Promise<{ sources: KnowledgeSource[]; total: number }> {
+    const { sources, total } = await this.db.knowledgeSources.listKnowledgeSources({
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+      sessionId,
+      userId,
+    });
+    return { sources: sources.map(toKnowledgeSource), total };
+  }
+
+  // The session with the user who owns it, or null when it does not exist
+  async findSessionAsync(sessionId: string): Promise<{ userId: string | null } | null> {
+    const session = await this.db.sessions.getSessionById(sessionId);
+    return session ? { userId: session.userId } : null;
+  }
+
+  async findSourceByIdAsync(id: string): Promise<KnowledgeSource | null> {
+    const source = await this.db.knowledgeSources.getKnowledgeSourceById(id);
+    return source ? toKnowledgeSource(source) : null;
+  }
+
+  // Returns the source together with its original upload, for re-ingesting
+  async findSourceContentAsync(id: string): Promise<{ source: KnowledgeSource; content: Buffer } | null> {
+    const source = await this.db.knowledgeSources.getKnowledgeSourceWithContent(id);
+    if (!source) return null;
+
+    const { content, ...row } = source;
+    return { source: toKnowledgeSource(row), content: Buffer.from(content) };
+  }
+
+  async updateSourceChunksAsync(id: string, splitter: KnowledgeSplitter, chunkCount: number): Promise<KnowledgeSource> {
+    const source = await this.db.knowledgeSources.updateKnowledgeSourceChunks(id, { splitter, chunkCount });
+    return toKnowledgeSource(source);
+  }
+
+  async deleteSourceAsync(id: string): Promise<KnowledgeSource | null> {
+    const source = await this.db.knowledgeSources.deleteKnowledgeSource(id);
+    return source ? toKnowledgeSource(source) : null;
+  }
+}
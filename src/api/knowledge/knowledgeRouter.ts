@@ -0,0 +1,97 @@
+import { OpenAPIRegistry } from "@asteasolutions/zod-to-openapi";
+import express, { type Router } from "express";
+import { StatusCodes } from "http-status-codes";
+import { z } from "zod";
+
+import { createApiResponse } from "@/api-docs/openAPIResponseBuilders";
+import {
+  IngestKnowledgeBodySchema,
+  IngestKnowledgeRequestSchema,
+  KnowledgeSourceIdRequestSchema,
+  KnowledgeSourceListSchema,
+  KnowledgeSourceSchema,
+  ListKnowledgeSourcesRequestSchema,
+  ReingestKnowledgeBodySchema,
+  ReingestKnowledgeRequestSchema,
+} from "@/api/knowledge/knowledgeModel";
+import { validateRequest } from "@/common/utils/httpHandlers";
+import { knowledgeController } from "./knowledgeController";
+
+export const knowledgeRegistry = new OpenAPIRegistry();
+export const knowledgeRouter: Router = express.Router();
+
+knowledgeRegistry.register("KnowledgeSource", KnowledgeSourceSchema);
+
+knowledgeRegistry.registerPath({
+  method: "post",
+  path: "/knowledge/sources",
+  tags: ["Knowledge"],
+  request: {
+    body: {
+      content: {
+        "application/json": {
+          schema: IngestKnowledgeBodySchema,
+        },
+      },
+    },
+  },
+  responses: {
+    ...createApiResponse(KnowledgeSourceSchema, "Source replaced"),
+    ...createApiResponse(KnowledgeSourceSchema, "Source ingested", StatusCodes.CREATED),
+  },
+});
+
+knowledgeRegistry.registerPath({
+  method: "get",
+  path: "/knowledge/sources",
+  tags: ["Knowledge"],
+  request: { query: ListKnowledgeSourcesRequestSchema.shape.query },
+  responses: createApiResponse(KnowledgeSourceListSchema, "Success"),
+});
+
+knowledgeRegistry.registerPath({
+  method: "get",
+  path: "/knowledge/sources/{id}",
+  tags: ["Knowledge"],
+  request: { params: KnowledgeSourceIdRequestSchema.shape.params },
+  responses: createApiResponse(KnowledgeSourceSchema, "Success"),
+});
+
+knowledgeRegistry.registerPath({
+  method: "post",
+  path: "/knowledge/sources/{id}/reingest",
+  tags: ["Knowledge"],
+  request: {
+    params: ReingestKnowledgeRequestSchema.shape.params,
+    body: {
+      content: {
+        "application/json": {
+          schema: ReingestKnowledgeBodySchema,
+        },
+      },
+    },
+  },
+  responses: createApiResponse(KnowledgeSourceSchema, "Success"),
+});
+
+knowledgeRegistry.registerPath({
+  method: "delete",
+  path: "/knowledge/sources/{id}",
+  tags: ["Knowledge"],
+  request: { params: KnowledgeSourceIdRequestSchema.shape.params },
+  responses: createApiResponse(z.null(), "Success"),
+});
+
+knowledgeRouter.post("/sources", validateRequest(IngestKnowledgeRequestSchema), knowledgeController.ingestSource);
+knowledgeRouter.get("/sources", validateRequest(ListKnowledgeSourcesRequestSchema), knowledgeController.getSources);
+knowledgeRouter.get("/sources/:id", validateRequest(KnowledgeSourceIdRequestSchema), knowledgeController.getSource);
+knowledgeRouter.post(
+  "/sources/:id/reingest",
+  validateRequest(ReingestKnowledgeRequestSchema),
+  knowledgeController.reingestSource,
+);
+knowledgeRouter.delete(
+  "/sources/:id",
+  validateRequest(KnowledgeSourceIdRequestSchema),
+  knowledgeController.deleteSource,
+);
@@ -0,0 +1,253 @@
+import { createHash } from "node:crypto";
+import { StatusCodes } from "http-status-codes";
+
+import { ownsSession } from "@/api/credentials/userIdentity";
+import type {
+  IngestKnowledgeBody,
+  KnowledgeSource,
+  KnowledgeSourceList,
+  KnowledgeSplitterOverride,
+} from "@/api/knowledge/knowledgeModel";
+import { KnowledgeRepository } from "@/api/knowledge/knowledgeRepository";
+import { KnowledgeIngestor } from "@/common/ai/knowledge/KnowledgeIngestor";
+import { KnowledgeLoadError, resolveKnowledgeContentType } from "@/common/ai/knowledge/knowledgeLoaders";
+import { GLOBAL_NAMESPACE, knowledgeNamespace } from "@/common/ai/knowledge/knowledgeRetrieval";
+import {
+  type SplitterConfig,
+  SplitterConfigSchema,
+  defaultSplitterConfig,
+} from "@/common/ai/knowledge/knowledgeSplitters";
+import { ServiceResponse } from "@/common/models/serviceResponse";
+import { logger } from "@/server";
+
+// Who is asking: the user the gateway identified, and whether they manage the global knowledge
+export type KnowledgeRequester = { userId: string | null; admin: boolean };
+
+export class KnowledgeService {
+  private knowledgeRepository: KnowledgeRepository;
+  private ingestor: KnowledgeIngestor;
+
+  constructor(
+    repository: KnowledgeRepository = new KnowledgeRepository(),
+    ingestor: KnowledgeIngestor = new KnowledgeIngestor(),
+  ) {
+    this.knowledgeRepository = repository;
+    this.ingestor = ingestor;
+  }
+
+  // Chunks, embeds and stores an upload; an existing source with the same key in the same namespace is replaced
+  async ingestSource(
+    upload: IngestKnowledgeBody,
+    requester: KnowledgeRequester,
+  ): Promise<ServiceResponse<KnowledgeSource | null>> {
+    try {
+      const denied = await this.checkAccess(upload.sessionId ?? null, requester, true);
+      if (denied) return denied;
+
+      const contentType = resolveKnowledgeContentType(upload.filename, upload.contentType);
+      if (!contentType) {
+        return ServiceResponse.failure(
+          "Unsupported file type. Upload Markdown, plain text, JSON or PDF files.",
+          null,
+          StatusCodes.UNSUPPORTED_MEDIA_TYPE,
+        );
+      }
+
+      const splitter = this.resolveSplitter(defaultSplitterConfig(contentType), upload.splitter);
+      if (!splitter.success) {
+        return ServiceResponse.failure(splitter.message, null, StatusCodes.BAD_REQUEST);
+      }
+
+      const content = Buffer.from(upload.content, upload.encoding);
+      const chunks = await this.ingestor.split(
+        { content, contentType, filename: upload.filename, title: upload.title },
+        splitter.config,
+      );
+      if (chunks.length === 0) {
+        return ServiceResponse.failure("The file does not contain any text", null, StatusCodes.UNPROCESSABLE_ENTITY);
+      }
+
+      const { source, created } = await this.knowledgeRepository.saveSourceAsync({
+        name: upload.source ?? upload.filename,
+        sessionId: upload.sessionId,
+        title: upload.title,
+        filename: upload.filename,
+        contentType,
+        checksum: createHash("sha256").update(content).digest("hex"),
+        content,
+        splitter: splitter.config,
+        chunkCount: chunks.length,
+      });
+      await this.ingestor.replace(source.id, source.name, knowledgeNamespace(source.sessionId), chunks);
+
+      return created
+        ? ServiceResponse.success<KnowledgeSource>("Knowledge source ingested", source, StatusCodes.CREATED)
+        : ServiceResponse.success<KnowledgeSource>("Knowledge source replaced", source);
+    } catch (ex) {
+      if (ex instanceof KnowledgeLoadError) {
+        return ServiceResponse.failure(ex.message, null, StatusCodes.UNPROCESSABLE_ENTITY);
+      }
+      const errorMessage = `Error ingesting knowledge source ${upload.filename}: ${(ex as Error).message}`;
+      logger.error(errorMessage);
+      return ServiceResponse.failure(
+        "An error occurred while ingesting knowledge source.",
+        null,
+        StatusCodes.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // Retrieves a page of knowledge sources, most recently updated first, optionally from one namespace;
+  // without one, administrators see every source and everyone else the global ones and their sessions'
+  async findSources(
+    page: number,
+    pageSize: number,
+    namespace: string | undefined,
+    requester: KnowledgeRequester,
+  ): Promise<ServiceResponse<KnowledgeSourceList | null>> {
+    try {
+      const sessionId = namespace === undefined ? undefined : namespace === GLOBAL_NAMESPACE ? null : namespace;
+      if (sessionId !== undefined) {
+        const denied = await this.checkAccess(sessionId, requester, false);
+        if (denied) return denied;
+      }
+      const userId = sessionId === undefined && !requester.admin ? requester.userId : undefined;
+      const { sources, total } = await this.knowledgeRepository.findSourcesAsync(page, pageSize, sessionId, userId);
+      return ServiceResponse.success<KnowledgeSourceList>("Knowledge sources found", {
+        items: sources,
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      });
+    } catch (ex) {
+      const errorMessage = `Error finding knowledge sources: ${(ex as Error).message}`;
+      logger.error(errorMessage);
+      return ServiceResponse.failure(
+        "An error occurred while retrieving knowledge sources.",
+        null,
+        StatusCodes.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // Retrieves a single knowledge source
+  async findSourceById(id: string, requester: KnowledgeRequester): Promise<ServiceResponse<KnowledgeSource | null>> {
+    try {
+      const source = await this.knowledgeRepository.findSourceByIdAsync(id);
+      if (!source) {
+        return ServiceResponse.failure("Knowledge source not found", null, StatusCodes.NOT_FOUND);
+      }
+      const denied = await this.checkAccess(source.sessionId, requester, false);
+      if (denied) return denied;
+      return ServiceResponse.success<KnowledgeSource>("Knowledge source found", source);
+    } catch (ex) {
+      const errorMessage = `Error finding knowledge source with id ${id}: ${(ex as Error).message}`;
+      logger.error(errorMessage);
+      return ServiceResponse.failure(
+        "An error occurred while finding knowledge source.",
+        null,
+        StatusCodes.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // Re-chunks and re-embeds a source from its stored upload, optionally with new splitter settings
+  async reingestSource(
+    id: string,
+    splitterOverride: KnowledgeSplitterOverride | undefined,
+    requester: KnowledgeRequester,
+  ): Promise<ServiceResponse<KnowledgeSource | null>> {
+    try {
+      const stored = await this.knowledgeRepository.findSourceContentAsync(id);
+      if (!stored) {
+        return ServiceResponse.failure("Knowledge source not found", null, StatusCodes.NOT_FOUND);
+      }
+
+      const { source, content } = stored;
+      const denied = await this.checkAccess(source.sessionId, requester, true);
+      if (denied) return denied;
+      const splitter = this.resolveSplitter(source.splitter, splitterOverride);
+      if (!splitter.success) {
+        return ServiceResponse.failure(splitter.message, null, StatusCodes.BAD_REQUEST);
+      }
+
+      const chunks = await this.ingestor.split(
+        { content, contentType: source.contentType, filename: source.filename, title: source.title },
+        splitter.config,
+      );
+      await this.ingestor.replace(source.id, source.name, knowledgeNamespace(source.sessionId), chunks);
+      const updated = await this.knowledgeRepository.updateSourceChunksAsync(id, splitter.config, chunks.length);
+
+      return ServiceResponse.success<KnowledgeSource>("Knowledge source re-ingested", updated);
+    } catch (ex) {
+      const errorMessage = `Error re-ingesting knowledge source with id ${id}: ${(ex as Error).message}`;
+      logger.error(errorMessage);
+      return ServiceResponse.failure(
+        "An error occurred while re-ingesting knowledge source.",
+        null,
+        StatusCodes.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // Removes a source's chunks from the vector store and forgets the source
+  async deleteSource(id: string, requester: KnowledgeRequester): Promise<ServiceResponse<null>> {
+    try {
+      const source = await this.knowledgeRepository.findSourceByIdAsync(id);
+      if (!source) {
+        return ServiceResponse.failure("Knowledge source not found", null, StatusCodes.NOT_FOUND);
+      }
+      const denied = await this.checkAccess(source.sessionId, requester, true);
+      if (denied) return denied;
+
+      await this.ingestor.remove(id);
+      await this.knowledgeRepository.deleteSourceAsync(id);
+      return ServiceResponse.success("Knowledge source deleted", null);
+    } catch (ex) {
+      const errorMessage = `Error deleting knowledge source with id ${id}: ${(ex as Error).message}`;
+      logger.error(errorMessage);
+      return ServiceResponse.failure(
+        "An error occurred while deleting knowledge source.",
+        null,
+        StatusCodes.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // Global knowledge is read by everyone and changed by administrators only; a session's knowledge is
+  // limited to whoever may use the session. Returns the failure to send, or null when access is allowed
+  private async checkAccess(
+    sessionId: string | null,
+    requester: KnowledgeRequester,
+    change: boolean,
+  ): Promise<ServiceResponse<null> | null> {
+    if (!sessionId) {
+      return change && !requester.admin
+        ? ServiceResponse.failure("Only administrators can change the global knowledge", null, StatusCodes.FORBIDDEN)
+        : null;
+    }
+    const session = await this.knowledgeRepository.findSessionAsync(sessionId);
+    if (!session) {
+      return ServiceResponse.failure("Session not found", null, StatusCodes.NOT_FOUND);
+    }
+    return requester.admin || ownsSession(session, requester.userId)
+      ? null
+      : ServiceResponse.failure("The session belongs to another user", null, StatusCodes.FORBIDDEN);
+  }
+
+  private resolveSplitter(
+    base: SplitterConfig,
+    override?: KnowledgeSplitterOverride,
+  ): { success: true; config: SplitterConfig } | { success: false; message: string } {
+    const result = SplitterConfigSchema.safeParse({ ...base, ...override });
+    return result.success
+      ? { success: true, config: result.data }
+      : {
+          success: false,
+          message: `Invalid splitter settings: ${result.error.errors.map((e) => e.message).join(", ")}`,
+        };
+  }
+}
+
+export const knowledgeService = new KnowledgeService();
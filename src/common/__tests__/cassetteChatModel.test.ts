@@ -0,0 +1,102 @@
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { HumanMessage } from "@langchain/core/messages";
+import { StringOutputParser } from "@langchain/core/output_parsers";
+import { RunnableSequence } from "@langchain/core/runnables";
+
+import { type Cassette, CassetteChatModel, CassetteMissError } from "@/common/ai/cassettes/CassetteChatModel";
+import { ScriptedChatModel } from "@/common/ai/fakeProviders/ScriptedChatModel";
+import { elizaReplyGeneratorSystemPrompt } from "@/common/ai/systemPromtTemplates/elizaReplyGeneratorSystemPrompt";
+
+describe("CassetteChatModel", () => {
+  let directory: string;
+  let cassettePath: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "cassette-"));
+    cassettePath = join(directory, "conversation.json");
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const recorder = () =>
+    new CassetteChatModel({
+      mode: "record",
+      path: cassettePath,
+      model: new ScriptedChatModel({
+        responses: [
+          { match: "weather", response: "sunny" },
+          { match: "Delila", response: '{"reply": "Hi, what should your agent do?"}' },
+        ],
+      }),
+    });
+
+  it("records prompt and completion pairs to the cassette file", async () => {
+    await recorder().invoke([new HumanMessage("what is the weather?")]);
+
+    const cassette: Cassette = JSON.parse(readFileSync(cassettePath, "utf8"));
+    expect(cassette.interactions).toHaveLength(1);
+    expect(cassette.interactions[0]).toMatchObject({
+      prompt: [{ role: "human", content: "what is the weather?" }],
+      completion: { content: "sunny" },
+    });
+    expect(cassette.interactions[0].hash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("replays recorded completions for both invoke and stream", async () => {
+    const prompt = [new HumanMessage("what is the weather?")];
+    await recorder().invoke(prompt);
+
+    const replay = new CassetteChatModel({ mode: "replay", path: cassettePath });
+
+    expect((await replay.invoke(prompt)).content).toBe("sunny");
+    let streamed = "";
+    for await (const chunk of await replay.stream(prompt)) {
+      streamed += chunk.content;
+    }
+    expect(streamed).toBe("sunny");
+  });
+
+  it("replays a whole prompt chain offline", async () => {
+    const chain = (model: CassetteChatModel) =>
+      RunnableSequence.from([
+        {
+          messageHistory: () => "User Message: I want a Discord bot",
+          context: () => "",
+          characterFile: () => "{}",
+          interviewPlan: () => "Stage: persona (0% complete)",
+          formatInstructions: () => "Answer with JSON",
+        },
+        elizaReplyGeneratorSystemPrompt,
+        model,
+        new StringOutputParser(),
+      ]);
+    const recorded = await chain(recorder()).invoke("I want a Discord bot");
+
+    const replayed = await chain(new CassetteChatModel({ mode: "replay", path: cassettePath })).invoke(
+      "I want a Discord bot",
+    );
+
+    expect(replayed).toBe(recorded);
+  });
+
+  it("fails loudly when a prompt was not recorded", async () => {
+    await recorder().invoke([new HumanMessage("what is the weather?")]);
+
+    const replay = new CassetteChatModel({ mode: "replay", path: cassettePath });
+
+    await expect(replay.invoke([new HumanMessage("what is the weather tomorrow?")])).rejects.toThrow(CassetteMissError);
+  });
+
+  it("treats different call options as a different prompt", async () => {
+    const prompt = [new HumanMessage("what is the weather?")];
+    await recorder().invoke(prompt);
+
+    const replay = new CassetteChatModel({ mode: "replay", path: cassettePath });
+
+    await expect(replay.invoke(prompt, { stop: ["\n"] })).rejects.toThrow(CassetteMissError);
+  });
+});
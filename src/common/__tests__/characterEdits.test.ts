@@ -0,0 +1,91 @@
+import { RunnableLambda } from "@langchain/core/runnables";
+
+import { applyCharacterEdits, characterFields, editCharacterFile } from "@/common/ai/delilaElizaAgent/characterEdits";
+import { ScriptedChatModel } from "@/common/ai/fakeProviders/ScriptedChatModel";
+import { JsonPatchError } from "@/common/utils/jsonPatch";
+
+const characterFile = {
+  name: "Nova",
+  bio: ["Nova is a friendly community agent."],
+  topics: ["community", "open source"],
+  style: { all: ["friendly"], chat: [], post: [] },
+};
+
+const input = { messageHistory: "User Message: Make Nova curious", context: "", catalog: "", userMessage: "" };
+
+describe("characterEdits", () => {
+  it("sets, appends and removes values without changing the input", () => {
+    const edited = applyCharacterEdits(characterFile, [
+      { op: "set", path: "/name", value: "Nova Prime" },
+      { op: "set", path: "/settings/secrets/OPENAI_API_KEY", value: "" },
+      { op: "append", path: "/bio", value: "Nova loves sci-fi." },
+      { op: "append", path: "/adjectives", value: "curious" },
+      { op: "remove", path: "/topics/1" },
+    ]);
+
+    expect(edited).toEqual({
+      name: "Nova Prime",
+      bio: ["Nova is a friendly community agent.", "Nova loves sci-fi."],
+      topics: ["community"],
+      style: { all: ["friendly"], chat: [], post: [] },
+      settings: { secrets: { OPENAI_API_KEY: "" } },
+      adjectives: ["curious"],
+    });
+    expect(characterFile.name).toEqual("Nova");
+  });
+
+  it("reports the operation that cannot be applied", () => {
+    expect(() =>
+      applyCharacterEdits(characterFile, [
+        { op: "set", path: "/name", value: "Nova Prime" },
+        { op: "append", path: "/name", value: "Prime" },
+      ]),
+    ).toThrow(new JsonPatchError('Path "/name" is not an array', 1));
+    expect(() => applyCharacterEdits(characterFile, [{ op: "remove", path: "/lore" }])).toThrow(JsonPatchError);
+  });
+
+  it("describes the top-level fields for the edit prompt", () => {
+    expect(characterFields).toContain("name: string");
+    expect(characterFields).toContain("bio: string | string[]");
+  });
+
+  it("applies the operations the model answers with", async () => {
+    const model = new ScriptedChatModel({
+      responses: [
+        {
+          match: "character file editor",
+          response: { operations: [{ op: "append", path: "/bio", value: "Curious." }] },
+        },
+      ],
+    });
+
+    const result = await editCharacterFile(model, characterFile, input);
+
+    expect(result).toEqual({
+      characterFile: { ...characterFile, bio: [...characterFile.bio, "Curious."] },
+      operations: [{ op: "append", path: "/bio", value: "Curious." }],
+    });
+  });
+
+  it("accepts the parsed answer of a structured output model", async () => {
+    const model = RunnableLambda.from(() => ({ operations: [{ op: "set", path: "/name", value: "Nova Prime" }] }));
+
+    const result = await editCharacterFile(model, characterFile, input);
+
+    expect(result).toMatchObject({ characterFile: { name: "Nova Prime" } });
+  });
+
+  it("returns an error when the answer is not a list of applicable operations", async () => {
+    const notOperations = new ScriptedChatModel({ responses: [{ response: { name: "Nova" } }] });
+    const unreachable = new ScriptedChatModel({
+      responses: [{ response: { operations: [{ op: "remove", path: "/lore/0" }] } }],
+    });
+
+    expect(await editCharacterFile(notOperations, characterFile, input)).toEqual({
+      error: "The model did not answer with edit operations",
+    });
+    expect(await editCharacterFile(unreachable, characterFile, input)).toEqual({
+      error: expect.stringContaining("Operation 0"),
+    });
+  });
+});
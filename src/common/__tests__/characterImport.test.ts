@@ -0,0 +1,61 @@
+import { normalizeCharacterImport } from "@/common/ai/delilaElizaAgent/characterImport";
+
+describe("normalizeCharacterImport", () => {
+  it("drops unknown fields and defaults missing collections", () => {
+    const { characterFile, report } = normalizeCharacterImport({
+      name: "Trump",
+      modelProvider: "OpenAI",
+      clients: ["discord"],
+      bio: "A single bio line",
+      lore: ["lore"],
+      people: ["someone"],
+      style: { all: ["short"], chat: [], mood: "loud" },
+      settings: { secrets: { OPENAI_API_KEY: "" }, voice: { model: "en_US-male-medium", pitch: 2 } },
+      messageExamples: [[{ user: "{{user1}}", content: { text: "hi", mood: "happy" } }]],
+    });
+
+    expect(report.droppedFields).toEqual(["/people", "/style/mood", "/settings/voice/pitch"]);
+    expect(report.defaultedFields).toEqual(["/postExamples", "/topics", "/adjectives", "/plugins", "/style/post"]);
+    expect(report.invalidFields).toEqual([]);
+    expect(report.valid).toBe(true);
+    expect(characterFile).toMatchObject({
+      modelProvider: "openai",
+      clients: ["discord"],
+      bio: ["A single bio line"],
+      style: { all: ["short"], chat: [], post: [] },
+      // Message content accepts additional properties
+      messageExamples: [[{ user: "{{user1}}", content: { text: "hi", mood: "happy" } }]],
+    });
+    expect(characterFile).not.toHaveProperty("people");
+  });
+
+  it("drops unknown fields named like Object.prototype members", () => {
+    const { characterFile, report } = normalizeCharacterImport(
+      JSON.parse('{"name":"Bot","constructor":"x","toString":1,"__proto__":{"polluted":true}}'),
+    );
+
+    expect(report.droppedFields).toEqual(["/constructor", "/toString", "/__proto__"]);
+    expect(Object.keys(characterFile)).not.toContain("constructor");
+    expect(characterFile).not.toHaveProperty("polluted");
+  });
+
+  it("keeps invalid values and reports them for fixing", () => {
+    const { characterFile, report } = normalizeCharacterImport({
+      name: "Bot",
+      modelProvider: "not-a-provider",
+      bio: [],
+      topics: "crypto",
+    });
+
+    expect(report.valid).toBe(false);
+    expect(report.invalidFields.map((field) => field.path)).toEqual(["/modelProvider", "/topics"]);
+    expect(characterFile.topics).toEqual("crypto");
+  });
+
+  it("rejects input that is not an object", () => {
+    const { report } = normalizeCharacterImport(["not", "an", "object"]);
+
+    expect(report.valid).toBe(false);
+    expect(report.invalidFields).toHaveLength(1);
+  });
+});
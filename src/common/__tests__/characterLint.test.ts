@@ -0,0 +1,100 @@
+import { MIN_SECTION_ITEMS, lintCharacterFile } from "@/common/ai/delilaElizaAgent/characterLint";
+
+const items = (prefix: string) => Array.from({ length: MIN_SECTION_ITEMS }, (_, index) => `${prefix} ${index}`);
+
+const readyCharacterFile = {
+  name: "Nova",
+  modelProvider: "openai",
+  bio: items("bio"),
+  lore: items("lore"),
+  topics: items("topic"),
+  adjectives: items("adjective"),
+  messageExamples: items("example").map((text) => [{ user: "{{user1}}", content: { text } }]),
+  postExamples: items("post"),
+  style: { all: items("all"), chat: items("chat"), post: items("post") },
+  clients: ["telegram"],
+  plugins: [],
+  settings: { secrets: { OPENAI_API_KEY: "sk-test", TELEGRAM_BOT_TOKEN: "123:abc" } },
+};
+
+describe("lintCharacterFile", () => {
+  it("reports nothing for a character file that is ready to deploy", () => {
+    expect(lintCharacterFile(readyCharacterFile)).toEqual({
+      findings: [],
+      counts: { error: 0, warning: 0, info: 0 },
+      fixedCharacterFile: null,
+    });
+  });
+
+  it("checks section sizes, clients and secrets", () => {
+    const { findings } = lintCharacterFile({
+      ...readyCharacterFile,
+      lore: ["Only one"],
+      clients: [],
+      plugins: ["@elizaos/plugin-unknown"],
+      settings: { secrets: { OPENAI_API_KEY: "" } },
+    });
+
+    expect(findings).toEqual([
+      {
+        rule: "min-items",
+        severity: "warning",
+        path: "/lore",
+        message: `Has 1 items, needs at least ${MIN_SECTION_ITEMS}`,
+        fixable: false,
+      },
+      expect.objectContaining({ rule: "client-required", severity: "error", path: "/clients" }),
+      expect.objectContaining({ rule: "unknown-plugin", path: "/plugins/0" }),
+      expect.objectContaining({ rule: "empty-secret", severity: "error", path: "/settings/secrets/OPENAI_API_KEY" }),
+    ]);
+  });
+
+  it("applies the safe autofixes to a copy and reports them as fixable", () => {
+    const characterFile = {
+      ...readyCharacterFile,
+      name: " Nova ",
+      bio: "Nova is a friendly community agent.",
+      topics: [...readyCharacterFile.topics, "topic 0", "  ", " topic 10 "],
+      clients: ["telegram", "discord"],
+    };
+
+    const result = lintCharacterFile(characterFile);
+
+    expect(result.findings.filter((finding) => finding.fixable).map(({ rule, path }) => [rule, path])).toEqual([
+      ["trim-whitespace", "/name"],
+      ["bio-array", "/bio"],
+      ["duplicate-item", `/topics/${MIN_SECTION_ITEMS}`],
+      ["empty-item", `/topics/${MIN_SECTION_ITEMS + 1}`],
+      ["trim-whitespace", `/topics/${MIN_SECTION_ITEMS + 2}`],
+      ["missing-secret", "/settings/secrets/DISCORD_APPLICATION_ID"],
+      ["missing-secret", "/settings/secrets/DISCORD_API_TOKEN"],
+    ]);
+    expect(result.fixedCharacterFile).toMatchObject({
+      name: "Nova",
+      bio: ["Nova is a friendly community agent."],
+      topics: [...readyCharacterFile.topics, "topic 10"],
+      settings: { secrets: { DISCORD_APPLICATION_ID: "", DISCORD_API_TOKEN: "", TELEGRAM_BOT_TOKEN: "123:abc" } },
+    });
+    expect(characterFile.name).toEqual(" Nova ");
+    // The added placeholders are not reported again as empty secrets
+    expect(result.findings.some((finding) => finding.rule === "empty-secret")).toBe(false);
+  });
+
+  it("keeps reporting the secrets it added once the autofixed file is linted again", () => {
+    const result = lintCharacterFile({ ...readyCharacterFile, clients: ["telegram", "discord"] });
+
+    const relinted = lintCharacterFile(result.fixedCharacterFile);
+
+    expect(
+      relinted.findings.filter((finding) => finding.severity === "error").map(({ rule, path }) => [rule, path]),
+    ).toEqual([
+      ["empty-secret", "/settings/secrets/DISCORD_APPLICATION_ID"],
+      ["empty-secret", "/settings/secrets/DISCORD_API_TOKEN"],
+    ]);
+    expect(relinted.counts.error).toEqual(result.counts.error);
+  });
+
+  it("rejects input that is not an object", () => {
+    expect(lintCharacterFile("not json").findings).toEqual([expect.objectContaining({ rule: "not-an-object" })]);
+  });
+});
@@ -0,0 +1,57 @@
+import { parsePartialJson } from "@langchain/core/output_parsers";
+
+import {
+  type CharacterFieldEvent,
+  trackCharacterProgress,
+  withoutLastValue,
+} from "@/common/ai/delilaElizaAgent/characterProgress";
+
+describe("characterProgress", () => {
+  it("drops the value that may still be streaming, and containers it leaves empty", () => {
+    expect(withoutLastValue({ name: "Nova", bio: ["One", "Tw"] })).toEqual({ name: "Nova", bio: ["One"] });
+    expect(withoutLastValue({ name: "Nova", settings: { secrets: { KEY: "ab" } } })).toEqual({ name: "Nova" });
+    expect(withoutLastValue({ name: "No" })).toBeUndefined();
+  });
+
+  it("reports added items, set values and removals against the current character file", () => {
+    const events: CharacterFieldEvent[] = [];
+    const progress = trackCharacterProgress({ name: "Nova", bio: ["One"], topics: ["community"] }, (event) =>
+      events.push(event),
+    );
+
+    progress.update({ name: "Nova", bio: ["One", "Two"], settings: { secrets: { DISCORD_API_TOKEN: "" } } }, true);
+    expect(events).toEqual([
+      { path: "/bio/1", field: "bio[1]", change: "added", value: "Two" },
+      { path: "/settings", field: "settings", change: "set", value: { secrets: { DISCORD_API_TOKEN: "" } } },
+    ]);
+
+    events.length = 0;
+    progress.update({ name: "Nova", bio: ["One", "Two"], settings: { secrets: { DISCORD_API_TOKEN: "abc" } } }, false);
+    expect(events).toEqual([
+      { path: "/topics", field: "topics", change: "removed" },
+      {
+        path: "/settings/secrets/DISCORD_API_TOKEN",
+        field: "settings.secrets.DISCORD_API_TOKEN",
+        change: "set",
+        value: "abc",
+      },
+    ]);
+  });
+
+  it("reports each field once it is complete while the JSON streams in", () => {
+    const events: CharacterFieldEvent[] = [];
+    const progress = trackCharacterProgress({}, (event) => events.push(event));
+    const text = '{"name": "Nova", "bio": ["Friendly agent", "Loves sci-fi"]}';
+
+    for (let end = 1; end <= text.length; end++) {
+      progress.update(withoutLastValue(parsePartialJson(text.slice(0, end))), true);
+    }
+    progress.update(JSON.parse(text), false);
+
+    expect(events.map(({ field, change, value }) => ({ field, change, value }))).toEqual([
+      { field: "name", change: "set", value: "Nova" },
+      { field: "bio", change: "set", value: ["Friendly agent"] },
+      { field: "bio[1]", change: "added", value: "Loves sci-fi" },
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  applyRepairFixes,
+  parseCharacterDraft,
+  repairCharacterFile,
+  subSchemaAt,
+} from "@/common/ai/delilaElizaAgent/characterRepair";
+import { validateCharacterFile } from "@/common/ai/delilaElizaAgent/characterValidation";
+import { ScriptedChatModel } from "@/common/ai/fakeProviders/ScriptedChatModel";
+
+const characterFile = {
+  name: "Nova",
+  modelProvider: "openai",
+  bio: ["Nova is a friendly community agent."],
+  lore: ["Nova was created during a hackathon."],
+  messageExamples: [],
+  postExamples: [],
+  topics: ["community"],
+  adjectives: ["helpful"],
+  clients: [],
+  plugins: [],
+  style: { all: ["friendly"], chat: [], post: [] },
+};
+
+describe("characterRepair", () => {
+  it("finds the sub-schema of a failing path", () => {
+    expect(subSchemaAt("/style/chat")).toEqual({ type: "array", items: { type: "string" } });
+    expect(subSchemaAt("/style/chat/0")).toEqual({ type: "string" });
+    expect(subSchemaAt("/bio/0")).toEqual({ type: "string" });
+    expect(subSchemaAt("/notAField")).toBeNull();
+  });
+
+  it("parses JSON drafts with or without a code fence", () => {
+    expect(parseCharacterDraft('```json\n{"name": "Nova"}\n```')).toEqual({ name: "Nova" });
+    expect(parseCharacterDraft('Here it is: {"name": "Nova"}')).toEqual({ name: "Nova" });
+    expect(parseCharacterDraft({ name: "Nova" })).toEqual({ name: "Nova" });
+    expect(parseCharacterDraft("not json")).toEqual("not json");
+  });
+
+  it("replaces existing values, adds missing ones and skips unreachable paths", () => {
+    const { characterFile: fixed, applied } = applyRepairFixes({ name: 1, style: { all: [] } }, [
+      { path: "/name", value: "Nova" },
+      { path: "/style/chat", value: [] },
+      { path: "/missing/deep", value: true },
+    ]);
+
+    expect(fixed).toEqual({ name: "Nova", style: { all: [], chat: [] } });
+    expect(applied).toEqual(2);
+  });
+
+  it("sends only the failing fields to the model and applies its fixes", async () => {
+    const { modelProvider: _modelProvider, ...broken } = { ...characterFile, topics: "community" };
+    const validation = validateCharacterFile(broken);
+    if (validation.success) throw new Error("expected the character file to be invalid");
+    const model = new ScriptedChatModel({
+      responses: [
+        {
+          match: "character file repair expert",
+          response: {
+            fixes: [
+              { path: "/modelProvider", value: "openai" },
+              { path: "/topics", value: ["community"] },
+            ],
+          },
+        },
+      ],
+    });
+    const invoke = vi.spyOn(model, "invoke");
+
+    const result = await repairCharacterFile(model, broken, validation.errors, "User Message: make Nova");
+
+    const prompt = JSON.stringify(invoke.mock.calls[0][0]);
+    expect(prompt).toContain('path: \\"/topics\\"');
+    expect(prompt).toContain('path: \\"/modelProvider\\"');
+    expect(prompt).not.toContain("Nova was created during a hackathon");
+    expect(result.applied).toEqual(2);
+    expect(validateCharacterFile(result.characterFile).success).toBe(true);
+  });
+});
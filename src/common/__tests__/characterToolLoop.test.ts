@@ -0,0 +1,69 @@
+import { HumanMessage } from "@langchain/core/messages";
+
+import { bindToolsToModel } from "@/common/ai/delilaElizaAgent/AgentTools";
+import { runCharacterToolLoop } from "@/common/ai/delilaElizaAgent/characterToolLoop";
+import { ScriptedChatModel } from "@/common/ai/fakeProviders/ScriptedChatModel";
+
+const validCharacterFile = {
+  name: "Nova",
+  modelProvider: "openai",
+  bio: ["Nova is a friendly community agent."],
+  lore: ["Nova was created during a hackathon."],
+  messageExamples: [],
+  postExamples: [],
+  topics: ["community"],
+  adjectives: ["helpful"],
+  clients: [],
+  plugins: [],
+  style: { all: ["friendly"], chat: [], post: [] },
+};
+const { name: _name, ...missingName } = validCharacterFile;
+
+const toolModel = (responses: ConstructorParameters<typeof ScriptedChatModel>[0]) => {
+  const model = bindToolsToModel(new ScriptedChatModel(responses));
+  if (!model) throw new Error("ScriptedChatModel should support tools");
+  return model;
+};
+
+describe("runCharacterToolLoop", () => {
+  it("sends validation errors back to the model until the character file is valid", async () => {
+    const model = toolModel({
+      responses: [
+        {
+          match: "validation failed",
+          toolCalls: [{ name: "validate_character_file", args: validCharacterFile }],
+        },
+        { toolCalls: [{ name: "validate_character_file", args: missingName }] },
+      ],
+    });
+
+    const result = await runCharacterToolLoop(model, [new HumanMessage("Build Nova")], { maxSteps: 4 });
+
+    expect(result.valid).toBe(true);
+    expect(result.characterFile).toMatchObject({ name: "Nova" });
+    expect(result.steps).toHaveLength(2);
+    expect(result.steps[0].toolCall).toMatchObject({ name: "validate_character_file", args: missingName });
+    expect(result.steps[0].result).toContain("Path: name");
+  });
+
+  it("gives up after the maximum number of steps", async () => {
+    const model = toolModel({
+      responses: [{ toolCalls: [{ name: "validate_character_file", args: missingName }] }],
+    });
+
+    const result = await runCharacterToolLoop(model, [new HumanMessage("Build Nova")], { maxSteps: 3 });
+
+    expect(result.valid).toBe(false);
+    expect(result.steps).toHaveLength(3);
+    expect(result.modelCalls).toEqual(3);
+    expect(result.characterFile).toEqual(missingName);
+  });
+
+  it("returns the text answer when the model does not call the tool", async () => {
+    const model = toolModel({ responses: [{ response: validCharacterFile }] });
+
+    const result = await runCharacterToolLoop(model, [new HumanMessage("Build Nova")], { maxSteps: 3 });
+
+    expect(result).toEqual({ characterFile: validCharacterFile, valid: false, steps: [], modelCalls: 1 });
+  });
+});
@@ -0,0 +1,70 @@
+import { randomBytes } from "node:crypto";
+
+import {
+  credentialHint,
+  decryptCredential,
+  encryptCredential,
+  parseMasterKey,
+} from "@/common/utils/credentialEncryption";
+import { redactApiKeys, redactError, redactSecrets } from "@/common/utils/redactSecrets";
+
+const apiKey = "sk-user-0123456789abcdefWXYZ";
+
+describe("credentialEncryption", () => {
+  const masterKey = randomBytes(32);
+
+  it("encrypts with a fresh IV and decrypts with the same key and context", () => {
+    const first = encryptCredential(apiKey, masterKey, "user-1:OPENAI");
+    const second = encryptCredential(apiKey, masterKey, "user-1:OPENAI");
+
+    expect(first.ciphertext).not.toContain(apiKey);
+    expect(first.iv).not.toEqual(second.iv);
+    expect(decryptCredential(first, masterKey, "user-1:OPENAI")).toEqual(apiKey);
+  });
+
+  it("does not decrypt with another context or master key", () => {
+    const encrypted = encryptCredential(apiKey, masterKey, "user-1:OPENAI");
+
+    expect(() => decryptCredential(encrypted, masterKey, "user-2:OPENAI")).toThrow();
+    expect(() => decryptCredential(encrypted, randomBytes(32), "user-1:OPENAI")).toThrow();
+  });
+
+  it("parses hex and base64 master keys of 32 bytes only", () => {
+    expect(parseMasterKey(masterKey.toString("hex"))).toEqual(masterKey);
+    expect(parseMasterKey(masterKey.toString("base64"))).toEqual(masterKey);
+    expect(() => parseMasterKey("too-short")).toThrow("CREDENTIALS_MASTER_KEY must be 32 bytes");
+  });
+
+  it("hints at the last characters of long keys only", () => {
+    expect(credentialHint(apiKey)).toEqual("…WXYZ");
+    expect(credentialHint("short-key")).toEqual("…");
+  });
+});
+
+describe("redactSecrets", () => {
+  it("removes the given secrets wherever they appear", () => {
+    expect(redactSecrets(`my key is ${apiKey}, use ${apiKey}`, [apiKey])).toEqual(
+      "my key is [REDACTED], use [REDACTED]",
+    );
+    expect(redactSecrets("nothing to hide", [apiKey, "abc"])).toEqual("nothing to hide");
+  });
+
+  it("removes key-shaped tokens from error messages, also when partly masked", () => {
+    expect(redactApiKeys("Incorrect API key provided: sk-proj-****************WXYZ.")).toEqual(
+      "Incorrect API key provided: [REDACTED].",
+    );
+  });
+
+  it("logs errors without the request they carry or any key", () => {
+    const error = Object.assign(new Error(`401 Incorrect API key provided: ${apiKey}`), {
+      headers: { authorization: "Bearer self-hosted-token" },
+    });
+
+    const logged = redactError(error, ["self-hosted-token"]);
+
+    expect(logged).toContain("401 Incorrect API key provided: [REDACTED]");
+    expect(logged).not.toContain(apiKey);
+    expect(logged).not.toContain("self-hosted-token");
+    expect(redactError(`failed with ${apiKey}`)).toEqual("failed with [REDACTED]");
+  });
+});
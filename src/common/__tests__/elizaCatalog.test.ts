@@ -0,0 +1,63 @@
+import { agentToolExecutors } from "@/common/ai/delilaElizaAgent/AgentTools";
+import {
+  elizaCatalog,
+  findCatalogEntries,
+  formatCatalogForPrompt,
+  relevantCatalogEntries,
+} from "@/common/ai/delilaElizaAgent/elizaCatalog";
+
+describe("elizaCatalog", () => {
+  it("has one entry per name with the client package naming", () => {
+    const names = elizaCatalog.entries.map((entry) => entry.name);
+
+    expect(new Set(names).size).toEqual(names.length);
+    expect(findCatalogEntries({ kind: "client" }).every((entry) => entry.package.startsWith("@elizaos/client-"))).toBe(
+      true,
+    );
+    expect(findCatalogEntries({ kind: "plugin" }).every((entry) => entry.name === entry.package)).toBe(true);
+  });
+
+  it("finds entries by secret key and keyword", () => {
+    expect(findCatalogEntries({ query: "TAVILY_API_KEY" }).map((entry) => entry.name)).toEqual([
+      "@elizaos/plugin-web-search",
+    ]);
+    expect(findCatalogEntries({ kind: "plugin", query: "solana" }).map((entry) => entry.name)).toContain(
+      "@elizaos/plugin-solana",
+    );
+  });
+
+  it("picks entries mentioned in the conversation or already used by the character file", () => {
+    const entries = relevantCatalogEntries("user: it should post on Discord and trade memecoins", {
+      clients: ["telegram"],
+      plugins: [],
+    });
+
+    expect(entries.map((entry) => entry.name)).toEqual(["discord", "telegram", "@elizaos/plugin-solana"]);
+  });
+
+  it("describes relevant entries with their secrets and clientConfig in the prompt", () => {
+    const prompt = formatCatalogForPrompt(findCatalogEntries({ query: "discord" }));
+
+    expect(prompt).toContain(`Catalog version ${elizaCatalog.version}`);
+    expect(prompt).toContain("Known plugins: @elizaos/plugin-bootstrap");
+    expect(prompt).toContain("required secrets: DISCORD_APPLICATION_ID, DISCORD_API_TOKEN");
+    expect(prompt).toContain("clientConfig.discord:");
+    expect(prompt).not.toContain("TELEGRAM_BOT_TOKEN");
+  });
+
+  it("is available to the model as the lookup_eliza_catalog tool", async () => {
+    const result = JSON.parse(await agentToolExecutors.lookup_eliza_catalog({ query: "telegram", kind: "client" }));
+
+    expect(result.version).toEqual(elizaCatalog.version);
+    expect(result.entries).toHaveLength(1);
+    expect(result.entries[0]).toMatchObject({ name: "telegram", secrets: { required: ["TELEGRAM_BOT_TOKEN"] } });
+  });
+
+  it("returns invalid lookup arguments to the model instead of throwing", async () => {
+    const result = await agentToolExecutors.lookup_eliza_catalog({ query: 42, kind: "adapter" });
+
+    expect(result).toContain("Invalid lookup_eliza_catalog arguments");
+    expect(result).toContain("query: Expected string, received number");
+    expect(result).toContain("kind: Invalid enum value");
+  });
+});
@@ -0,0 +1,58 @@
+import { HumanMessage } from "@langchain/core/messages";
+
+import { HashEmbeddings } from "@/common/ai/fakeProviders/HashEmbeddings";
+import { ScriptedChatModel } from "@/common/ai/fakeProviders/ScriptedChatModel";
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, value, index) => sum + value * b[index], 0);
+
+describe("ScriptedChatModel", () => {
+  it("answers with the first fixture whose match appears in the prompt", async () => {
+    const model = new ScriptedChatModel({
+      responses: [{ match: "weather", response: "sunny" }, { response: { reply: "fallback" } }],
+    });
+
+    expect((await model.invoke([new HumanMessage("what is the weather?")])).content).toBe("sunny");
+    expect((await model.invoke([new HumanMessage("hello")])).content).toBe('{"reply":"fallback"}');
+  });
+
+  it("streams the scripted response in chunks", async () => {
+    const model = new ScriptedChatModel({ responses: [{ response: "abcdefghij" }], chunkSize: 4 });
+
+    const chunks: string[] = [];
+    for await (const chunk of await model.stream("anything")) {
+      chunks.push(chunk.content as string);
+    }
+
+    expect(chunks).toEqual(["abcd", "efgh", "ij"]);
+  });
+
+  it("fails loudly when no fixture matches", async () => {
+    const model = new ScriptedChatModel({ responses: [{ match: "weather", response: "sunny" }] });
+
+    await expect(model.invoke("hello")).rejects.toThrow("No fake LLM response matches");
+  });
+});
+
+describe("HashEmbeddings", () => {
+  it("returns the same normalized vector for the same text", async () => {
+    const embeddings = new HashEmbeddings({ dimensions: 64 });
+
+    const [first, second] = await embeddings.embedDocuments(["Twitter bot", "twitter BOT"]);
+
+    expect(first).toHaveLength(64);
+    expect(first).toEqual(second);
+    expect(cosine(first, first)).toBeCloseTo(1);
+  });
+
+  it("places texts that share words closer together", async () => {
+    const embeddings = new HashEmbeddings();
+
+    const query = await embeddings.embedQuery("discord community moderator");
+    const [related, unrelated] = await embeddings.embedDocuments([
+      "a moderator for a discord community",
+      "solana token price alerts",
+    ]);
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+});
@@ -0,0 +1,116 @@
+import { Document } from "@langchain/core/documents";
+
+import { EmbeddingProvider } from "@/common/ai/EmbeddingManager";
+import { VectorStoreManager, VectorStoreProvider } from "@/common/ai/VectorStoreManager";
+import { HashEmbeddings } from "@/common/ai/fakeProviders/HashEmbeddings";
+import { bm25Search, reciprocalRankFusion, tokenize } from "@/common/ai/knowledge/hybridSearch";
+import { HeuristicReranker } from "@/common/ai/knowledge/rerankers";
+
+const doc = (pageContent: string, sourceId = pageContent) => new Document({ pageContent, metadata: { sourceId } });
+
+describe("hybrid search helpers", () => {
+  it("keeps identifiers whole and also splits them into their parts", () => {
+    expect(tokenize("Add @elizaos/plugin-solana and TWITTER_USERNAME.")).toEqual([
+      "add",
+      "elizaos",
+      "plugin",
+      "solana",
+      "@elizaos/plugin-solana",
+      "and",
+      "twitter",
+      "username",
+      "twitter_username",
+    ]);
+  });
+
+  it("ranks documents containing rare query terms first with BM25", () => {
+    const documents = [
+      doc("The discord client needs a token"),
+      doc("The telegram client needs a token"),
+      doc("Plugins are listed in the character file"),
+    ];
+
+    const results = bm25Search(documents, "telegram token", 10);
+
+    expect(results.map(([document]) => document.pageContent)).toEqual([
+      "The telegram client needs a token",
+      "The discord client needs a token",
+    ]);
+  });
+
+  it("fuses rankings so documents found by both retrievers come first", () => {
+    const a = doc("a");
+    const b = doc("b");
+    const c = doc("c");
+
+    const fused = reciprocalRankFusion(
+      {
+        vector: [
+          [a, 0.9],
+          [b, 0.8],
+        ],
+        lexical: [
+          [c, 4],
+          [b, 2],
+        ],
+      },
+      (document) => document.pageContent,
+    );
+
+    expect(fused.map((result) => result.document.pageContent)).toEqual(["b", "a", "c"]);
+    expect(fused[0]).toMatchObject({ vectorScore: 0.8, lexicalScore: 2 });
+    expect(fused[2].vectorScore).toBeUndefined();
+  });
+});
+
+describe("VectorStoreManager.hybridSearch", () => {
+  it("finds exact plugin names lexically, within the filtered namespace only", async () => {
+    const vectorStore = new VectorStoreManager({ provider: VectorStoreProvider.MEMORY }, new HashEmbeddings());
+    const filler = Array.from({ length: 12 }, (_, index) =>
+      doc(`Agents can add plugins to extend what they can do, example ${index}`, `filler-${index}`),
+    );
+    await vectorStore.addDocuments([
+      ...filler.map((document) => ({ ...document, metadata: { ...document.metadata, namespace: "global" } })),
+      new Document({
+        pageContent: "@elizaos/plugin-solana requires SOLANA_PRIVATE_KEY",
+        metadata: { sourceId: "solana", namespace: "global" },
+      }),
+      new Document({
+        pageContent: "@elizaos/plugin-solana setup for another session",
+        metadata: { sourceId: "other", namespace: "session:b" },
+      }),
+    ]);
+
+    const results = await vectorStore.hybridSearch("add the @elizaos/plugin-solana plugin", 3, { namespace: "global" });
+
+    expect(results.map((result) => result.document.metadata.sourceId)).toContain("solana");
+    expect(results.find((result) => result.document.metadata.sourceId === "solana")?.lexicalScore).toBeGreaterThan(0);
+    expect(results.every((result) => result.document.metadata.namespace === "global")).toBe(true);
+  });
+});
+
+describe("HeuristicReranker", () => {
+  it("puts exact identifier matches first and scores between 0 and 1", async () => {
+    const candidates = [
+      { document: doc("Clients connect the agent to chat platforms"), score: 0.033 },
+      { document: doc("Set DISCORD_API_TOKEN in settings.secrets for the discord client"), score: 0.016 },
+      { document: doc("The discord client posts to channels"), score: 0.03 },
+    ];
+
+    const reranked = await new HeuristicReranker().rerank("which secret does the DISCORD_API_TOKEN need", candidates);
+
+    expect(reranked[0].document.pageContent).toContain("DISCORD_API_TOKEN");
+    expect(reranked.every((result) => result.score >= 0 && result.score <= 1)).toBe(true);
+  });
+});
+
+describe("VectorStoreManager.getInstance", () => {
+  it("keeps one store per vector store and embedding configuration", () => {
+    const memory = { provider: VectorStoreProvider.MEMORY };
+    const hashA = { provider: EmbeddingProvider.FAKE, apiKey: "", modelName: "hash-a" };
+    const first = VectorStoreManager.getInstance(memory, hashA);
+
+    expect(VectorStoreManager.getInstance({ ...memory }, { ...hashA })).toBe(first);
+    expect(VectorStoreManager.getInstance(memory, { ...hashA, modelName: "hash-b" })).not.toBe(first);
+  });
+});
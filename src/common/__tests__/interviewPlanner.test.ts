@@ -0,0 +1,69 @@
+import { createEmptyCharacterFile } from "@/common/ai/delilaElizaAgent/characterConfig";
+import { MIN_SECTION_ITEMS } from "@/common/ai/delilaElizaAgent/characterLint";
+import { MAX_PLANNED_FIELDS, formatInterviewPlan, planInterview } from "@/common/ai/delilaElizaAgent/interviewPlanner";
+
+const items = (prefix: string) => Array.from({ length: MIN_SECTION_ITEMS }, (_, index) => `${prefix} ${index}`);
+
+const completeCharacterFile = {
+  ...createEmptyCharacterFile(),
+  name: "Nova",
+  modelProvider: "openai",
+  bio: items("bio"),
+  lore: items("lore"),
+  topics: items("topic"),
+  adjectives: items("adjective"),
+  messageExamples: items("example").map((text) => [{ user: "{{user1}}", content: { text } }]),
+  postExamples: items("post"),
+  style: { all: items("all"), chat: items("chat"), post: items("post") },
+  clients: ["telegram"],
+  settings: { secrets: { OPENAI_API_KEY: "sk-test", TELEGRAM_BOT_TOKEN: "123:abc" } },
+};
+
+describe("planInterview", () => {
+  it("starts with the persona of an empty character file", () => {
+    const plan = planInterview(createEmptyCharacterFile());
+
+    expect(plan.stage).toEqual("persona");
+    expect(plan.progress).toEqual(0);
+    expect(plan.missing).toHaveLength(MAX_PLANNED_FIELDS);
+    expect(plan.missing.map((field) => field.path)).toEqual(["/name", "/bio", "/lore"]);
+    expect(plan.remaining).toBeGreaterThan(MAX_PLANNED_FIELDS);
+  });
+
+  it("moves to a later stage only once the earlier ones are complete", () => {
+    const plan = planInterview({ ...completeCharacterFile, lore: ["Only one"], clients: [] });
+    expect(plan.stage).toEqual("persona");
+    expect(plan.missing[0]).toMatchObject({ stage: "persona", path: "/lore" });
+
+    const platforms = planInterview({ ...completeCharacterFile, clients: [] });
+    expect(platforms.stage).toEqual("platforms");
+    expect(platforms.missing).toEqual([expect.objectContaining({ path: "/clients" })]);
+  });
+
+  it("asks for the secrets of the chosen clients in the keys stage", () => {
+    const plan = planInterview({ ...completeCharacterFile, clients: ["telegram", "discord"] });
+
+    expect(plan.stage).toEqual("keys");
+    expect(plan.missing.map((field) => field.path)).toEqual([
+      "/settings/secrets/DISCORD_APPLICATION_ID",
+      "/settings/secrets/DISCORD_API_TOKEN",
+    ]);
+    expect(plan.progress).toBeGreaterThan(80);
+    expect(plan.progress).toBeLessThan(95);
+  });
+
+  it("reviews a complete character file once before moving to deploy", () => {
+    const review = planInterview(completeCharacterFile, "keys");
+    expect(review).toEqual({ stage: "review", progress: 95, missing: [], remaining: 0 });
+
+    const deploy = planInterview(completeCharacterFile, review.stage);
+    expect(deploy).toMatchObject({ stage: "deploy", progress: 100 });
+  });
+
+  it("renders the plan for the reply prompt", () => {
+    const text = formatInterviewPlan(planInterview({ ...completeCharacterFile, clients: [] }));
+
+    expect(text).toContain("Stage: platforms");
+    expect(text).toContain("- clients: Add at least one client");
+  });
+});
@@ -0,0 +1,48 @@
+import { diffJson } from "@/common/utils/jsonDiff";
+
+describe("diffJson", () => {
+  it("returns no changes for equal values", () => {
+    expect(diffJson({ name: "Delila", bio: ["a", "b"] }, { name: "Delila", bio: ["a", "b"] })).toEqual([]);
+  });
+
+  it("reports added, removed and replaced object keys", () => {
+    const before = { name: "Delila", modelProvider: "openai", email: "d@example.com" };
+    const after = { name: "Delila", modelProvider: "anthropic", username: "delila" };
+
+    expect(diffJson(before, after)).toEqual([
+      { op: "replace", path: "/modelProvider", value: "anthropic", oldValue: "openai" },
+      { op: "remove", path: "/email", oldValue: "d@example.com" },
+      { op: "add", path: "/username", value: "delila" },
+    ]);
+  });
+
+  it("diffs arrays by index and removes trailing items from the end", () => {
+    expect(diffJson({ bio: ["a", "b", "c", "d"] }, { bio: ["a", "x"] })).toEqual([
+      { op: "replace", path: "/bio/1", value: "x", oldValue: "b" },
+      { op: "remove", path: "/bio/3", oldValue: "d" },
+      { op: "remove", path: "/bio/2", oldValue: "c" },
+    ]);
+    expect(diffJson(["a"], ["a", "b"])).toEqual([{ op: "add", path: "/1", value: "b" }]);
+  });
+
+  it("recurses into nested objects and escapes pointer tokens", () => {
+    const before = { settings: { secrets: { "a/b": "1" } } };
+    const after = { settings: { secrets: { "a/b": "2", "c~d": "3" } } };
+
+    expect(diffJson(before, after)).toEqual([
+      { op: "replace", path: "/settings/secrets/a~1b", value: "2", oldValue: "1" },
+      { op: "add", path: "/settings/secrets/c~0d", value: "3" },
+    ]);
+  });
+
+  it("treats keys named like Object.prototype members as ordinary keys", () => {
+    expect(diffJson({ constructor: "a" }, {})).toEqual([{ op: "remove", path: "/constructor", oldValue: "a" }]);
+    expect(diffJson({}, { toString: "b" })).toEqual([{ op: "add", path: "/toString", value: "b" }]);
+  });
+
+  it("replaces values whose type changes", () => {
+    expect(diffJson({ bio: "single" }, { bio: ["single"] })).toEqual([
+      { op: "replace", path: "/bio", value: ["single"], oldValue: "single" },
+    ]);
+  });
+});
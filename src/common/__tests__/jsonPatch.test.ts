@@ -0,0 +1,83 @@
+import { JsonPatchError, applyJsonPatch, applyMergePatch } from "@/common/utils/jsonPatch";
+
+describe("applyJsonPatch", () => {
+  const document = {
+    name: "Delila",
+    bio: ["friendly", "curious"],
+    settings: { secrets: { OPENAI_API_KEY: "" } },
+  };
+
+  it("applies add, remove and replace operations without mutating the input", () => {
+    const result = applyJsonPatch(document, [
+      { op: "replace", path: "/name", value: "Delilah" },
+      { op: "add", path: "/bio/-", value: "witty" },
+      { op: "add", path: "/bio/0", value: "kind" },
+      { op: "remove", path: "/settings/secrets/OPENAI_API_KEY" },
+    ]);
+
+    expect(result).toEqual({
+      name: "Delilah",
+      bio: ["kind", "friendly", "curious", "witty"],
+      settings: { secrets: {} },
+    });
+    expect(document.bio).toEqual(["friendly", "curious"]);
+  });
+
+  it("applies move, copy and test operations", () => {
+    const result = applyJsonPatch(document, [
+      { op: "test", path: "/bio/1", value: "curious" },
+      { op: "copy", from: "/bio/0", path: "/adjectives" },
+      { op: "move", from: "/name", path: "/username" },
+    ]);
+
+    expect(result).toEqual({
+      username: "Delila",
+      bio: ["friendly", "curious"],
+      adjectives: "friendly",
+      settings: { secrets: { OPENAI_API_KEY: "" } },
+    });
+  });
+
+  it("throws a JsonPatchError naming the failing operation", () => {
+    expect(() =>
+      applyJsonPatch(document, [
+        { op: "replace", path: "/name", value: "x" },
+        { op: "replace", path: "/missing", value: "x" },
+      ]),
+    ).toThrow(new JsonPatchError('Path "/missing" does not exist', 1));
+    expect(() => applyJsonPatch(document, [{ op: "test", path: "/name", value: "Other" }])).toThrow(JsonPatchError);
+    expect(() => applyJsonPatch(document, [{ op: "add", path: "/bio/5", value: "x" }])).toThrow(JsonPatchError);
+  });
+
+  it("adds a __proto__ member as data instead of replacing the prototype", () => {
+    const result = applyJsonPatch<{ settings: Record<string, unknown> }>({ settings: {} }, [
+      { op: "add", path: "/settings/__proto__", value: { polluted: true } },
+    ]);
+
+    expect(Object.getPrototypeOf(result.settings)).toBe(Object.prototype);
+    expect(result.settings.polluted).toBeUndefined();
+    expect(Object.keys(result.settings)).toEqual(["__proto__"]);
+  });
+});
+
+describe("applyMergePatch", () => {
+  it("merges objects, replaces arrays and removes null members", () => {
+    const result = applyMergePatch(
+      { name: "Delila", bio: ["a", "b"], settings: { secrets: { A: "1", B: "2" } } },
+      { bio: ["c"], settings: { secrets: { A: null, C: "3" } } },
+    );
+
+    expect(result).toEqual({ name: "Delila", bio: ["c"], settings: { secrets: { B: "2", C: "3" } } });
+  });
+
+  it("stores a __proto__ member as data instead of replacing the prototype", () => {
+    const result = applyMergePatch<Record<string, unknown>>(
+      { name: "Delila" },
+      JSON.parse('{"__proto__":{"polluted":true}}'),
+    );
+
+    expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+    expect(result.polluted).toBeUndefined();
+    expect(Object.getOwnPropertyDescriptor(result, "__proto__")?.value).toEqual({ polluted: true });
+  });
+});
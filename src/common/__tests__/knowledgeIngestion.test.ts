@@ -0,0 +1,182 @@
+import { VectorStoreManager, VectorStoreProvider } from "@/common/ai/VectorStoreManager";
+import { HashEmbeddings } from "@/common/ai/fakeProviders/HashEmbeddings";
+import { KnowledgeIngestor } from "@/common/ai/knowledge/KnowledgeIngestor";
+import {
+  KnowledgeLoadError,
+  loadKnowledgeDocuments,
+  resolveKnowledgeContentType,
+} from "@/common/ai/knowledge/knowledgeLoaders";
+import { knowledgeNamespace, retrieveKnowledge } from "@/common/ai/knowledge/knowledgeRetrieval";
+import { PassthroughReranker } from "@/common/ai/knowledge/rerankers";
+
+// Builds a one page PDF with a valid cross-reference table
+const buildPdf = (text: string): Buffer => {
+  const stream = `BT /F1 12 Tf 72 712 Td (${text}) Tj ET`;
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>",
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+  ];
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, "latin1");
+};
+
+describe("knowledge loaders", () => {
+  it("resolves the content type from the declared type or the extension", () => {
+    expect(resolveKnowledgeContentType("notes.md")).toBe("text/markdown");
+    expect(resolveKnowledgeContentType("data", "application/json; charset=utf-8")).toBe("application/json");
+    expect(resolveKnowledgeContentType("paper.PDF")).toBe("application/pdf");
+    expect(resolveKnowledgeContentType("image.png")).toBeNull();
+  });
+
+  it("pretty-prints JSON uploads and rejects malformed JSON", async () => {
+    const [document] = await loadKnowledgeDocuments(Buffer.from('{"token":"DELI"}'), "application/json");
+    expect(document.pageContent).toBe('{\n  "token": "DELI"\n}');
+
+    await expect(loadKnowledgeDocuments(Buffer.from("{oops"), "application/json")).rejects.toThrow(KnowledgeLoadError);
+  });
+
+  it("extracts the text of PDF pages", async () => {
+    const documents = await loadKnowledgeDocuments(buildPdf("Delila knows about ElizaOS"), "application/pdf");
+
+    expect(documents).toHaveLength(1);
+    expect(documents[0].pageContent).toContain("Delila knows about ElizaOS");
+    expect(documents[0].metadata.loc.pageNumber).toBe(1);
+  });
+});
+
+describe("KnowledgeIngestor", () => {
+  let vectorStore: VectorStoreManager;
+  let ingestor: KnowledgeIngestor;
+
+  beforeEach(() => {
+    vectorStore = new VectorStoreManager({ provider: VectorStoreProvider.MEMORY }, new HashEmbeddings());
+    ingestor = new KnowledgeIngestor(() => vectorStore);
+  });
+
+  const markdown = Buffer.from(
+    "# Twitter client\nThe twitter client needs TWITTER_USERNAME and TWITTER_PASSWORD.\n\n" +
+      "# Discord client\nThe discord client needs DISCORD_API_TOKEN.\n",
+  );
+
+  it("splits uploads into chunks with source metadata", async () => {
+    const chunks = await ingestor.split(
+      { content: markdown, contentType: "text/markdown", filename: "clients.md", title: "Clients" },
+      { type: "markdown", chunkSize: 80, chunkOverlap: 0 },
+    );
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[0].metadata).toEqual({
+      filename: "clients.md",
+      contentType: "text/markdown",
+      title: "Clients",
+      chunkIndex: 0,
+    });
+  });
+
+  it("replaces and removes the chunks of one source only", async () => {
+    const split = (filename: string) =>
+      ingestor.split(
+        { content: markdown, contentType: "text/markdown", filename },
+        { type: "markdown", chunkSize: 80, chunkOverlap: 0 },
+      );
+    await ingestor.replace("source-a", "a.md", "global", await split("a.md"));
+    await ingestor.replace("source-b", "b.md", "global", await split("b.md"));
+    await ingestor.replace("source-a", "a.md", "global", await split("a.md"));
+
+    const sourcesOf = async () =>
+      (await vectorStore.getVectorStore().similaritySearch("discord token", 100)).map((doc) => doc.metadata.sourceId);
+    const before = await sourcesOf();
+    expect(before.filter((id) => id === "source-a")).toHaveLength(before.length / 2);
+
+    await ingestor.remove("source-a");
+
+    const after = await sourcesOf();
+    expect(after.length).toBe(before.length / 2);
+    expect(after.every((id) => id === "source-b")).toBe(true);
+  });
+});
+
+describe("retrieveKnowledge", () => {
+  let vectorStore: VectorStoreManager;
+  let ingestor: KnowledgeIngestor;
+  const reranker = new PassthroughReranker();
+
+  const ingest = async (sourceId: string, sessionId: string | null, text: string) => {
+    const chunks = await ingestor.split(
+      { content: Buffer.from(text), contentType: "text/plain", filename: `${sourceId}.txt` },
+      { type: "recursive", chunkSize: 1000, chunkOverlap: 0 },
+    );
+    await ingestor.replace(sourceId, `${sourceId}.txt`, knowledgeNamespace(sessionId), chunks);
+  };
+
+  beforeEach(async () => {
+    vectorStore = new VectorStoreManager({ provider: VectorStoreProvider.MEMORY }, new HashEmbeddings());
+    ingestor = new KnowledgeIngestor(() => vectorStore);
+    await ingest("eliza-docs", null, "ElizaOS agents are configured with a character file");
+    await ingest("plugin-docs", null, "The discord plugin needs a discord token");
+    await ingest("project-a", "session-a", "Project A trades memecoins on discord");
+    await ingest("project-b", "session-b", "Project B is a discord bot for a secret launch");
+  });
+
+  it("combines global knowledge with the session's own uploads only", async () => {
+    const chunks = await retrieveKnowledge(vectorStore, "discord bot", "session-a", {
+      globalK: 5,
+      sessionK: 5,
+      minScore: -1,
+      candidates: 20,
+      reranker,
+    });
+
+    const sources = chunks.map((chunk) => chunk.document.metadata.sourceId);
+    expect(sources).toHaveLength(3);
+    expect(sources).toEqual(expect.arrayContaining(["eliza-docs", "plugin-docs", "project-a"]));
+    expect(sources).not.toContain("project-b");
+    expect(chunks.map((chunk) => chunk.score)).toEqual([...chunks.map((chunk) => chunk.score)].sort((a, b) => b - a));
+  });
+
+  it("respects k per namespace and the score threshold", async () => {
+    const limited = await retrieveKnowledge(vectorStore, "discord token", "session-b", {
+      globalK: 1,
+      sessionK: 0,
+      minScore: -1,
+      candidates: 20,
+      reranker,
+    });
+    expect(limited.map((chunk) => chunk.document.metadata.sourceId)).toEqual(["plugin-docs"]);
+
+    // No chunk contains these words, so every candidate comes from vector search alone
+    const strict = await retrieveKnowledge(vectorStore, "weather forecast", "session-b", {
+      globalK: 5,
+      sessionK: 5,
+      minScore: 1.01,
+      candidates: 20,
+      reranker,
+    });
+    expect(strict).toHaveLength(0);
+  });
+
+  it("removes every chunk of a session namespace", async () => {
+    await ingestor.removeNamespace(knowledgeNamespace("session-a"));
+
+    const chunks = await retrieveKnowledge(vectorStore, "memecoins", "session-a", {
+      globalK: 0,
+      sessionK: 5,
+      minScore: -1,
+      candidates: 20,
+      reranker,
+    });
+    expect(chunks).toHaveLength(0);
+  });
+});
@@ -0,0 +1,154 @@
+import type { ChatOpenAI } from "@langchain/openai";
+import { z } from "zod";
+
+import { LLMModelManager, LLMProviders } from "@/common/ai/LLMModelManager";
+import { ClientRegistry, circuitKey, registryKey } from "@/common/ai/providerRegistry";
+import { ResilientChatModel } from "@/common/ai/resilience/ResilientChatModel";
+
+const selfHosted = {
+  provider: LLMProviders.OPENAI_COMPATIBLE,
+  apiKey: "",
+  modelName: "llama3.1:8b",
+  baseURL: "http://localhost:11434/v1",
+  enableTools: true,
+};
+
+describe("LLMModelManager.getInstance", () => {
+  it("keeps one manager per provider, model and options", () => {
+    const config = { provider: LLMProviders.FAKE, apiKey: "", modelName: "fake" };
+
+    const manager = LLMModelManager.getInstance(config);
+
+    expect(LLMModelManager.getInstance({ ...config })).toBe(manager);
+    expect(LLMModelManager.getInstance({ ...config, modelName: "fake-large" })).not.toBe(manager);
+    expect(LLMModelManager.getInstance({ ...config, enableTools: true })).not.toBe(manager);
+    expect(manager.getModelName()).toEqual("fake");
+    expect(manager.getProvider()).toEqual(LLMProviders.FAKE);
+  });
+
+  it("keys managers by a hash of the credentials", () => {
+    const key = registryKey({ ...selfHosted, apiKey: "sk-secret", headers: { Authorization: "Bearer token" } });
+
+    expect(key).not.toContain("sk-secret");
+    expect(key).not.toContain("Bearer token");
+    expect(key).not.toEqual(registryKey({ ...selfHosted, apiKey: "sk-other" }));
+    expect(registryKey({ ...selfHosted, fallbacks: [{ ...selfHosted, apiKey: "sk-fallback" }] })).not.toContain(
+      "sk-fallback",
+    );
+  });
+
+  it("drops the least recently used and idle clients", () => {
+    let now = 0;
+    const registry = new ClientRegistry<string>(2, 100, () => now);
+    const create = vi.fn((key: string) => `client ${key}`);
+    const get = (key: string) => registry.getOrCreate(key, () => create(key));
+
+    get("a");
+    get("b");
+    get("a");
+    get("c");
+    get("a");
+    expect(create.mock.calls.map(([key]) => key)).toEqual(["a", "b", "c"]);
+    expect(registry.size).toEqual(2);
+
+    get("b");
+    expect(create).toHaveBeenLastCalledWith("b");
+
+    now = 100;
+    get("a");
+    expect(create).toHaveBeenLastCalledWith("a");
+    expect(registry.size).toEqual(1);
+  });
+
+  it("gives each API key of a provider its own circuit", () => {
+    const circuit = circuitKey(LLMProviders.OPENAI, "sk-user");
+
+    expect(circuit).toMatch(/^OPENAI:/);
+    expect(circuit).not.toContain("sk-user");
+    expect(circuit).not.toEqual(circuitKey(LLMProviders.OPENAI, "sk-server"));
+    expect(circuitKey(LLMProviders.FAKE, "")).toEqual("FAKE");
+  });
+});
+
+describe("OPENAI_COMPATIBLE provider", () => {
+  const schema = z.object({ reply: z.string() });
+
+  it("falls back to prompts and parsers for a server without tools or JSON mode", () => {
+    const manager = LLMModelManager.getInstance({
+      ...selfHosted,
+      capabilities: { streaming: false, tools: false, jsonMode: false },
+    });
+
+    expect(manager.getToolModel()).toBeNull();
+    expect(manager.getStructuredModel(schema, "reply")).toBeNull();
+    expect((manager.getModel() as ChatOpenAI).disableStreaming).toBe(true);
+  });
+
+  it("uses tools and the JSON schema response format when the server declares them", () => {
+    const manager = LLMModelManager.getInstance({
+      ...selfHosted,
+      headers: { "X-Tenant": "acme" },
+      capabilities: { streaming: true, tools: true, jsonMode: true },
+    });
+
+    expect(manager.getToolModel()).not.toBeNull();
+    expect(manager.getStructuredModel(schema, "reply")).not.toBeNull();
+    expect((manager.getModel() as ChatOpenAI).disableStreaming).toBe(false);
+  });
+
+  it("needs a base URL", () => {
+    expect(() => LLMModelManager.getInstance({ ...selfHosted, baseURL: undefined })).toThrow(
+      "A base URL is required for the OPENAI_COMPATIBLE provider",
+    );
+  });
+});
+
+describe("Model fallbacks", () => {
+  const resilience = {
+    timeoutMs: 1000,
+    maxRetries: 1,
+    baseDelayMs: 0,
+    maxDelayMs: 0,
+    failureThreshold: 5,
+    resetTimeoutMs: 1000,
+  };
+
+  it("wraps the model and its fallbacks, skipping fallbacks that cannot be configured", () => {
+    const manager = LLMModelManager.getInstance({
+      provider: LLMProviders.FAKE,
+      apiKey: "",
+      modelName: "fake",
+      fallbacks: [
+        { provider: LLMProviders.ANTHROPIC, apiKey: "", modelName: "claude-3-5-sonnet-20240620" },
+        { provider: LLMProviders.FAKE, apiKey: "", modelName: "fake-backup" },
+      ],
+      resilience,
+    });
+
+    const model = manager.getModel() as ResilientChatModel;
+    expect(model).toBeInstanceOf(ResilientChatModel);
+    expect(model.candidates.map(({ provider, model }) => ({ provider, model }))).toEqual([
+      { provider: LLMProviders.FAKE, model: "fake" },
+      { provider: LLMProviders.FAKE, model: "fake-backup" },
+    ]);
+  });
+
+  it("uses structured output only when every fallback supports the same method", () => {
+    const schema = z.object({ reply: z.string() });
+    const openAI = { provider: LLMProviders.OPENAI, apiKey: "sk-test", modelName: "gpt-4o" };
+
+    const sameMethod = LLMModelManager.getInstance({
+      ...openAI,
+      fallbacks: [{ ...openAI, modelName: "gpt-4o-mini" }],
+      resilience,
+    });
+    const otherMethod = LLMModelManager.getInstance({
+      ...openAI,
+      fallbacks: [{ provider: LLMProviders.ANTHROPIC, apiKey: "sk-ant-test" }],
+      resilience,
+    });
+
+    expect(sameMethod.getStructuredModel(schema, "reply")).not.toBeNull();
+    expect(otherMethod.getStructuredModel(schema, "reply")).toBeNull();
+  });
+});
@@ -0,0 +1,108 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { LLMProviders } from "@/common/ai/LLMModelManager";
+import {
+  credentialsConfig,
+  fallbackModels,
+  modelConfig,
+  modelConfigFor,
+  modelProfiles,
+  profileModelConfigs,
+} from "@/common/ai/aiConfig";
+import { loadModelProfiles } from "@/common/ai/modelProfiles";
+
+describe("loadModelProfiles", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "profiles-"));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("merges the inline profiles over the profiles file", () => {
+    const path = join(directory, "profiles.json");
+    writeFileSync(
+      path,
+      JSON.stringify({ character: { model: "gpt-4o", temperature: 0.2 }, repair: { maxTokens: 800 } }),
+    );
+
+    const profiles = loadModelProfiles(path, '{"character":{"temperature":0},"reply":{"model":"gpt-4o-mini"}}');
+
+    expect(profiles).toEqual({
+      reply: { model: "gpt-4o-mini" },
+      character: { model: "gpt-4o", temperature: 0 },
+      repair: { maxTokens: 800 },
+    });
+    expect(loadModelProfiles("", "")).toEqual({});
+  });
+
+  it("rejects unknown profiles and invalid settings", () => {
+    expect(() => loadModelProfiles("", '{"title":{}}')).toThrow("Invalid model profiles in LLM_PROFILES");
+    expect(() => loadModelProfiles("", '{"reply":{"temperature":5}}')).toThrow("reply.temperature");
+    expect(() => loadModelProfiles("", "{reply")).toThrow("LLM_PROFILES is not valid JSON");
+  });
+});
+
+describe("profileModelConfigs", () => {
+  afterEach(() => {
+    for (const name of Object.keys(modelProfiles)) delete modelProfiles[name as keyof typeof modelProfiles];
+  });
+
+  it("applies each profile's overrides to the session's model", () => {
+    modelProfiles.reply = { model: "fake-mini", temperature: 0.9 };
+    modelProfiles.repair = { provider: LLMProviders.OPENAI, maxTokens: 400 };
+
+    const configs = profileModelConfigs(modelConfig);
+
+    expect(configs.reply).toMatchObject({ provider: LLMProviders.FAKE, modelName: "fake-mini", temperature: 0.9 });
+    expect(configs.character).toEqual({ ...modelConfig, temperature: undefined, maxTokens: undefined });
+    expect(configs.repair).toMatchObject({ provider: LLMProviders.OPENAI, modelName: "gpt-4o", maxTokens: 400 });
+  });
+
+  it("keeps the model the user chose for every chain", () => {
+    modelProfiles.reply = { model: "fake-mini", temperature: 0.9 };
+    modelProfiles.repair = { provider: LLMProviders.OPENAI, maxTokens: 400 };
+
+    const configs = profileModelConfigs(modelConfig, {}, true);
+
+    expect(configs.reply).toEqual({ ...modelConfig, temperature: 0.9, maxTokens: undefined });
+    expect(configs.repair).toEqual({ ...modelConfig, temperature: undefined, maxTokens: 400 });
+  });
+});
+
+describe("modelConfigFor", () => {
+  const choice = { provider: LLMProviders.OPENAI, model: "gpt-4o-mini" };
+
+  beforeEach(() => {
+    fallbackModels.push(
+      { provider: LLMProviders.OPENAI, model: "gpt-4o" },
+      { provider: LLMProviders.ANTHROPIC, model: "claude-3-5-sonnet-20240620" },
+    );
+  });
+
+  afterEach(() => {
+    fallbackModels.length = 0;
+    credentialsConfig.serverFallback = false;
+  });
+
+  it("only falls back to providers the user has a key for when the turn runs on their key", () => {
+    const config = modelConfigFor(choice, { [LLMProviders.OPENAI]: "sk-user" });
+
+    expect(config.apiKey).toEqual("sk-user");
+    expect(config.fallbacks).toEqual([
+      expect.objectContaining({ provider: LLMProviders.OPENAI, modelName: "gpt-4o", apiKey: "sk-user" }),
+    ]);
+  });
+
+  it("falls back to the server's keys when allowed or when the turn runs on them", () => {
+    expect(modelConfigFor(choice).fallbacks).toHaveLength(2);
+
+    credentialsConfig.serverFallback = true;
+    expect(modelConfigFor(choice, { [LLMProviders.OPENAI]: "sk-user" }).fallbacks).toHaveLength(2);
+  });
+});
@@ -0,0 +1,49 @@
+import { LLMProviders } from "@/common/ai/LLMModelManager";
+import { parseModelChoices, resolveModelChoice } from "@/common/ai/modelSelection";
+
+const defaultModels: Record<LLMProviders, string> = {
+  [LLMProviders.OPENAI]: "gpt-4o",
+  [LLMProviders.ANTHROPIC]: "claude-3-5-sonnet-20240620",
+  [LLMProviders.DEEPSEEK]: "deepseek-chat",
+  [LLMProviders.OPENAI_COMPATIBLE]: "",
+  [LLMProviders.FAKE]: "fake",
+};
+
+describe("parseModelChoices", () => {
+  it("parses provider:model entries and uses the default model for a bare provider", () => {
+    expect(
+      parseModelChoices(" OPENAI:gpt-4o-mini, ANTHROPIC ,,OPENAI:gpt-4o-mini", defaultModels, "LLM_ALLOWED_MODELS"),
+    ).toEqual([
+      { provider: LLMProviders.OPENAI, model: "gpt-4o-mini" },
+      { provider: LLMProviders.ANTHROPIC, model: "claude-3-5-sonnet-20240620" },
+    ]);
+    expect(parseModelChoices("", defaultModels, "LLM_ALLOWED_MODELS")).toEqual([]);
+  });
+
+  it("rejects unknown providers and providers without a default model", () => {
+    expect(() => parseModelChoices("MISTRAL:large", defaultModels, "LLM_FALLBACK_MODELS")).toThrow(
+      'Unknown LLM provider "MISTRAL" in LLM_FALLBACK_MODELS',
+    );
+    expect(() => parseModelChoices("OPENAI_COMPATIBLE", defaultModels, "LLM_ALLOWED_MODELS")).toThrow(
+      "LLM_ALLOWED_MODELS needs a model for OPENAI_COMPATIBLE",
+    );
+  });
+});
+
+describe("resolveModelChoice", () => {
+  const fallback = { provider: LLMProviders.FAKE, model: "fake" };
+  const allowed = [fallback, { provider: LLMProviders.OPENAI, model: "gpt-4o" }];
+
+  it("fills in what the request leaves out", () => {
+    expect(resolveModelChoice({}, fallback, allowed, defaultModels)).toEqual(fallback);
+    expect(resolveModelChoice({ provider: LLMProviders.OPENAI }, fallback, allowed, defaultModels)).toEqual({
+      provider: LLMProviders.OPENAI,
+      model: "gpt-4o",
+    });
+  });
+
+  it("returns null for a model that is not allowed", () => {
+    expect(resolveModelChoice({ model: "fake-large" }, fallback, allowed, defaultModels)).toBeNull();
+    expect(resolveModelChoice({ provider: LLMProviders.ANTHROPIC }, fallback, allowed, defaultModels)).toBeNull();
+  });
+});
@@ -0,0 +1,36 @@
+import { replyDeltas } from "@/common/ai/delilaElizaAgent/replyStream";
+
+const collect = async <T>(stream: AsyncIterable<T>) => {
+  const items: T[] = [];
+  for await (const item of stream) items.push(item);
+  return items;
+};
+
+async function* snapshots(...values: unknown[]) {
+  yield* values;
+}
+
+describe("replyDeltas", () => {
+  it("emits the text added by each snapshot and the complete reply last", async () => {
+    const events = await collect(replyDeltas(snapshots({}, { reply: "Hel" }, { reply: "Hello" }, { reply: "Hello!" })));
+
+    expect(events).toEqual([
+      { type: "reply", content: "Hel" },
+      { type: "reply", content: "lo" },
+      { type: "reply", content: "!" },
+      { type: "replyComplete", content: "Hello!" },
+    ]);
+  });
+
+  it("skips snapshots that do not extend the sent text", async () => {
+    const events = await collect(
+      replyDeltas(snapshots({ reply: "Hi there" }, { reply: "Hi" }, { reply: "Hey" }, { reply: "Hi there, friend" })),
+    );
+
+    expect(events).toEqual([
+      { type: "reply", content: "Hi there" },
+      { type: "reply", content: ", friend" },
+      { type: "replyComplete", content: "Hi there, friend" },
+    ]);
+  });
+});
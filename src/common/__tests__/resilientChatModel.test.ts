@@ -0,0 +1,179 @@
+import { HumanMessage } from "@langchain/core/messages";
+
+import { ScriptedChatModel } from "@/common/ai/fakeProviders/ScriptedChatModel";
+import { ClientRegistry } from "@/common/ai/providerRegistry";
+import {
+  type ModelFallbackNotice,
+  ModelUnavailableError,
+  ResilientChatModel,
+  withFallbackNotices,
+} from "@/common/ai/resilience/ResilientChatModel";
+import { CircuitBreaker } from "@/common/ai/resilience/circuitBreaker";
+import { backoffDelay, isRetryableError } from "@/common/ai/resilience/retry";
+
+const overloaded = () => Object.assign(new Error("Overloaded"), { status: 529 });
+const prompt = [new HumanMessage("Hello")];
+const resilience = {
+  timeoutMs: 1000,
+  maxRetries: 1,
+  baseDelayMs: 0,
+  maxDelayMs: 0,
+  failureThreshold: 3,
+  resetTimeoutMs: 60000,
+};
+
+describe("ResilientChatModel", () => {
+  let primary: ScriptedChatModel;
+  let fallback: ScriptedChatModel;
+
+  const resilientModel = (config: Partial<typeof resilience> = {}) =>
+    new ResilientChatModel({
+      candidates: [
+        { provider: "ANTHROPIC", model: "claude", chatModel: primary },
+        { provider: "OPENAI", model: "gpt-4o", chatModel: fallback },
+      ],
+      resilience: { ...resilience, ...config },
+      circuitBreakers: new ClientRegistry(10, 60_000),
+    });
+
+  beforeEach(() => {
+    primary = new ScriptedChatModel({ responses: [{ response: "primary" }] });
+    fallback = new ScriptedChatModel({ responses: [{ response: "fallback" }] });
+  });
+
+  it("retries a retryable error on the same model", async () => {
+    vi.spyOn(primary, "invoke").mockRejectedValueOnce(overloaded());
+
+    const answer = await resilientModel().invoke(prompt);
+
+    expect(answer.content).toEqual("primary");
+  });
+
+  it("falls back to the next model and reports it", async () => {
+    vi.spyOn(primary, "invoke").mockRejectedValue(overloaded());
+    const notices: ModelFallbackNotice[] = [];
+
+    const answer = await withFallbackNotices(resilientModel(), (notice) => notices.push(notice)).invoke(prompt);
+
+    expect(answer.content).toEqual("fallback");
+    expect(primary.invoke).toHaveBeenCalledTimes(2);
+    expect(notices).toEqual([
+      {
+        from: { provider: "ANTHROPIC", model: "claude" },
+        to: { provider: "OPENAI", model: "gpt-4o" },
+        reason: "529 Overloaded",
+      },
+    ]);
+  });
+
+  it("falls back while streaming and times out a model that does not answer", async () => {
+    vi.spyOn(primary, "stream").mockImplementation(() => new Promise(() => {}));
+
+    let text = "";
+    for await (const chunk of await resilientModel({ timeoutMs: 20, maxRetries: 0 }).stream(prompt)) {
+      text += chunk.content;
+    }
+
+    expect(text).toEqual("fallback");
+  });
+
+  it("skips a provider whose circuit is open", async () => {
+    vi.spyOn(primary, "invoke").mockRejectedValue(overloaded());
+    const model = resilientModel({ failureThreshold: 2 });
+
+    await model.invoke(prompt);
+    await model.invoke(prompt);
+
+    expect(primary.invoke).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps a circuit per API key of a provider", async () => {
+    const circuitBreakers = new ClientRegistry<CircuitBreaker>(10, 60_000);
+    const model = (circuit: string) =>
+      new ResilientChatModel({
+        candidates: [{ provider: "OPENAI", model: "gpt-4o", chatModel: primary, circuit }],
+        resilience: { ...resilience, maxRetries: 0, failureThreshold: 1 },
+        circuitBreakers,
+      });
+    vi.spyOn(primary, "invoke").mockRejectedValueOnce(Object.assign(new Error("Too many requests"), { status: 429 }));
+
+    await expect(model("OPENAI:user").invoke(prompt)).rejects.toThrow(ModelUnavailableError);
+    const answer = await model("OPENAI:server").invoke(prompt);
+
+    expect(answer.content).toEqual("primary");
+    expect(circuitBreakers.getOrCreate("OPENAI:user", () => new CircuitBreaker(resilience)).state).toEqual("open");
+  });
+
+  it("keeps no more circuits than the registry holds", async () => {
+    const circuitBreakers = new ClientRegistry<CircuitBreaker>(2, 60_000);
+    for (const circuit of ["OPENAI:a", "OPENAI:b", "OPENAI:c"]) {
+      await new ResilientChatModel({
+        candidates: [{ provider: "OPENAI", model: "gpt-4o", chatModel: primary, circuit }],
+        resilience,
+        circuitBreakers,
+      }).invoke(prompt);
+    }
+
+    expect(circuitBreakers.size).toEqual(2);
+  });
+
+  it("does not count a rejected API key against the provider", async () => {
+    vi.spyOn(primary, "invoke").mockRejectedValue(Object.assign(new Error("Invalid API key"), { status: 401 }));
+    const model = resilientModel({ failureThreshold: 1 });
+
+    await expect(model.invoke(prompt)).rejects.toThrow("Invalid API key");
+    await expect(model.invoke(prompt)).rejects.toThrow("Invalid API key");
+
+    expect(primary.invoke).toHaveBeenCalledTimes(2);
+  });
+
+  it("throws other errors right away", async () => {
+    vi.spyOn(primary, "invoke").mockRejectedValue(Object.assign(new Error("Invalid API key"), { status: 401 }));
+    const fallbackInvoke = vi.spyOn(fallback, "invoke");
+
+    await expect(resilientModel().invoke(prompt)).rejects.toThrow("Invalid API key");
+    expect(fallbackInvoke).not.toHaveBeenCalled();
+  });
+
+  it("gives up when every model fails", async () => {
+    vi.spyOn(primary, "invoke").mockRejectedValue(overloaded());
+    vi.spyOn(fallback, "invoke").mockRejectedValue(overloaded());
+
+    await expect(resilientModel().invoke(prompt)).rejects.toThrow(ModelUnavailableError);
+  });
+});
+
+describe("CircuitBreaker", () => {
+  it("opens after consecutive failures and lets one trial call through after the reset timeout", () => {
+    let now = 0;
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 100 }, () => now);
+
+    breaker.recordFailure();
+    expect(breaker.allowRequest()).toBe(true);
+    breaker.recordFailure();
+    expect(breaker.state).toEqual("open");
+    expect(breaker.allowRequest()).toBe(false);
+
+    now = 100;
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.allowRequest()).toBe(false);
+    breaker.recordSuccess();
+    expect(breaker.state).toEqual("closed");
+  });
+});
+
+describe("retry policy", () => {
+  it("retries overload, rate limit and network errors only", () => {
+    expect(isRetryableError(overloaded())).toBe(true);
+    expect(isRetryableError(Object.assign(new Error("Too many requests"), { status: 429 }))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error("socket hang up"), { code: "ECONNRESET" }))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error("Bad request"), { status: 400 }))).toBe(false);
+    expect(isRetryableError(new TypeError("undefined is not a function"))).toBe(false);
+  });
+
+  it("draws the backoff up to an exponentially growing, capped bound", () => {
+    expect(backoffDelay(0, 500, 8000, () => 1)).toEqual(500);
+    expect(backoffDelay(3, 500, 8000, () => 0.5)).toEqual(2000);
+    expect(backoffDelay(10, 500, 8000, () => 1)).toEqual(8000);
+  });
+});
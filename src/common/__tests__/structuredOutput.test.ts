@@ -0,0 +1,54 @@
+import { OutputParserException } from "@langchain/core/output_parsers";
+import { z } from "zod";
+
+import { ScriptedChatModel } from "@/common/ai/fakeProviders/ScriptedChatModel";
+import { StructuredAnswerParser, bindStructuredOutput } from "@/common/ai/structuredOutput";
+
+const ReplySchema = z.object({ reply: z.string() });
+
+describe("bindStructuredOutput", () => {
+  it("parses the JSON text of a json_schema response format", async () => {
+    const model = new ScriptedChatModel({ responses: [{ response: '```json\n{"reply": "Hi!"}\n```' }] });
+
+    const structured = bindStructuredOutput(model, "jsonSchema", ReplySchema, "reply");
+
+    expect(await structured?.invoke("Hello")).toEqual({ reply: "Hi!" });
+  });
+
+  it("returns the arguments of the forced tool call", async () => {
+    const model = new ScriptedChatModel({
+      responses: [{ response: "", toolCalls: [{ name: "reply", args: { reply: "Hi!" } }] }],
+    });
+
+    const structured = bindStructuredOutput(model, "toolCalling", ReplySchema, "reply");
+
+    expect(await structured?.invoke("Hello")).toEqual({ reply: "Hi!" });
+    expect(await structured?.stream("Hello").then(async (stream) => (await stream.next()).value)).toEqual({
+      reply: "Hi!",
+    });
+  });
+
+  it("streams the partially parsed answer as it grows", async () => {
+    const model = new ScriptedChatModel({ responses: [{ response: { reply: "Hello there" } }], chunkSize: 4 });
+
+    const snapshots: unknown[] = [];
+    for await (const snapshot of await model.pipe(new StructuredAnswerParser()).stream("Hello")) {
+      snapshots.push(snapshot);
+    }
+
+    expect(snapshots.length).toBeGreaterThan(2);
+    expect(snapshots).toContainEqual({ reply: "He" });
+    expect(snapshots[snapshots.length - 1]).toEqual({ reply: "Hello there" });
+  });
+
+  it("raises an OutputParserException when there is no structured answer", async () => {
+    const model = new ScriptedChatModel({ responses: [{ response: "Hi!" }] });
+
+    await expect(bindStructuredOutput(model, "jsonSchema", ReplySchema, "reply")?.invoke("Hello")).rejects.toThrow(
+      OutputParserException,
+    );
+    await expect(bindStructuredOutput(model, "toolCalling", ReplySchema, "reply")?.invoke("Hello")).rejects.toThrow(
+      'The model did not call the "reply" tool',
+    );
+  });
+});
@@ -1,18 +1,28 @@
 import { Embeddings } from "@langchain/core/embeddings";
 import { OpenAIEmbeddings } from "@langchain/openai";
+import { HashEmbeddings } from "./fakeProviders/HashEmbeddings";
+import { ClientRegistry, registryKey } from "./providerRegistry";
 
 export enum EmbeddingProvider {
     OPENAI = "OPENAI",
+    // Any server with an OpenAI-compatible embeddings endpoint, e.g. Ollama or vLLM
+    OPENAI_COMPATIBLE = "OPENAI_COMPATIBLE",
+    // Deterministic hash embeddings that need no API key
+    FAKE = "FAKE",
 }
 
 export interface EmbeddingConfig {
     provider: EmbeddingProvider;
     apiKey: string;
     modelName?: string;
+    // Server and extra HTTP headers of an OpenAI-compatible provider
+    baseURL?: string;
+    headers?: Record<string, string>;
 }
 
 export class EmbeddingManager {
-    private static instance: EmbeddingManager | null = null;
+    // One manager per provider, model and connection, see registryKey
+    private static registry = new ClientRegistry<EmbeddingManager>(20, 30 * 60 * 1000);
     private embedder: Embeddings;
 
     private constructor(config: EmbeddingConfig) {
@@ -23,16 +33,34 @@ export class EmbeddingManager {
                     modelName: config.modelName
                 });
                 break;
+            case EmbeddingProvider.OPENAI_COMPATIBLE:
+                if (!config.baseURL) {
+                    throw new Error("A base URL is required for the OPENAI_COMPATIBLE embedding provider");
+                }
+                if (!config.modelName) {
+                    throw new Error("A model name is required for the OPENAI_COMPATIBLE embedding provider");
+                }
+                this.embedder = new OpenAIEmbeddings({
+                    // The OpenAI client refuses to start without a key, even for servers that ignore it
+                    openAIApiKey: config.apiKey || "not-needed",
+                    modelName: config.modelName,
+                    configuration: { baseURL: config.baseURL, defaultHeaders: config.headers }
+                });
+                break;
+            case EmbeddingProvider.FAKE:
+                this.embedder = new HashEmbeddings();
+                break;
             default:
                 throw new Error(`Unsupported embedding provider: ${config.provider}`);
         }
     }
 
+    /**
+     * Get the manager for a configuration, creating it on first use
+     * @param config Provider, model and API key of the embeddings
+     */
     public static getInstance(config: EmbeddingConfig): EmbeddingManager {
-        if (!EmbeddingManager.instance) {
-            EmbeddingManager.instance = new EmbeddingManager(config);
-        }
-        return EmbeddingManager.instance;
+        return EmbeddingManager.registry.getOrCreate(registryKey({ ...config }), () => new EmbeddingManager(config));
     }
 
     public getEmbedder(): Embeddings {
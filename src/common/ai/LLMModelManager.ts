@@ -1,70 +1,247 @@
 import { ChatOpenAI } from "@langchain/openai";
 import { ChatAnthropic } from "@langchain/anthropic";
-import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import type { BaseChatModel, BaseChatModelCallOptions } from "@langchain/core/language_models/chat_models";
+import type { BaseLanguageModelInput } from "@langchain/core/language_models/base";
+import type { AIMessageChunk } from "@langchain/core/messages";
+import type { Runnable } from "@langchain/core/runnables";
+import type { ZodTypeAny } from "zod";
 import { bindToolsToModel } from "./delilaElizaAgent/AgentTools";
+import { ScriptedChatModel } from "./fakeProviders/ScriptedChatModel";
+import { CassetteChatModel, type CassetteMode } from "./cassettes/CassetteChatModel";
+import { bindStructuredOutput, type StructuredOutputMethod } from "./structuredOutput";
+import { ClientRegistry, circuitKey, registryKey } from "./providerRegistry";
+import { ResilientChatModel, type ResilienceConfig } from "./resilience/ResilientChatModel";
 
 export enum LLMProviders {
     OPENAI = "OPENAI",
     ANTHROPIC = "ANTHROPIC",
-    DEEPSEEK = "DEEPSEEK"
+    DEEPSEEK = "DEEPSEEK",
+    // Any server speaking the OpenAI chat completions API, e.g. Ollama, LM Studio, vLLM or llama.cpp server
+    OPENAI_COMPATIBLE = "OPENAI_COMPATIBLE",
+    // Offline provider answering from scripted fixtures, for development and tests
+    FAKE = "FAKE"
+}
+
+// What a provider's API supports, so the agent can fall back when a feature is missing
+export interface ProviderCapabilities {
+    // Streamed completions; without it every answer arrives as a single chunk
+    streaming: boolean,
+    // Tool calling; without it the character file is drafted without the validation tool loop
+    tools: boolean,
+    // A `json_schema` response format; without it format instructions and a parser are used
+    jsonMode: boolean
 }
 
 export interface LLLModelConfig {
     provider: LLMProviders,
     apiKey: string,
     modelName?: string,
-    enableTools?: boolean
+    // Sampling temperature and output limit; the provider's defaults are used when omitted
+    temperature?: number,
+    maxTokens?: number,
+    enableTools?: boolean,
+    // Server of an OpenAI-compatible provider, e.g. "http://localhost:11434/v1"
+    baseURL?: string,
+    // Extra HTTP headers sent with every request, e.g. for a gateway in front of the server
+    headers?: Record<string, string>,
+    // Overrides the provider's default capabilities
+    capabilities?: ProviderCapabilities,
+    // Fixtures file for the FAKE provider; built-in responses are used when omitted
+    fixturesPath?: string,
+    // Models tried in order when this one keeps failing; temperature and output limit are inherited
+    fallbacks?: LLLModelConfig[],
+    // Timeouts, retries and circuit breaking of model calls; calls are made once, without fallbacks, when omitted
+    resilience?: ResilienceConfig,
+    // Record completions to, or replay them from, a cassette file
+    cassette?: {
+        mode: CassetteMode,
+        path: string
+    }
 }
 
+// Native structured output of each provider; null means format instructions and a parser are used instead
+const STRUCTURED_OUTPUT_METHODS: Record<LLMProviders, StructuredOutputMethod | null> = {
+    [LLMProviders.OPENAI]: "jsonSchema",
+    [LLMProviders.ANTHROPIC]: "toolCalling",
+    [LLMProviders.DEEPSEEK]: "jsonSchema",
+    [LLMProviders.OPENAI_COMPATIBLE]: "jsonSchema",
+    [LLMProviders.FAKE]: null
+};
+
+// Capabilities of each provider unless the configuration declares its own; self-hosted servers
+// differ widely, so OPENAI_COMPATIBLE assumes only streaming
+const PROVIDER_CAPABILITIES: Record<LLMProviders, ProviderCapabilities> = {
+    [LLMProviders.OPENAI]: { streaming: true, tools: true, jsonMode: true },
+    [LLMProviders.ANTHROPIC]: { streaming: true, tools: true, jsonMode: false },
+    [LLMProviders.DEEPSEEK]: { streaming: true, tools: true, jsonMode: true },
+    [LLMProviders.OPENAI_COMPATIBLE]: { streaming: true, tools: false, jsonMode: false },
+    [LLMProviders.FAKE]: { streaming: true, tools: true, jsonMode: false }
+};
+
+// OpenAI-compatible providers with a well-known server
+const OPENAI_COMPATIBLE_BASE_URLS: Partial<Record<LLMProviders, string>> = {
+    [LLMProviders.DEEPSEEK]: "https://api.deepseek.com"
+};
+
 export class LLMModelManager {
-    private static _instance: LLMModelManager;
+    // One manager per provider, model and options, see registryKey; bounded, since users' own keys add managers
+    private static _registry = new ClientRegistry<LLMModelManager>(200, 30 * 60 * 1000);
     private _llmModel: BaseChatModel;
+    private _provider: LLMProviders;
+    private _modelName: string | null;
     private _enableTools: boolean;
+    private _capabilities: ProviderCapabilities;
+    private _structuredOutputMethod: StructuredOutputMethod | null;
 
     private constructor(config: LLLModelConfig) {
-        if (!config.apiKey) {
-            throw new Error("API key is required");
-        }
-
+        this._provider = config.provider;
+        this._modelName = config.modelName ?? null;
         this._enableTools = config.enableTools ?? false;
+        const candidates = config.resilience ? [config, ...(config.fallbacks ?? [])] : [config];
+        const capabilities = candidates.map(LLMModelManager.capabilitiesOf);
+        // Any candidate may answer, so tools and JSON mode are used only if all of them support them
+        this._capabilities = {
+            streaming: capabilities[0].streaming,
+            tools: capabilities.every((candidate) => candidate.tools),
+            jsonMode: capabilities.every((candidate) => candidate.jsonMode)
+        };
+        // A JSON schema response format needs JSON mode, a forced tool call needs tools, and every
+        // candidate has to use the same method
+        const method = STRUCTURED_OUTPUT_METHODS[config.provider] ?? null;
+        const supported = method === "jsonSchema" ? this._capabilities.jsonMode : this._capabilities.tools;
+        const shared = candidates.every((candidate) => STRUCTURED_OUTPUT_METHODS[candidate.provider] === method);
+        this._structuredOutputMethod = supported && shared ? method : null;
         let model: BaseChatModel;
 
+        if (config.cassette?.mode === "replay") {
+            // Replay never reaches the provider, so it works offline and without an API key
+            console.log(`[LLM] Replaying completions from cassette ${config.cassette.path}`);
+            model = new CassetteChatModel({ mode: "replay", path: config.cassette.path });
+        } else if (config.cassette?.mode === "record") {
+            console.log(`[LLM] Recording completions to cassette ${config.cassette.path}`);
+            model = new CassetteChatModel({
+                mode: "record",
+                path: config.cassette.path,
+                model: LLMModelManager.createResilientModel(config)
+            });
+        } else {
+            model = LLMModelManager.createResilientModel(config);
+        }
+
+        this._llmModel = model;
+    }
+
+    private static capabilitiesOf(config: LLLModelConfig): ProviderCapabilities {
+        return config.capabilities ?? PROVIDER_CAPABILITIES[config.provider];
+    }
+
+    // The provider's model, wrapped with timeouts, retries, circuit breaking and the fallbacks when
+    // resilience is configured
+    private static createResilientModel(config: LLLModelConfig): BaseChatModel {
+        const primary = LLMModelManager.createProviderModel(config, LLMModelManager.capabilitiesOf(config));
+        if (!config.resilience) {
+            return primary;
+        }
+
+        // Each API key has its own circuit, so one user's failing key does not stop the others
+        const candidates = [{ provider: config.provider, model: config.modelName ?? null, chatModel: primary, circuit: circuitKey(config.provider, config.apiKey) }];
+        for (const fallback of config.fallbacks ?? []) {
+            const inherited = {
+                ...fallback,
+                temperature: fallback.temperature ?? config.temperature,
+                maxTokens: fallback.maxTokens ?? config.maxTokens,
+                resilience: config.resilience
+            };
+            try {
+                candidates.push({
+                    provider: fallback.provider,
+                    model: fallback.modelName ?? null,
+                    chatModel: LLMModelManager.createProviderModel(inherited, LLMModelManager.capabilitiesOf(fallback)),
+                    circuit: circuitKey(fallback.provider, fallback.apiKey)
+                });
+            } catch (error) {
+                // A fallback that cannot be configured, e.g. without an API key, must not stop the primary model
+                console.warn(`[LLM] Skipping fallback ${fallback.provider}:${fallback.modelName}: ${(error as Error).message}`);
+            }
+        }
+        return new ResilientChatModel({ candidates, resilience: config.resilience });
+    }
+
+    private static createProviderModel(config: LLLModelConfig, capabilities: ProviderCapabilities): BaseChatModel {
+        // Self-hosted servers usually run without an API key
+        if (!config.apiKey && config.provider !== LLMProviders.FAKE && config.provider !== LLMProviders.OPENAI_COMPATIBLE) {
+            throw new Error("API key is required");
+        }
+        // Retries are left to the resilience layer when there is one, so they are not multiplied
+        const maxRetries = config.resilience ? 0 : undefined;
+
         if (config.provider === LLMProviders.OPENAI) {
-            model = new ChatOpenAI({ apiKey: config.apiKey, modelName: config.modelName });
+            return new ChatOpenAI({ apiKey: config.apiKey, modelName: config.modelName, temperature: config.temperature, maxTokens: config.maxTokens, maxRetries });
         } else if (config.provider === LLMProviders.ANTHROPIC) {
-            model = new ChatAnthropic({ apiKey: config.apiKey, modelName: config.modelName });
-        } else if (config.provider === LLMProviders.DEEPSEEK) {
-            model = new ChatOpenAI({ 
-                apiKey: config.apiKey, 
-                modelName: config.modelName, 
-                configuration: {
-                    baseURL: "https://api.deepseek.com",
-                }
-            });
+            return new ChatAnthropic({ apiKey: config.apiKey, modelName: config.modelName, temperature: config.temperature, maxTokens: config.maxTokens, maxRetries });
+        } else if (config.provider === LLMProviders.DEEPSEEK || config.provider === LLMProviders.OPENAI_COMPATIBLE) {
+            return LLMModelManager.createOpenAICompatibleModel(config, capabilities);
+        } else if (config.provider === LLMProviders.FAKE) {
+            return new ScriptedChatModel({ fixturesPath: config.fixturesPath });
         } else {
             throw new Error("Invalid provider");
         }
+    }
 
-        // Bind tools to the model if enabled
-        if (this._enableTools) {
-            console.log(`[LLM] Binding tools to ${config.provider} model`);
-            this._llmModel = bindToolsToModel(model);
-        } else {
-            this._llmModel = model;
+    private static createOpenAICompatibleModel(config: LLLModelConfig, capabilities: ProviderCapabilities): BaseChatModel {
+        const baseURL = config.baseURL || OPENAI_COMPATIBLE_BASE_URLS[config.provider];
+        if (!baseURL) {
+            throw new Error(`A base URL is required for the ${config.provider} provider`);
+        }
+        if (!config.modelName) {
+            throw new Error(`A model name is required for the ${config.provider} provider`);
         }
+
+        const model = new ChatOpenAI({
+            // The OpenAI client refuses to start without a key, even for servers that ignore it
+            apiKey: config.apiKey || "not-needed",
+            modelName: config.modelName,
+            temperature: config.temperature,
+            maxTokens: config.maxTokens,
+            maxRetries: config.resilience ? 0 : undefined,
+            configuration: {
+                baseURL,
+                defaultHeaders: config.headers
+            }
+        });
+        // Servers that cannot stream are invoked instead, `stream()` then yields one chunk. Set after
+        // construction because the base chat model ignores the constructor field.
+        model.disableStreaming = !capabilities.streaming;
+        return model;
     }
 
+    /**
+     * Get the manager for a configuration, creating it on first use
+     * Managers are shared by every configuration with the same provider, model, API key and options.
+     * @param config Provider, model and options of the model
+     */
     static getInstance(config: LLLModelConfig): LLMModelManager {
-        if (!LLMModelManager._instance) {
-            LLMModelManager._instance = new LLMModelManager(config);
-        }
-        return LLMModelManager._instance;
+        return LLMModelManager._registry.getOrCreate(registryKey({ ...config }), () => new LLMModelManager(config));
     }
 
     getModel(): BaseChatModel {
         return this._llmModel;
     }
 
+    /**
+     * Get the provider this model runs on
+     */
+    getProvider(): LLMProviders {
+        return this._provider;
+    }
+
+    /**
+     * Get the configured model name, or null when the provider's own default is used
+     */
+    getModelName(): string | null {
+        return this._modelName;
+    }
+
     /**
      * Check if tools are enabled for this model
      * @returns True if tools are enabled, false otherwise
@@ -73,14 +250,41 @@ export class LLMModelManager {
         return this._enableTools;
     }
 
+    /**
+     * Get the model with the agent tools bound to it, for tool-calling loops
+     * Plain chains keep using `getModel()`, so they never receive tool calls they cannot handle.
+     * @param kwargs Extra call options, e.g. a `tool_choice` forcing a tool
+     * @returns The bound model, or null when tools are disabled or the provider cannot call tools
+     */
+    getToolModel(kwargs?: Partial<BaseChatModelCallOptions>): Runnable<BaseLanguageModelInput, AIMessageChunk> | null {
+        if (!this._enableTools || !this._capabilities.tools) {
+            return null;
+        }
+        return bindToolsToModel(this._llmModel, kwargs);
+    }
+
+    /**
+     * Get the model bound to the provider's native structured output
+     * OpenAI, DeepSeek and OpenAI-compatible servers with JSON mode answer in a JSON schema response
+     * format, Anthropic through a forced tool call.
+     * @param schema Zod schema of the answer
+     * @param name Name of the response format or tool, e.g. "reply"
+     * @returns A runnable returning the parsed JSON answer, or null when the provider has no native
+     * structured output and the prompt needs format instructions and a parser instead
+     */
+    getStructuredModel(schema: ZodTypeAny, name: string): Runnable<BaseLanguageModelInput, unknown> | null {
+        if (!this._structuredOutputMethod) {
+            return null;
+        }
+        return bindStructuredOutput(this._llmModel, this._structuredOutputMethod, schema, name);
+    }
+
     /**
      * Enable tools for this model instance
-     * This will recreate the model with tools enabled
      */
     enableTools(): void {
         if (!this._enableTools) {
             this._enableTools = true;
-            this._llmModel = bindToolsToModel(this._llmModel);
             console.log('[LLM] Tools enabled for model');
         }
     }
@@ -2,6 +2,10 @@ import { PGVectorStore } from '@langchain/community/vectorstores/pgvector';
 import { MemoryVectorStore } from "langchain/vectorstores/memory";
 import { Embeddings } from "@langchain/core/embeddings";
 import { VectorStore } from "@langchain/core/vectorstores";
+import { Document } from "@langchain/core/documents";
+import { bm25Search, type HybridSearchResult, reciprocalRankFusion } from "./knowledge/hybridSearch";
+import { type EmbeddingConfig, EmbeddingManager } from "./EmbeddingManager";
+import { registryKey } from "./providerRegistry";
 
 export enum VectorStoreProvider {
     MEMORY = "MEMORY",
@@ -19,7 +23,19 @@ export interface VectorStoreConfig {
     };
 }
 
+export type MetadataFilter = Record<string, string | number | boolean>;
+
+// True when every field of the filter is present in the metadata with the same value
+const matchesFilter = (metadata: Record<string, unknown>, filter: MetadataFilter) =>
+    Object.entries(filter).every(([key, value]) => metadata[key] === value);
+
+// Identifies a chunk across the vector and lexical rankings
+const documentKey = (document: Document) =>
+    `${document.metadata.sourceId ?? ""}:${document.metadata.chunkIndex ?? ""}:${document.pageContent}`;
+
 export class VectorStoreManager {
+    // One store per store and embedding configuration, see registryKey; there are only a few
+    private static registry = new Map<string, VectorStoreManager>();
     private vectorStore!: VectorStore;
     private vectorStoreConfig: VectorStoreConfig;
     private embedder: Embeddings;
@@ -30,6 +46,23 @@ export class VectorStoreManager {
         this.embedder = embedder;
     }
 
+    /**
+     * Get the vector store for a configuration, shared by retrieval and knowledge ingestion
+     * An in-memory store only holds ingested documents if everyone uses the same instance, so the
+     * store keeps its embedder even when the embedding registry drops it.
+     * @param vectorStoreConfig Provider and connection of the store
+     * @param embeddingConfig Embeddings the documents are stored and searched with
+     */
+    public static getInstance(vectorStoreConfig: VectorStoreConfig, embeddingConfig: EmbeddingConfig): VectorStoreManager {
+        const key = registryKey({ ...vectorStoreConfig, embedding: registryKey({ ...embeddingConfig }) });
+        let instance = VectorStoreManager.registry.get(key);
+        if (!instance) {
+            instance = new VectorStoreManager(vectorStoreConfig, EmbeddingManager.getInstance(embeddingConfig).getEmbedder());
+            VectorStoreManager.registry.set(key, instance);
+        }
+        return instance;
+    }
+
     public async init(): Promise<void> {
         if (this.initialized) {
             return;
@@ -55,6 +88,7 @@ export class VectorStoreManager {
                         tableName: this.vectorStoreConfig.connectionConfig.tableName as string,
                     }
                 );
+                await this.ensureFullTextIndex(this.vectorStore as PGVectorStore);
                 break;
             
             default:
@@ -78,7 +112,141 @@ export class VectorStoreManager {
         return this.vectorStore.asRetriever();
     }
 
+    /**
+     * Embed and store documents
+     * @param documents Documents to add, with their metadata
+     */
+    public async addDocuments(documents: Document[]): Promise<void> {
+        await this.init();
+        if (documents.length > 0) {
+            await this.vectorStore.addDocuments(documents);
+        }
+    }
+
+    /**
+     * Delete every document whose metadata contains the given fields
+     * @param filter Metadata fields the documents must match, e.g. { sourceId }
+     */
+    public async deleteDocuments(filter: MetadataFilter): Promise<void> {
+        await this.init();
+
+        switch (this.vectorStoreConfig.provider) {
+            case VectorStoreProvider.MEMORY: {
+                const store = this.vectorStore as MemoryVectorStore;
+                store.memoryVectors = store.memoryVectors.filter((vector) => !matchesFilter(vector.metadata, filter));
+                break;
+            }
+
+            case VectorStoreProvider.PGVECTOR:
+                await (this.vectorStore as PGVectorStore).delete({ filter });
+                break;
+
+            default:
+                throw new Error(`Unsupported vector store provider: ${this.vectorStoreConfig.provider}`);
+        }
+    }
+
+    /**
+     * Search documents whose metadata matches a filter
+     * @param query Text to search for
+     * @param k Maximum number of documents to return
+     * @param filter Metadata fields the documents must match
+     * @returns Documents with their similarity to the query (higher is closer, 1 for identical), best first
+     */
+    public async similaritySearchWithScore(query: string, k: number, filter: MetadataFilter): Promise<[Document, number][]> {
+        await this.init();
+
+        switch (this.vectorStoreConfig.provider) {
+            case VectorStoreProvider.MEMORY:
+                return (this.vectorStore as MemoryVectorStore).similaritySearchWithScore(
+                    query,
+                    k,
+                    (document: Document) => matchesFilter(document.metadata, filter)
+                );
+
+            case VectorStoreProvider.PGVECTOR: {
+                // PGVector scores are cosine distances, turn them into similarities like the memory store's
+                const results = await (this.vectorStore as PGVectorStore).similaritySearchWithScore(query, k, filter);
+                return results.map(([document, distance]) => [document, 1 - distance]);
+            }
+
+            default:
+                throw new Error(`Unsupported vector store provider: ${this.vectorStoreConfig.provider}`);
+        }
+    }
+
+    /**
+     * Full-text search over documents whose metadata matches a filter
+     * PGVector uses Postgres tsvector ranking, the memory store ranks with BM25.
+     * @param query Text to search for; documents need to contain at least one of its terms
+     * @param k Maximum number of documents to return
+     * @param filter Metadata fields the documents must match
+     * @returns Documents with their lexical rank (higher is better), best first
+     */
+    public async lexicalSearch(query: string, k: number, filter: MetadataFilter): Promise<[Document, number][]> {
+        await this.init();
+
+        switch (this.vectorStoreConfig.provider) {
+            case VectorStoreProvider.MEMORY: {
+                const documents = (this.vectorStore as MemoryVectorStore).memoryVectors
+                    .filter((vector) => matchesFilter(vector.metadata, filter))
+                    .map((vector) => new Document({ pageContent: vector.content, metadata: vector.metadata }));
+                return bm25Search(documents, query, k);
+            }
+
+            case VectorStoreProvider.PGVECTOR: {
+                const store = this.vectorStore as PGVectorStore;
+                // plainto_tsquery requires every term; OR them so partial matches are ranked instead of dropped
+                const result = await store.pool.query(
+                    `SELECT "${store.contentColumnName}" AS content, "${store.metadataColumnName}" AS metadata,
+                            ts_rank_cd(to_tsvector('simple', "${store.contentColumnName}"), query) AS rank
+                     FROM ${store.computedTableName},
+                          replace(plainto_tsquery('simple', $1)::text, '&', '|')::tsquery AS query
+                     WHERE query::text <> ''
+                       AND to_tsvector('simple', "${store.contentColumnName}") @@ query
+                       AND "${store.metadataColumnName}" @> $2::jsonb
+                     ORDER BY rank DESC
+                     LIMIT $3`,
+                    [query, JSON.stringify(filter), k]
+                );
+                return result.rows.map((row: { content: string; metadata: Record<string, unknown>; rank: number }) => [
+                    new Document({ pageContent: row.content, metadata: row.metadata }),
+                    Number(row.rank),
+                ]);
+            }
+
+            default:
+                throw new Error(`Unsupported vector store provider: ${this.vectorStoreConfig.provider}`);
+        }
+    }
+
+    /**
+     * Hybrid search combining vector similarity with full-text search
+     * Exact terms such as plugin names and secret keys are often missed by embeddings alone;
+     * both rankings are fused with reciprocal-rank fusion.
+     * @param query Text to search for
+     * @param k Maximum number of documents to return
+     * @param filter Metadata fields the documents must match
+     * @returns Documents with their fused score and the score of each retriever that found them, best first
+     */
+    public async hybridSearch(query: string, k: number, filter: MetadataFilter): Promise<HybridSearchResult[]> {
+        const [vector, lexical] = await Promise.all([
+            this.similaritySearchWithScore(query, k, filter),
+            this.lexicalSearch(query, k, filter),
+        ]);
+        return reciprocalRankFusion({ vector, lexical }, documentKey).slice(0, k);
+    }
+
     public isInitialized(): boolean {
         return this.initialized;
     }
-}
\ No newline at end of file
+
+    // Lets lexicalSearch use an index instead of computing every chunk's tsvector per query
+    private async ensureFullTextIndex(store: PGVectorStore): Promise<void> {
+        const indexName = `${store.tableName}_${store.contentColumnName}_fts_idx`.replace(/[^a-zA-Z0-9_]/g, "_");
+        await store.pool.query(
+            `CREATE INDEX IF NOT EXISTS "${indexName}" ON ${store.computedTableName}
+             USING GIN (to_tsvector('simple', "${store.contentColumnName}"))`
+        );
+    }
+}
@@ -0,0 +1,224 @@
+import { type EmbeddingConfig, EmbeddingProvider } from "@/common/ai/EmbeddingManager";
+import { type LLLModelConfig, LLMProviders } from "@/common/ai/LLMModelManager";
+import type { VectorStoreConfig, VectorStoreProvider } from "@/common/ai/VectorStoreManager";
+import type { CassetteMode } from "@/common/ai/cassettes/CassetteChatModel";
+import type { CharacterUpdateConfig, CharacterUpdateMode } from "@/common/ai/delilaElizaAgent/characterEdits";
+import type { ToolLoopConfig } from "@/common/ai/delilaElizaAgent/characterToolLoop";
+import type { RetrievalConfig } from "@/common/ai/knowledge/knowledgeRetrieval";
+import { type RerankerName, createReranker } from "@/common/ai/knowledge/rerankers";
+import { MODEL_PROFILES, type ProfileModelConfigs, loadModelProfiles } from "@/common/ai/modelProfiles";
+import {
+  type ModelChoice,
+  completeModelChoice,
+  parseModelChoices,
+  resolveModelChoice,
+} from "@/common/ai/modelSelection";
+import type { ResilienceConfig } from "@/common/ai/resilience/ResilientChatModel";
+import { env } from "@/common/utils/envConfig";
+
+// Model used when LLM_MODEL / EMBEDDING_MODEL are left empty
+const DEFAULT_LLM_MODELS: Record<LLMProviders, string> = {
+  [LLMProviders.OPENAI]: "gpt-4o",
+  [LLMProviders.ANTHROPIC]: "claude-3-5-sonnet-20240620",
+  [LLMProviders.DEEPSEEK]: "deepseek-chat",
+  [LLMProviders.OPENAI_COMPATIBLE]: env.OPENAI_COMPATIBLE_MODEL,
+  [LLMProviders.FAKE]: "fake",
+};
+
+const DEFAULT_EMBEDDING_MODELS: Record<EmbeddingProvider, string> = {
+  [EmbeddingProvider.OPENAI]: "text-embedding-3-large",
+  [EmbeddingProvider.OPENAI_COMPATIBLE]: "",
+  [EmbeddingProvider.FAKE]: "hash",
+};
+
+const LLM_API_KEYS: Record<LLMProviders, string> = {
+  [LLMProviders.OPENAI]: env.OPENAI_API_KEY,
+  [LLMProviders.ANTHROPIC]: env.ANTHROPIC_API_KEY,
+  [LLMProviders.DEEPSEEK]: env.DEEPSEEK_API_KEY,
+  [LLMProviders.OPENAI_COMPATIBLE]: env.OPENAI_COMPATIBLE_API_KEY,
+  [LLMProviders.FAKE]: "",
+};
+
+// Server of the OPENAI_COMPATIBLE provider, shared by its chat models and embeddings
+const openAICompatibleConnection = {
+  baseURL: env.OPENAI_COMPATIBLE_BASE_URL,
+  headers: env.OPENAI_COMPATIBLE_HEADERS,
+};
+
+const llmProvider = env.LLM_PROVIDER as LLMProviders;
+const cassetteMode = env.LLM_CASSETTE_MODE === "off" ? undefined : (env.LLM_CASSETTE_MODE as CassetteMode);
+
+if (cassetteMode && !env.LLM_CASSETTE_PATH) {
+  throw new Error(`LLM_CASSETTE_PATH is required when LLM_CASSETTE_MODE is "${cassetteMode}"`);
+}
+const embeddingProvider = env.EMBEDDING_PROVIDER as EmbeddingProvider;
+
+if (
+  (llmProvider === LLMProviders.OPENAI_COMPATIBLE || embeddingProvider === EmbeddingProvider.OPENAI_COMPATIBLE) &&
+  !openAICompatibleConnection.baseURL
+) {
+  throw new Error("OPENAI_COMPATIBLE_BASE_URL is required when a provider is OPENAI_COMPATIBLE");
+}
+
+export const resilienceConfig: ResilienceConfig = {
+  timeoutMs: env.LLM_TIMEOUT_MS,
+  maxRetries: env.LLM_MAX_RETRIES,
+  baseDelayMs: env.LLM_RETRY_BASE_DELAY_MS,
+  maxDelayMs: env.LLM_RETRY_MAX_DELAY_MS,
+  failureThreshold: env.LLM_CIRCUIT_FAILURE_THRESHOLD,
+  resetTimeoutMs: env.LLM_CIRCUIT_RESET_MS,
+};
+
+// Models tried in order when the chosen one keeps failing
+export const fallbackModels: ModelChoice[] = parseModelChoices(
+  env.LLM_FALLBACK_MODELS,
+  DEFAULT_LLM_MODELS,
+  "LLM_FALLBACK_MODELS",
+);
+
+// API keys a user brought, by provider; the server's keys are used for the other providers
+export type UserApiKeys = Partial<Record<LLMProviders, string>>;
+
+export const credentialsConfig = {
+  /** Whether a turn on a user's own key may fall back to models on the server's keys */
+  serverFallback: env.CREDENTIALS_SERVER_FALLBACK,
+};
+
+// A turn billed to the user is not silently moved to the operator's account by a fallback
+const fallbackAllowed = (choice: ModelChoice, apiKeys: UserApiKeys) => (fallback: ModelChoice) =>
+  !apiKeys[choice.provider] || Boolean(apiKeys[fallback.provider]) || credentialsConfig.serverFallback;
+
+// Provider, credentials and connection of a model, without fallbacks or cassette
+const providerModelConfig = (choice: ModelChoice, apiKeys: UserApiKeys): LLLModelConfig => ({
+  provider: choice.provider,
+  apiKey: apiKeys[choice.provider] ?? LLM_API_KEYS[choice.provider],
+  modelName: choice.model,
+  ...(choice.provider === LLMProviders.OPENAI_COMPATIBLE && {
+    ...openAICompatibleConnection,
+    capabilities: {
+      streaming: env.OPENAI_COMPATIBLE_STREAMING,
+      tools: env.OPENAI_COMPATIBLE_TOOLS,
+      jsonMode: env.OPENAI_COMPATIBLE_JSON_MODE,
+    },
+  }),
+  fixturesPath: env.FAKE_LLM_FIXTURES || undefined,
+});
+
+/**
+ * The model configuration for a provider and model, with that provider's API key, the resilience
+ * settings and the fallback models other than the chosen one
+ * When the chosen model runs on the user's own key, only fallbacks on providers they have a key for
+ * are kept, unless CREDENTIALS_SERVER_FALLBACK is set.
+ * @param choice A choice returned by `selectModel`
+ * @param apiKeys The session owner's own keys, used instead of the server's
+ */
+export const modelConfigFor = (choice: ModelChoice, apiKeys: UserApiKeys = {}): LLLModelConfig => ({
+  ...providerModelConfig(choice, apiKeys),
+  fallbacks: fallbackModels
+    .filter((fallback) => fallback.provider !== choice.provider || fallback.model !== choice.model)
+    .filter(fallbackAllowed(choice, apiKeys))
+    .map((fallback) => providerModelConfig(fallback, apiKeys)),
+  resilience: resilienceConfig,
+  cassette: cassetteMode ? { mode: cassetteMode, path: env.LLM_CASSETTE_PATH } : undefined,
+});
+
+export const defaultModelChoice: ModelChoice = {
+  provider: llmProvider,
+  model: env.LLM_MODEL || DEFAULT_LLM_MODELS[llmProvider],
+};
+
+export const modelConfig: LLLModelConfig = modelConfigFor(defaultModelChoice);
+
+// Models a session may choose; the configured default is always one of them
+export const allowedModels: ModelChoice[] = [
+  defaultModelChoice,
+  ...parseModelChoices(env.LLM_ALLOWED_MODELS, DEFAULT_LLM_MODELS, "LLM_ALLOWED_MODELS").filter(
+    (choice) => choice.provider !== defaultModelChoice.provider || choice.model !== defaultModelChoice.model,
+  ),
+];
+
+/**
+ * Resolve a requested provider and model against LLM_ALLOWED_MODELS
+ * @param requested Provider and/or model asked for
+ * @param fallback What the request leaves out is taken from here, e.g. the session's model
+ * @returns The choice, or null when it is not allowed
+ */
+export const selectModel = (requested: Partial<ModelChoice>, fallback: ModelChoice = defaultModelChoice) =>
+  resolveModelChoice(requested, fallback, allowedModels, DEFAULT_LLM_MODELS);
+
+// Per-chain overrides from LLM_PROFILES_PATH and LLM_PROFILES
+export const modelProfiles = loadModelProfiles(env.LLM_PROFILES_PATH, env.LLM_PROFILES);
+
+/**
+ * The model configuration of each chain: the session's model with the overrides of the chain's profile
+ * A profile naming a provider without a model uses that provider's default model. Profiles are set by
+ * the operator, so they are not checked against LLM_ALLOWED_MODELS. A model the user chose for the
+ * session or the turn takes precedence over the profiles' provider and model, so every chain runs on
+ * it, and on their own key; only the profiles' temperature and maxTokens still apply.
+ * @param base The session's model configuration, from `modelConfigFor`
+ * @param apiKeys The session owner's own keys, for profiles on another provider
+ * @param chosen Whether the user chose the session's model instead of the configured default
+ */
+export const profileModelConfigs = (
+  base: LLLModelConfig,
+  apiKeys: UserApiKeys = {},
+  chosen = false,
+): ProfileModelConfigs => {
+  const baseChoice = { provider: base.provider, model: base.modelName ?? DEFAULT_LLM_MODELS[base.provider] };
+  const entries = MODEL_PROFILES.map((name) => {
+    const { provider, model, temperature, maxTokens } = modelProfiles[name] ?? {};
+    const config =
+      !chosen && (provider || model)
+        ? modelConfigFor(completeModelChoice({ provider, model }, baseChoice, DEFAULT_LLM_MODELS), apiKeys)
+        : base;
+    return [
+      name,
+      { ...config, temperature: temperature ?? config.temperature, maxTokens: maxTokens ?? config.maxTokens },
+    ];
+  });
+  return Object.fromEntries(entries) as ProfileModelConfigs;
+};
+
+const EMBEDDING_API_KEYS: Record<EmbeddingProvider, string> = {
+  [EmbeddingProvider.OPENAI]: env.OPENAI_API_KEY,
+  [EmbeddingProvider.OPENAI_COMPATIBLE]: env.OPENAI_COMPATIBLE_API_KEY,
+  [EmbeddingProvider.FAKE]: "",
+};
+
+export const embeddingConfig: EmbeddingConfig = {
+  provider: embeddingProvider,
+  apiKey: EMBEDDING_API_KEYS[embeddingProvider],
+  modelName: env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODELS[embeddingProvider],
+  ...(embeddingProvider === EmbeddingProvider.OPENAI_COMPATIBLE && openAICompatibleConnection),
+};
+
+export const vectorStoreConfig: VectorStoreConfig = {
+  provider: env.VECTOR_STORE_PROVIDER as VectorStoreProvider,
+  connectionConfig: {
+    postgresConnectionOptions: {
+      type: "postgres",
+      host: "127.0.0.1",
+      port: 5432,
+      user: "test",
+      password: "test",
+      database: "api",
+    },
+    tableName: "delila_eliza",
+  },
+};
+
+export const retrievalConfig: RetrievalConfig = {
+  globalK: env.KNOWLEDGE_GLOBAL_K,
+  sessionK: env.KNOWLEDGE_SESSION_K,
+  minScore: env.KNOWLEDGE_MIN_SCORE,
+  candidates: env.KNOWLEDGE_CANDIDATES,
+  reranker: createReranker(env.KNOWLEDGE_RERANKER as RerankerName),
+};
+
+export const toolLoopConfig: ToolLoopConfig = {
+  maxSteps: env.CHARACTER_TOOL_MAX_STEPS,
+};
+
+export const characterUpdateConfig: CharacterUpdateConfig = {
+  mode: env.CHARACTER_UPDATE_MODE as CharacterUpdateMode,
+};
@@ -0,0 +1,239 @@
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import type { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import type { BaseLanguageModelInput } from "@langchain/core/language_models/base";
+import {
+  BaseChatModel,
+  type BaseChatModelCallOptions,
+  type BaseChatModelParams,
+  type BindToolsInput,
+} from "@langchain/core/language_models/chat_models";
+import {
+  AIMessage,
+  AIMessageChunk,
+  type BaseMessage,
+  type MessageContent,
+  type ToolMessage,
+  isAIMessage,
+} from "@langchain/core/messages";
+import type { ToolCall } from "@langchain/core/messages/tool";
+import { ChatGenerationChunk, type ChatResult } from "@langchain/core/outputs";
+import type { Runnable } from "@langchain/core/runnables";
+import { convertToOpenAITool } from "@langchain/core/utils/function_calling";
+
+export type CassetteMode = "record" | "replay";
+
+// Call options that change what the model answers, so they are part of the prompt hash
+const HASHED_CALL_OPTIONS = ["tools", "tool_choice", "response_format", "stop"] as const;
+
+export type CassettePromptMessage = {
+  role: string;
+  content: MessageContent;
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
+};
+
+export type CassetteInteraction = {
+  hash: string;
+  prompt: CassettePromptMessage[];
+  options?: Record<string, unknown>;
+  completion: {
+    content: MessageContent;
+    tool_calls?: ToolCall[];
+  };
+};
+
+export type Cassette = {
+  version: 1;
+  interactions: CassetteInteraction[];
+};
+
+export interface CassetteChatModelParams extends BaseChatModelParams {
+  mode: CassetteMode;
+  /** JSON file the interactions are written to (record) or read from (replay) */
+  path: string;
+  /** Model whose completions are recorded; not needed for replay */
+  model?: BaseChatModel;
+}
+
+/**
+ * Thrown in replay mode when a prompt has no recorded completion
+ * This usually means a prompt template changed and the cassette needs to be recorded again.
+ */
+export class CassetteMissError extends Error {
+  constructor(
+    readonly cassettePath: string,
+    readonly hash: string,
+    prompt: CassettePromptMessage[],
+  ) {
+    const lastMessage = prompt[prompt.length - 1];
+    const excerpt = typeof lastMessage?.content === "string" ? lastMessage.content.trim().slice(0, 200) : "";
+    super(
+      `No recorded completion for prompt ${hash} in cassette ${cassettePath}. ` +
+        `Re-record it with LLM_CASSETTE_MODE=record. Prompt starts with: ${excerpt}`,
+    );
+    this.name = "CassetteMissError";
+  }
+}
+
+const toPromptMessages = (messages: BaseMessage[]): CassettePromptMessage[] =>
+  messages.map((message) => ({
+    role: message._getType(),
+    content: message.content,
+    ...(isAIMessage(message) && message.tool_calls?.length ? { tool_calls: message.tool_calls } : {}),
+    ...(message._getType() === "tool" ? { tool_call_id: (message as ToolMessage).tool_call_id } : {}),
+  }));
+
+const pickHashedOptions = (options: Record<string, unknown>): Record<string, unknown> | undefined => {
+  const picked = Object.fromEntries(
+    HASHED_CALL_OPTIONS.filter((key) => options[key] !== undefined).map((key) => [key, options[key]]),
+  );
+  return Object.keys(picked).length ? picked : undefined;
+};
+
+/**
+ * Stable hash of a prompt and the options that shape its answer
+ * @returns Hex encoded SHA-256 digest
+ */
+export const hashPrompt = (prompt: CassettePromptMessage[], options?: Record<string, unknown>): string =>
+  createHash("sha256")
+    .update(JSON.stringify({ prompt, options: options ?? null }))
+    .digest("hex");
+
+export const loadCassette = (path: string): Cassette => {
+  if (!existsSync(path)) return { version: 1, interactions: [] };
+  const cassette = JSON.parse(readFileSync(path, "utf8")) as Cassette;
+  if (!Array.isArray(cassette?.interactions)) {
+    throw new Error(`Cassette at ${path} must contain an "interactions" array`);
+  }
+  return cassette;
+};
+
+/**
+ * Chat model that records every prompt/completion pair of an inner model to a cassette file,
+ * or serves recorded completions back by prompt hash so chains can be re-run offline
+ */
+export class CassetteChatModel extends BaseChatModel {
+  readonly mode: CassetteMode;
+  readonly path: string;
+  private model?: BaseChatModel;
+  private interactions: Map<string, CassetteInteraction>;
+
+  constructor(params: CassetteChatModelParams) {
+    super(params);
+    if (params.mode === "record" && !params.model) {
+      throw new Error("A model is required to record a cassette");
+    }
+    this.mode = params.mode;
+    this.path = params.path;
+    this.model = params.model;
+    this.interactions = new Map(loadCassette(params.path).interactions.map((entry) => [entry.hash, entry]));
+  }
+
+  static lc_name() {
+    return "CassetteChatModel";
+  }
+
+  _llmType() {
+    return `cassette-${this.mode}`;
+  }
+
+  // Tools are stored as plain JSON definitions, which every provider accepts and which hash stably
+  bindTools(
+    tools: BindToolsInput[],
+    kwargs?: Partial<BaseChatModelCallOptions>,
+  ): Runnable<BaseLanguageModelInput, AIMessageChunk, BaseChatModelCallOptions> {
+    return this.bind({
+      tools: tools.map((tool) => convertToOpenAITool(tool)),
+      ...kwargs,
+    } as Partial<BaseChatModelCallOptions>);
+  }
+
+  async _generate(messages: BaseMessage[], options: this["ParsedCallOptions"]): Promise<ChatResult> {
+    const { prompt, hashedOptions, hash } = this.describe(messages, options);
+
+    if (this.mode === "replay") {
+      const message = this.replay(hash, prompt);
+      return { generations: [{ text: typeof message.content === "string" ? message.content : "", message }] };
+    }
+
+    const message = await (this.model as BaseChatModel).invoke(messages, options);
+    this.record({ hash, prompt, options: hashedOptions, completion: this.toCompletion(message) });
+    return { generations: [{ text: typeof message.content === "string" ? message.content : "", message }] };
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun,
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const { prompt, hashedOptions, hash } = this.describe(messages, options);
+
+    if (this.mode === "replay") {
+      const { content, tool_calls } = this.replay(hash, prompt);
+      const text = typeof content === "string" ? content : "";
+      yield new ChatGenerationChunk({
+        text,
+        message: new AIMessageChunk({
+          content,
+          tool_call_chunks: tool_calls?.map((call, index) => ({
+            type: "tool_call_chunk",
+            id: call.id,
+            name: call.name,
+            args: JSON.stringify(call.args),
+            index,
+          })),
+        }),
+      });
+      await runManager?.handleLLMNewToken(text);
+      return;
+    }
+
+    let aggregate: AIMessageChunk | undefined;
+    for await (const chunk of await (this.model as BaseChatModel).stream(messages, options)) {
+      aggregate = aggregate ? aggregate.concat(chunk) : chunk;
+      const text = typeof chunk.content === "string" ? chunk.content : "";
+      yield new ChatGenerationChunk({ text, message: chunk });
+      await runManager?.handleLLMNewToken(text);
+    }
+    this.record({
+      hash,
+      prompt,
+      options: hashedOptions,
+      completion: this.toCompletion(aggregate ?? new AIMessageChunk("")),
+    });
+  }
+
+  private describe(messages: BaseMessage[], options: this["ParsedCallOptions"]) {
+    const prompt = toPromptMessages(messages);
+    const hashedOptions = pickHashedOptions(options as Record<string, unknown>);
+    return { prompt, hashedOptions, hash: hashPrompt(prompt, hashedOptions) };
+  }
+
+  private replay(hash: string, prompt: CassettePromptMessage[]): AIMessage {
+    const interaction = this.interactions.get(hash);
+    if (!interaction) {
+      throw new CassetteMissError(this.path, hash, prompt);
+    }
+    return new AIMessage({
+      content: interaction.completion.content,
+      tool_calls: interaction.completion.tool_calls ?? [],
+    });
+  }
+
+  private toCompletion(message: AIMessage | AIMessageChunk): CassetteInteraction["completion"] {
+    return {
+      content: message.content,
+      ...(message.tool_calls?.length ? { tool_calls: message.tool_calls } : {}),
+    };
+  }
+
+  // The whole cassette is rewritten after every call so an interrupted run keeps what it recorded
+  private record(interaction: CassetteInteraction) {
+    this.interactions.set(interaction.hash, interaction);
+    const cassette: Cassette = { version: 1, interactions: [...this.interactions.values()] };
+    mkdirSync(dirname(this.path), { recursive: true });
+    writeFileSync(this.path, `${JSON.stringify(cassette, null, 2)}\n`);
+  }
+}
@@ -1,68 +1,125 @@
-import { StructuredOutputParser } from '@langchain/core/output_parsers';
-import { OutputFixingParser } from "langchain/output_parsers";
+import { OutputParserException, StructuredOutputParser } from '@langchain/core/output_parsers';
 
 import { HumanMessage } from "@langchain/core/messages";
 import { P } from "pino";
 import { LLLModelConfig, LLMModelManager, LLMProviders } from "../LLMModelManager";
-import { EmbeddingConfig, EmbeddingManager, EmbeddingProvider } from "../EmbeddingManager";
+import type { EmbeddingConfig } from "../EmbeddingManager";
 import { VectorStoreConfig, VectorStoreManager } from "../VectorStoreManager";
-import { RunnableSequence } from "@langchain/core/runnables";
+import { type KnowledgeCitation, type RetrievalConfig, retrieveKnowledge, toCitation } from "../knowledge/knowledgeRetrieval";
+import { type Runnable, RunnableSequence } from "@langchain/core/runnables";
 import { elizaCharacterGeneratorSystemPrompt } from "../systemPromtTemplates/elizaCharacterGeneratorSystemPromt";
 import { elizaReplyGeneratorSystemPrompt } from "../systemPromtTemplates/elizaReplyGeneratorSystemPrompt";
 import { z } from "zod";
-import { characterJsonSchema, CharacterSchema } from "./characterConfig";
-import { IterableReadableStream } from '@langchain/core/utils/stream';
+import { characterJsonSchema, CharacterSchema, createEmptyCharacterFile } from "./characterConfig";
+import { runCharacterToolLoop, type ToolLoopConfig, type ToolLoopStep } from "./characterToolLoop";
+import { CharacterEditResponseSchema, type CharacterUpdateConfig, editCharacterFile } from "./characterEdits";
+import { parseCharacterDraft, repairCharacterFile } from "./characterRepair";
+import { type CharacterFieldError, validateCharacterFile } from "./characterValidation";
+import { formatCatalogForPrompt, relevantCatalogEntries } from "./elizaCatalog";
+import { formatInterviewPlan, type InterviewPlan, planInterview } from "./interviewPlanner";
+import { replyDeltas } from "./replyStream";
+import { type CharacterFieldEvent, trackCharacterProgress, withoutLastValue } from "./characterProgress";
 import { DatabaseService } from '../../../database';
-import { StringOutputParser } from "@langchain/core/output_parsers";
-import { ChatPromptTemplate } from "@langchain/core/prompts";
+import { StructuredAnswerParser, streamStructuredAnswer, structuredOutputInstructions } from "../structuredOutput";
+import { MODEL_PROFILES, type ModelProfileName, type ProfileModelConfigs } from "../modelProfiles";
+import { type ModelFallbackNotice, type ModelRef, withFallbackNotices } from "../resilience/ResilientChatModel";
+import { redactError } from "../../utils/redactSecrets";
 
 // Define types for the response streams
 export type ReplyResponse = {
   type: 'reply';
+  /** Text added to the reply since the previous event */
   content: string;
 };
 
+export type ReplyCompleteResponse = {
+  type: 'replyComplete';
+  /** The whole reply, the concatenation of every `reply` delta */
+  content: string;
+};
+
+export type ReplyStreamEvent = ReplyResponse | ReplyCompleteResponse;
+
 export type CharacterFileResponse = {
   type: 'characterFile';
-  content: any;
+  /** The character file, which may still fail CharacterSchema validation */
+  content: unknown;
 };
 
 export type CombinedResponse = ReplyResponse | CharacterFileResponse;
 
+export type CharacterPipelineStats = {
+  /** Model calls made to edit the character file, to draft it in full (including tool loop steps) and to repair it */
+  modelCalls: { edit: number; draft: number; repair: number; total: number };
+  /** Wall-clock time of each phase in milliseconds */
+  timingsMs: { edit: number; draft: number; validate: number; repair: number; total: number };
+  /** How the character file was updated, from CHARACTER_UPDATE_MODE */
+  mode: CharacterUpdateConfig['mode'];
+  /** True when the edit operations could not be used and the character file was drafted in full instead */
+  fallback: boolean;
+  /** Number of edit operations applied */
+  operations: number;
+  /** True when the repair call changed the character file */
+  repaired: boolean;
+};
+
+export type CharacterFileResult = {
+  /** A JSON object; it matches CharacterSchema only when `valid` is true */
+  characterFile: unknown;
+  /** True when the character file passed CharacterSchema validation */
+  valid: boolean;
+  /** Fields still failing validation when `valid` is false */
+  errors: CharacterFieldError[];
+  stats: CharacterPipelineStats;
+};
+
 export class ElizaGeneratorAgent {
-  private llm: LLMModelManager;
-  private embedder: EmbeddingManager;
+  // One model per chain, resolved from its profile
+  private models: Record<ModelProfileName, LLMModelManager>;
   private vectorStore: VectorStoreManager;
+  private retrievalConfig: RetrievalConfig;
+  private toolLoopConfig: ToolLoopConfig;
+  private characterUpdateConfig: CharacterUpdateConfig;
   private db: DatabaseService;
 
-  private constructor(modelConfig: LLLModelConfig, embeddingConfig: EmbeddingConfig, vectorStoreConfig: VectorStoreConfig) {
-    // Enable tools by default for the LLM
-    const configWithTools: LLLModelConfig = {
-      ...modelConfig,
-      enableTools: true
-    };
+  private constructor(modelConfigs: ProfileModelConfigs, embeddingConfig: EmbeddingConfig, vectorStoreConfig: VectorStoreConfig, retrievalConfig: RetrievalConfig, toolLoopConfig: ToolLoopConfig, characterUpdateConfig: CharacterUpdateConfig) {
+    // Enable tools by default for the LLMs; chains with the same configuration share a model
+    const models = MODEL_PROFILES.map((profile) => {
+      const configWithTools: LLLModelConfig = {
+        ...modelConfigs[profile],
+        enableTools: true
+      };
+      return [profile, LLMModelManager.getInstance(configWithTools)];
+    });
     
-    this.llm = LLMModelManager.getInstance(configWithTools);
-    this.embedder = EmbeddingManager.getInstance(embeddingConfig);
-    this.vectorStore = new VectorStoreManager(vectorStoreConfig, this.embedder.getEmbedder());
+    this.models = Object.fromEntries(models) as Record<ModelProfileName, LLMModelManager>;
+    this.vectorStore = VectorStoreManager.getInstance(vectorStoreConfig, embeddingConfig);
+    this.retrievalConfig = retrievalConfig;
+    this.toolLoopConfig = toolLoopConfig;
+    this.characterUpdateConfig = characterUpdateConfig;
     this.db = DatabaseService.getInstance();
     
-    console.log(`[AGENT] Created ElizaGeneratorAgent with tools ${this.llm.areToolsEnabled() ? 'enabled' : 'disabled'}`);
+    console.log(`[AGENT] Created ElizaGeneratorAgent with tools ${this.models.character.areToolsEnabled() ? 'enabled' : 'disabled'}`);
+  }
+
+  /**
+   * Get the provider and model a chain runs on, to record on the messages it produces
+   * @param profile The chain's profile
+   */
+  public getProfileModel(profile: ModelProfileName): { provider: LLMProviders; model: string | null } {
+    const llm = this.models[profile];
+    return { provider: llm.getProvider(), model: llm.getModelName() };
   }
 
   /**
    * Initialize the agent and prepare session data
    * @param sessionId Unique session identifier
-   * @param userMessage The user's message
-   * @returns Object containing message history, context, and character file
+   * @param userMessage The user's message, already stored in the session by the caller
+   * @returns Object containing message history, context, citations for the context, character file and interview plan
    */
-  public async initializeSession(sessionId: string, userMessage: string): Promise<{ messageHistory: string, context: string, sessionId: string, characterFile: any }> {
-    console.log(`[START] initializeSession - Session ID: ${sessionId}`);
-    
+  public async initializeSession(sessionId: string, userMessage: string): Promise<{ messageHistory: string, context: string, citations: KnowledgeCitation[], sessionId: string, characterFile: any, plan: InterviewPlan }> {
     try {
-      console.log(`[STEP 1] Initializing vector store`);
       await this.vectorStore.init();
-      console.log(`[STEP 1] Vector store initialized successfully`);
       
       // Ensure database connection
       await this.db.connect();
@@ -70,85 +127,43 @@ export class ElizaGeneratorAgent {
       // Get or create session
       let session = await this.db.sessions.getSessionById(sessionId);
       if (!session) {
-        console.log(`[STEP 2] Creating new session in database for ID: ${sessionId}`);
         session = await this.db.sessions.createSession();
-      } else {
-        console.log(`[STEP 2] Found existing session in database for ID: ${sessionId}`);
       }
       
-      // Store message in database
-      console.log(`[STEP 3] Processing user message: "${userMessage}"`);
-      await this.db.messages.createMessage({
-        content: userMessage,
-        role: 'user',
-        sessionId: session.id,
-      });
-      
-      console.log(`[STEP 3] Added message to database`);
-
-      // Fetch relevant context from vector store
-      console.log(`[STEP 4] Fetching relevant context from vector store`);
-      const relevantDocs = await this.vectorStore.getVectorStore().similaritySearch(userMessage, 3);
-      console.log(`[STEP 4] Found ${relevantDocs.length} relevant documents`);
+      // Fetch relevant context from the global and the session's own knowledge
+      const relevantChunks = await retrieveKnowledge(this.vectorStore, userMessage, session.id, this.retrievalConfig);
+      const relevantDocs = relevantChunks.map(chunk => chunk.document);
+      const citations = relevantChunks.map(toCitation);
       
       const context = relevantDocs.map(doc => doc.pageContent).join('\n');
-      console.log(`[STEP 4] Context length: ${context.length} characters`);
-      
-      if (relevantDocs.length > 0) {
-        console.log(`[STEP 4] First document metadata:`, relevantDocs[0].metadata);
-      }
 
-      // Create message history string from database (excluding the current message)
-      console.log(`[STEP 5] Creating message history string from database`);
+      // Create message history string from database; the caller has stored the current message,
+      // so the history ends with the message the reply answers
       const dbMessages = await this.db.messages.getMessagesBySessionId(session.id);
       
-      // Remove the last message (current user message) from history
-      const previousMessages = dbMessages.slice(0, dbMessages.length);
-      
       // Format message history as "User Message: content" or "Assistant Message: content"
-      const messageHistory = previousMessages.map(msg => {
+      // Tool messages only record how a character file was validated, they are not part of the conversation
+      const messageHistory = dbMessages.filter(msg => msg.role !== 'tool').map(msg => {
         const roleLabel = msg.role === 'user' ? 'User Message' : 'Assistant Message';
         return `${roleLabel}: ${msg.content}`;
       }).join('\n');
-      
-      console.log(`[STEP 5] Message history length: ${messageHistory.length} characters`);
 
       // Fetch current character file from database
-      console.log(`[STEP 6] Fetching current character file from database`);
-      let characterFile = await this.db.characterFiles.getCharacterFileBySessionId(session.id);
-      if (!characterFile) {
-        console.log(`[STEP 6] No character file found, creating empty template`);
-        characterFile = {
-          name: "",
-          bio: [],
-          lore: [],
-          knowledge: [],
-          messageExamples: [],
-          postExamples: [],
-          topics: [],
-          style: {
-            all: [],
-            chat: [],
-            post: []
-          },
-          adjectives: [],
-          clients: [],
-          plugins: [],
-          modelProvider: "",
-          settings: {
-            secrets: {},
-            voice: {
-              model: "en_US-male-medium"
-            }
-          }
-        };
+      const storedCharacterFile = await this.db.characterFiles.getCharacterFileBySessionId(session.id);
+      let characterFile: any;
+      if (!storedCharacterFile) {
+        characterFile = createEmptyCharacterFile();
       } else {
-        console.log(`[STEP 6] Found existing character file`);
+        // Use the stored content (which may have been edited by the user) as the current state
+        characterFile = storedCharacterFile.content;
       }
 
-      return { messageHistory, context, sessionId: session.id, characterFile };
+      // Plan what the reply should ask about from the gaps in the character file
+      const plan = planInterview(characterFile, session.stage);
+
+      return { messageHistory, context, citations, sessionId: session.id, characterFile, plan };
     } catch (error) {
-      console.error(`[ERROR] Exception in initializeSession:`, error);
+      console.error(`[ERROR] Exception in initializeSession:`, redactError(error));
       throw error;
     }
   }
@@ -160,19 +175,21 @@ export class ElizaGeneratorAgent {
    * @param messageHistory Previous conversation history
    * @param context Relevant context from vector store
    * @param characterFile Current character file
-   * @returns Stream of reply chunks
+   * @param plan Interview plan with the stage and the fields to ask about
+   * @param onFallback Called when a fallback model answers because the reply model kept failing
+   * @returns Stream of reply text deltas, ending with the complete reply
    */
-  public async generateReply(sessionId: string, userMessage: string, messageHistory: string, context: string, characterFile: any): Promise<IterableReadableStream<any>> {
+  public async generateReply(sessionId: string, userMessage: string, messageHistory: string, context: string, characterFile: any, plan: InterviewPlan, onFallback?: (notice: ModelFallbackNotice) => void): Promise<AsyncGenerator<ReplyStreamEvent>> {
     console.log(`[REPLY] Generating reply for session ${sessionId}`);
-
-    console.log(messageHistory);
     
-    // Create a parser for the reply
+    // Schema of the reply; the parser only provides the format instructions
     const ReplySchema = z.object({
       reply: z.string()
     });
     
     const replyParser = StructuredOutputParser.fromZodSchema(ReplySchema);
+    // The provider's native structured output when it has one, format instructions otherwise
+    const structuredModel = this.models.reply.getStructuredModel(ReplySchema, 'reply');
     
     // Create the reply chain
     const replyChain = RunnableSequence.from([
@@ -180,159 +197,189 @@ export class ElizaGeneratorAgent {
         messageHistory: (input) => messageHistory,
         context: (input) => context,
         characterFile: (input) => JSON.stringify(characterFile, null, 2),
-        formatInstructions: (input) => replyParser.getFormatInstructions(),
+        interviewPlan: (input) => formatInterviewPlan(plan),
+        formatInstructions: (input) => structuredModel ? structuredOutputInstructions('reply') : replyParser.getFormatInstructions(),
       },
       elizaReplyGeneratorSystemPrompt,
-      this.llm.getModel(),
-      replyParser
+      // Both yield the partially parsed reply as it grows, which is turned into deltas below
+      structuredModel ?? this.models.reply.getModel().pipe(new StructuredAnswerParser())
     ]);
     
-    console.log(`[REPLY] Reply chain created, starting stream`);
-    const stream = await replyChain.stream(userMessage);
+    const stream = await (onFallback ? withFallbackNotices(replyChain, onFallback) : replyChain).stream(userMessage);
     
-    // Add debug logging
-    return this.addStreamLogging(stream, '[REPLY_STREAM]');
+    // A failing model ends the deltas with its error, so a cut-off reply is never completed
+    return replyDeltas(stream);
   }
   
   /**
    * Generate a character file based on the conversation
+   *
+   * In "edits" mode the model lists set/append/remove operations against the current character
+   * file and they are applied here; when they cannot be parsed or applied, the model drafts the
+   * whole character file instead, as it always does in "full" mode. The result is parsed and checked against
+   * CharacterSchema locally. Only when that fails does a repair call run, with just the failing
+   * fields and their part of the schema.
    * @param sessionId Unique session identifier
    * @param userMessage The user's message
    * @param messageHistory Previous conversation history
    * @param context Relevant context from vector store
    * @param characterFile Current character file
-   * @returns Stream of character file chunks
+   * @param onField Called for each field as the model writes it, and once more for the changes of validation and repair
+   * @param onFallback Called when a fallback model answers because the character or repair model kept failing
+   * @returns The character file, whether it passed validation, and model call counts and timings
    */
-  public async generateCharacterFile(sessionId: string, userMessage: string, messageHistory: string, context: string, characterFile: any): Promise<IterableReadableStream<any>> {
+  public async generateCharacterFile(sessionId: string, userMessage: string, messageHistory: string, context: string, characterFile: any, onField?: (event: CharacterFieldEvent) => void, onFallback?: (notice: ModelFallbackNotice) => void): Promise<CharacterFileResult> {
     console.log(`[CHARACTER] Generating character file for session ${sessionId}`);
+    const stats: CharacterPipelineStats = {
+      modelCalls: { edit: 0, draft: 0, repair: 0, total: 0 },
+      timingsMs: { edit: 0, draft: 0, validate: 0, repair: 0, total: 0 },
+      mode: this.characterUpdateConfig.mode,
+      fallback: false,
+      operations: 0,
+      repaired: false,
+    };
+    const started = Date.now();
+    let phaseStarted = started;
+    const endPhase = (phase: keyof CharacterPipelineStats['timingsMs']) => {
+      const now = Date.now();
+      stats.timingsMs[phase] += now - phaseStarted;
+      phaseStarted = now;
+    };
     
+    // Field events are derived from the partially parsed model output
+    const progress = trackCharacterProgress(characterFile, (event) => onField?.(event));
+    const onDraft = (partial: unknown) => progress.update(withoutLastValue(partial), true);
+    const notifying = <RunInput, RunOutput>(model: Runnable<RunInput, RunOutput>) => onFallback ? withFallbackNotices(model, onFallback) : model;
+    // The model that actually answered the tool loop, recorded on its tool messages
+    let toolLoopModel: ModelRef = this.getProfileModel('character');
+
     try {
-      // Create a parser for the character file
-      const parser = StructuredOutputParser.fromZodSchema(CharacterSchema);
-      
-      // Create an output fixing parser to handle potential parsing errors
-      const fixingParser = OutputFixingParser.fromLLM(
-        this.llm.getModel(),
-        parser
-      );
-      
-      // Create a JSON validator prompt
-      const jsonValidatorPrompt = ChatPromptTemplate.fromTemplate(`
-        You are a JSON validator and repair expert. Your task is to validate and fix the following JSON object 
-        to ensure it conforms to the required schema for a character file.
-        
-        Here is the JSON schema that the object should conform to:
-        {characterJsonSchema}
-        
-        Here is the JSON object to validate and fix:
-        {jsonObject}
-        
-        If the JSON is valid and conforms to the schema, return it unchanged.
-        If the JSON has syntax errors or doesn't conform to the schema, fix it and return the corrected version.
-        
-        Return ONLY the fixed JSON object, with no additional explanation or commentary.
-        The output must be valid JSON that can be parsed with JSON.parse().
-      `);
-      
-      // Create a JSON validator function
-      const validateJson = async (characterData: any) => {
-        console.log(`[CHARACTER] Validating JSON`);
-        const jsonString = JSON.stringify(characterData, null, 2);
-        
-        const jsonValidatorChain = RunnableSequence.from([
-          {
-            characterJsonSchema: () => characterJsonSchema,
-            jsonObject: () => jsonString
-          },
-          jsonValidatorPrompt,
-          this.llm.getModel(),
-          new StringOutputParser()
-        ]);
-        
-        console.log(`[CHARACTER] Running JSON validation chain`);
-        const validatedJsonString = await jsonValidatorChain.invoke({});
-        
-        try {
-          // Parse the validated JSON
-          const validatedJson = JSON.parse(validatedJsonString);
-          console.log(`[CHARACTER] JSON validation complete`);
-          return validatedJson;
-        } catch (parseError) {
-          console.error(`[CHARACTER] Failed to parse validated JSON: ${parseError}`);
-          // If we can't parse it, return the original
-          return characterData;
+      const catalog = formatCatalogForPrompt(relevantCatalogEntries(`${messageHistory}\n${userMessage}`, characterFile));
+      let draft: unknown;
+      let edited = false;
+
+      // Let the model edit the current character file; the edits are applied here, not by the model
+      if (this.characterUpdateConfig.mode === 'edits') {
+        const editModel = this.models.character.getStructuredModel(CharacterEditResponseSchema, 'character_edits') ?? this.models.character.getModel();
+        const edit = await editCharacterFile(notifying(editModel), characterFile, { messageHistory, context, catalog, userMessage }, (preview) => progress.update(preview, false));
+        stats.modelCalls.edit = 1;
+        endPhase('edit');
+        if ('error' in edit) {
+          console.log(`[CHARACTER] Edit operations could not be applied (${edit.error}), drafting the full character file`);
+          stats.fallback = true;
+        } else {
+          console.log(`[CHARACTER] Applied ${edit.operations.length} edit operations`);
+          draft = edit.characterFile;
+          stats.operations = edit.operations.length;
+          edited = true;
         }
-      };
-      
-      // Create the character file chain with validation
-      const characterChain = RunnableSequence.from([
-        {
-          messageHistory: (input) => messageHistory,
-          context: (input) => context,
-          characterFile: (input) => JSON.stringify(characterFile, null, 2),
-          characterJsonSchema: (input) => characterJsonSchema,
-          formatInstructions: (input) => parser.getFormatInstructions(),
-        },
-        elizaCharacterGeneratorSystemPrompt,
-        this.llm.getModel(),
-        new StringOutputParser(),
-        {
-          characterJsonSchema: () => characterJsonSchema,
-          jsonObject: (output) => JSON.stringify(output, null, 2)
-        },
-        jsonValidatorPrompt,
-        this.llm.getModel(),
-        fixingParser
-      ]);
-      
-      console.log(`[CHARACTER] Character chain created with validation, starting stream`);
-      const stream = await characterChain.stream(userMessage);
-      
-      // Add debug logging
-      return this.addStreamLogging(stream, '[CHARACTER_STREAM]');
+      }
+
+      if (!edited) {
+        // Create a parser for the format instructions of the character file, unless the provider enforces the schema itself
+        const parser = StructuredOutputParser.fromZodSchema(CharacterSchema);
+        const structuredModel = this.models.character.getStructuredModel(CharacterSchema, 'character_file');
+
+        // Let the model draft the character file, checking it with validate_character_file until it is valid
+        const prompt = await elizaCharacterGeneratorSystemPrompt.formatMessages({
+          messageHistory,
+          context,
+          characterFile: JSON.stringify(characterFile, null, 2),
+          characterJsonSchema,
+          catalog,
+          formatInstructions: structuredModel ? structuredOutputInstructions('character_file') : parser.getFormatInstructions(),
+        });
+        // Any tool, so the model can look up catalog entries before validating
+        const toolModel = this.models.character.getToolModel({ tool_choice: 'any' });
+        if (toolModel) {
+          const trackedToolModel = withFallbackNotices(toolModel, (notice) => {
+            toolLoopModel = notice.to;
+            onFallback?.(notice);
+          });
+          const result = await runCharacterToolLoop(trackedToolModel, prompt, this.toolLoopConfig, onDraft);
+          console.log(`[CHARACTER] Tool loop finished after ${result.steps.length} tool calls, valid: ${result.valid}`);
+          await this.storeToolSteps(sessionId, result.steps, toolLoopModel);
+          draft = result.characterFile;
+          stats.modelCalls.draft = result.modelCalls;
+        } else {
+          // Not validated yet; the draft goes through the same local validation and repair
+          draft = await streamStructuredAnswer(notifying(structuredModel ?? this.models.character.getModel()), prompt, onDraft);
+          stats.modelCalls.draft = 1;
+        }
+        endPhase('draft');
+      }
+
+      // Check the draft locally; the model is only asked again for the fields that fail
+      let candidate = parseCharacterDraft(draft);
+      let validation = typeof candidate === 'string'
+        ? { success: false as const, errors: [{ path: '', message: 'The output is not valid JSON', code: 'invalid_json' }] }
+        : validateCharacterFile(candidate);
+      endPhase('validate');
+
+      if (!validation.success) {
+        console.log(`[CHARACTER] ${validation.errors.length} fields failed validation, running repair`);
+        const repair = await repairCharacterFile(notifying(this.models.repair.getModel()), candidate, validation.errors, messageHistory);
+        stats.modelCalls.repair = 1;
+        stats.repaired = repair.applied > 0;
+        candidate = repair.characterFile;
+        endPhase('repair');
+
+        validation = typeof candidate === 'string'
+          ? validation
+          : validateCharacterFile(candidate);
+        endPhase('validate');
+      }
+
+      stats.modelCalls.total = stats.modelCalls.edit + stats.modelCalls.draft + stats.modelCalls.repair;
+      stats.timingsMs.total = Date.now() - started;
+      console.log(`[CHARACTER] Done in ${stats.timingsMs.total}ms with ${stats.modelCalls.total} model calls`, stats);
+
+      // Report what the edits, validation and repair changed beyond the fields streamed so far
+      progress.update(validation.success ? validation.data : candidate, false);
+
+      if (validation.success) {
+        return { characterFile: validation.data, valid: true, errors: [], stats };
+      }
+      if (typeof candidate !== 'object' || candidate === null || Array.isArray(candidate)) {
+        throw new OutputParserException(`Failed parsing the character file output: ${String(candidate).slice(0, 200)}`);
+      }
+      // Keep the closest character file we have; the validation errors go back to the client
+      return { characterFile: candidate, valid: false, errors: validation.errors, stats };
     } catch (error) {
-      console.error(`[CHARACTER] Error setting up character file generation:`, error);
+      console.error(`[CHARACTER] Error generating character file:`, redactError(error));
       throw error;
     }
   }
   
   /**
-   * Add logging to a stream without consuming it
-   * @param stream The stream to add logging to
-   * @param prefix The prefix to use for log messages
-   * @returns The same stream with logging added
+   * Persist the tool calls of a tool loop as `tool` role messages
+   * @param sessionId Session the tool calls were made for
+   * @param steps Tool calls and their results, in order
+   * @param model Provider and model that made the tool calls
    */
-  private addStreamLogging<T>(stream: IterableReadableStream<T>, prefix: string): IterableReadableStream<T> {
-    const controller = new TransformStream<T, T>();
-    const writer = controller.writable.getWriter();
-    
-    // Process the original stream, log chunks, and forward them
-    (async () => {
-      try {
-        let chunkCount = 0;
-        for await (const chunk of stream) {
-          chunkCount++;
-          console.log(`${prefix} Chunk #${chunkCount}:`, JSON.stringify(chunk));
-          await writer.write(chunk);
-        }
-        console.log(`${prefix} Stream completed with ${chunkCount} chunks`);
-      } catch (error) {
-        console.error(`${prefix} Error processing stream:`, error);
-      } finally {
-        writer.close();
-      }
-    })();
-    
-    return controller.readable as unknown as IterableReadableStream<T>;
+  private async storeToolSteps(sessionId: string, steps: ToolLoopStep[], model: ModelRef): Promise<void> {
+    for (const step of steps) {
+      await this.db.messages.createMessage({
+        content: step.result,
+        role: 'tool',
+        sessionId,
+        toolCall: step.toolCall,
+        provider: model.provider,
+        model: model.model ?? undefined,
+      });
+    }
   }
 
   // Static factory method
   public static async create(
-    modelConfig: LLLModelConfig,
+    modelConfigs: ProfileModelConfigs,
     embeddingConfig: EmbeddingConfig,
-    vectorStoreConfig: VectorStoreConfig
+    vectorStoreConfig: VectorStoreConfig,
+    retrievalConfig: RetrievalConfig,
+    toolLoopConfig: ToolLoopConfig,
+    characterUpdateConfig: CharacterUpdateConfig
   ): Promise<ElizaGeneratorAgent> {
     console.log(`[FACTORY] Creating new ElizaGeneratorAgent instance`);
-    return new ElizaGeneratorAgent(modelConfig, embeddingConfig, vectorStoreConfig);
+    return new ElizaGeneratorAgent(modelConfigs, embeddingConfig, vectorStoreConfig, retrievalConfig, toolLoopConfig, characterUpdateConfig);
   }
 }
\ No newline at end of file
@@ -1,9 +1,11 @@
 import { tool } from "@langchain/core/tools";
 import { z } from "zod";
-import { BaseChatModel } from "@langchain/core/language_models/chat_models";
-import { ChatOpenAI } from "@langchain/openai";
+import type { BaseChatModel, BaseChatModelCallOptions } from "@langchain/core/language_models/chat_models";
+import type { BaseLanguageModelInput } from "@langchain/core/language_models/base";
+import type { AIMessageChunk } from "@langchain/core/messages";
+import type { Runnable } from "@langchain/core/runnables";
 import { characterJsonSchema, CharacterSchema, ModelProviderName, TranscriptionProvider } from "./characterConfig";
-import { ChatAnthropic } from "@langchain/anthropic";
+import { elizaCatalog, findCatalogEntries } from "./elizaCatalog";
 
 /**
  * Define your tools here
@@ -217,7 +219,8 @@ export const agentFunctions = {
       voiceId?: string,
       sttLanguage?: string,
       speakerMaxDurationMs?: number,
-    }
+    },
+    clients?: string[]
   ): Promise<string> => {
     console.log(`[TOOL] Generating character file for ${name}`);
     
@@ -241,6 +244,7 @@ export const agentFunctions = {
         topics,
         adjectives,
         knowledge,
+        clients,
         plugins: plugins || [],
         postProcessors,
         settings,
@@ -283,6 +287,85 @@ export const agentFunctions = {
 
 };
 
+/**
+ * Run validate_character_file on the arguments of a tool call
+ * The arguments are not parsed against the tool schema first: invalid character files must reach
+ * `validateCharacterSchema` so the model gets its field-level errors back.
+ */
+const validateCharacterFileTool = async ({ 
+  name, 
+  bio, 
+  lore, 
+  topics, 
+  adjectives, 
+  style, 
+  modelProvider,
+  id,
+  username,
+  email,
+  system,
+  imageModelProvider,
+  imageVisionModelProvider,
+  modelEndpointOverride,
+  templates,
+  messageExamples,
+  postExamples,
+  knowledge,
+  plugins,
+  postProcessors,
+  settings,
+  clientConfig,
+  twitterProfile,
+  instagramProfile,
+  simsaiProfile,
+  nft,
+  extends: extendsParam,
+  twitterSpaces,
+  clients
+}: z.infer<typeof CharacterSchema>) => {
+  return await agentFunctions.validateCharacterSchema(
+    name,
+    Array.isArray(bio) ? bio : [bio],
+    lore,
+    topics,
+    adjectives,
+    style,
+    modelProvider,
+    id,
+    username,
+    email,
+    system,
+    imageModelProvider,
+    imageVisionModelProvider,
+    modelEndpointOverride,
+    templates,
+    messageExamples,
+    postExamples,
+    knowledge,
+    plugins,
+    postProcessors,
+    settings,
+    clientConfig,
+    twitterProfile,
+    instagramProfile,
+    simsaiProfile,
+    nft,
+    extendsParam,
+    twitterSpaces,
+    clients
+  );
+};
+
+const CatalogLookupSchema = z.object({
+  query: z.string().optional().describe("Words to search for, e.g. a platform, chain or secret key name"),
+  kind: z.enum(["client", "plugin"]).optional().describe("Only return clients or only plugins"),
+});
+
+const lookupElizaCatalogTool = async ({ query, kind }: z.infer<typeof CatalogLookupSchema>) => {
+  const entries = findCatalogEntries({ query, kind });
+  return JSON.stringify({ version: elizaCatalog.version, entries });
+};
+
 /**
  * Convert the agent functions to LangChain tools
  * This is done automatically - you don't need to modify this
@@ -290,88 +373,54 @@ export const agentFunctions = {
 export const agentTools = [
   // Character file generation tool
   tool(
-    async ({ 
-      name, 
-      bio, 
-      lore, 
-      topics, 
-      adjectives, 
-      style, 
-      modelProvider,
-      id,
-      username,
-      email,
-      system,
-      imageModelProvider,
-      imageVisionModelProvider,
-      modelEndpointOverride,
-      templates,
-      messageExamples,
-      postExamples,
-      knowledge,
-      plugins,
-      postProcessors,
-      settings,
-      clientConfig,
-      twitterProfile,
-      instagramProfile,
-      simsaiProfile,
-      nft,
-      extends: extendsParam,
-      twitterSpaces
-    }) => {
-      return await agentFunctions.validateCharacterSchema(
-        name,
-        Array.isArray(bio) ? bio : [bio],
-        lore,
-        topics,
-        adjectives,
-        style,
-        modelProvider,
-        id,
-        username,
-        email,
-        system,
-        imageModelProvider,
-        imageVisionModelProvider,
-        modelEndpointOverride,
-        templates,
-        messageExamples,
-        postExamples,
-        knowledge,
-        plugins,
-        postProcessors,
-        settings,
-        clientConfig,
-        twitterProfile,
-        instagramProfile,
-        simsaiProfile,
-        nft,
-        extendsParam,
-        twitterSpaces
-      );
-    },
+    validateCharacterFileTool,
     {
       name: "validate_character_file",
       description: "Validate a character file using the schema structure",
       schema: CharacterSchema,
     }
   ),
-  
+  // Client and plugin catalog lookup
+  tool(
+    lookupElizaCatalogTool,
+    {
+      name: "lookup_eliza_catalog",
+      description: "Look up ElizaOS clients and plugins: package name, required and optional settings.secrets keys and clientConfig block",
+      schema: CatalogLookupSchema,
+    }
+  ),
 ];
 
+/**
+ * Executors for the tools in `agentTools`, keyed by tool name, taking the raw tool call arguments
+ */
+export const agentToolExecutors: Record<string, (args: Record<string, unknown>) => Promise<string>> = {
+  validate_character_file: (args) => validateCharacterFileTool(args as z.infer<typeof CharacterSchema>),
+  lookup_eliza_catalog: async (args) => {
+    // Invalid arguments go back to the model as the tool result, so it can call the tool again
+    const lookup = CatalogLookupSchema.safeParse(args);
+    if (!lookup.success) {
+      const issues = lookup.error.errors.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+      return `Invalid lookup_eliza_catalog arguments: ${issues.join("; ")}`;
+    }
+    return lookupElizaCatalogTool(lookup.data);
+  },
+};
+
 /**
  * Function to bind tools to a chat model
  * @param model The chat model to bind tools to
- * @returns The model with tools bound to it
+ * @param kwargs Extra call options, e.g. a `tool_choice` forcing a tool
+ * @returns The model with tools bound to it, or null when the model does not support tool calling
  */
-export function bindToolsToModel(model: BaseChatModel): BaseChatModel {
-  // For OpenAI models, we can use the bind method
-  if ( model instanceof ChatAnthropic || model instanceof ChatOpenAI ) {
-    // return model.bind({ tools: agentTools }) as unknown as BaseChatModel;
+export function bindToolsToModel(
+  model: BaseChatModel,
+  kwargs?: Partial<BaseChatModelCallOptions>
+): Runnable<BaseLanguageModelInput, AIMessageChunk> | null {
+  if (typeof model.bindTools === "function") {
+    return model.bindTools(agentTools, kwargs);
   }
-  
-  // For other models, we might need a different approach
+
   console.warn('[TOOLS] Model does not support binding tools. Tools will not be available.');
-  return model;
-} 
\ No newline at end of file
+  return null;
+}
@@ -230,6 +230,9 @@ export type Character = {
     /** Optional knowledge base */
     knowledge?: (string | { path: string; shared?: boolean } | { directory: string; shared?: boolean })[];
 
+    /** Clients the agent connects to (e.g. "discord", "twitter") */
+    clients?: string[];
+
     /** Available plugins */
     plugins: Plugin[];
 
@@ -481,6 +484,7 @@ export const CharacterSchema = z.object({
             })
         ])
     ).optional(),
+    clients: z.array(z.string()).optional(),
     plugins: z.array(z.any()), // Using z.any() for Plugin type since it's not fully defined in the snippet
     postProcessors: z.array(z.string()).optional(),
     settings: z.object({
@@ -635,3 +639,31 @@ export const CharacterSchema = z.object({
 
 
 export const characterJsonSchema = JSON.stringify(zodToJsonSchema(CharacterSchema), null, 2);
+
+/**
+ * The blank character file a session starts from before anything has been generated
+ */
+export const createEmptyCharacterFile = () => ({
+    name: "",
+    bio: [],
+    lore: [],
+    knowledge: [],
+    messageExamples: [],
+    postExamples: [],
+    topics: [],
+    style: {
+        all: [],
+        chat: [],
+        post: []
+    },
+    adjectives: [],
+    clients: [],
+    plugins: [],
+    modelProvider: "",
+    settings: {
+        secrets: {},
+        voice: {
+            model: "en_US-male-medium"
+        }
+    }
+});
@@ -0,0 +1,192 @@
+import type { BaseLanguageModelInput } from "@langchain/core/language_models/base";
+import { OutputParserException } from "@langchain/core/output_parsers";
+import type { Runnable } from "@langchain/core/runnables";
+import { z } from "zod";
+
+import { escapePointerToken } from "@/common/utils/jsonDiff";
+import { JsonPatchError, applyJsonPatch, parseJsonPointer } from "@/common/utils/jsonPatch";
+import { streamStructuredAnswer } from "../structuredOutput";
+import { characterEditPrompt } from "../systemPromtTemplates/characterEditPrompt";
+import { characterJsonSchema } from "./characterConfig";
+import { parseCharacterDraft } from "./characterRepair";
+
+export const CHARACTER_UPDATE_MODES = ["edits", "full"] as const;
+export type CharacterUpdateMode = (typeof CHARACTER_UPDATE_MODES)[number];
+
+export type CharacterUpdateConfig = {
+  /** "edits" asks the model for edit operations and regenerates in full only when they fail; "full" always regenerates */
+  mode: CharacterUpdateMode;
+};
+
+export const CharacterEditOperationSchema = z.discriminatedUnion("op", [
+  z.object({ op: z.literal("set"), path: z.string(), value: z.unknown() }),
+  z.object({ op: z.literal("append"), path: z.string(), value: z.unknown() }),
+  z.object({ op: z.literal("remove"), path: z.string() }),
+]);
+
+export type CharacterEditOperation = z.infer<typeof CharacterEditOperationSchema>;
+
+export const CharacterEditResponseSchema = z.object({ operations: z.array(CharacterEditOperationSchema) });
+
+// Long enums and objects are cut short, the model only needs to know the shape
+const MAX_LISTED = 6;
+
+const listShort = (items: string[], separator: string) =>
+  [...items.slice(0, MAX_LISTED), ...(items.length > MAX_LISTED ? ["…"] : [])].join(separator);
+
+// One line per top-level field, so the edit prompt can do without the full JSON schema
+const describeType = (schema: Record<string, unknown>): string => {
+  if (Array.isArray(schema.anyOf)) return schema.anyOf.map(describeType).join(" | ");
+  if (schema.type === "array") return `${describeType((schema.items as Record<string, unknown>) ?? {})}[]`;
+  if (Array.isArray(schema.enum))
+    return listShort(
+      schema.enum.map((value) => JSON.stringify(value)),
+      " | ",
+    );
+  if (schema.properties && typeof schema.properties === "object") {
+    return `{ ${listShort(Object.keys(schema.properties), ", ")} }`;
+  }
+  return typeof schema.type === "string" ? schema.type : "any";
+};
+
+const rootSchema = JSON.parse(characterJsonSchema) as {
+  properties: Record<string, Record<string, unknown>>;
+  required: string[];
+};
+
+export const characterFields = Object.entries(rootSchema.properties)
+  .map(([name, schema]) => `${name}${rootSchema.required.includes(name) ? "" : "?"}: ${describeType(schema)}`)
+  .join("\n");
+
+// The value at the reference tokens, or undefined when the path does not exist
+const valueAt = (document: unknown, tokens: string[]): unknown => {
+  let current = document;
+  for (const token of tokens) {
+    if (!current || typeof current !== "object" || !Object.prototype.hasOwnProperty.call(current, token))
+      return undefined;
+    current = (current as Record<string, unknown>)[token];
+  }
+  return current;
+};
+
+// Adds empty objects along the path so "set" and "append" can reach fields whose parents do not exist yet
+const ensureParents = (document: unknown, path: string): unknown => {
+  const tokens = parseJsonPointer(path);
+  let result = document;
+  for (let depth = 1; depth < tokens.length; depth++) {
+    const parent = tokens.slice(0, depth);
+    if (valueAt(result, parent) !== undefined) continue;
+    const parentPath = parent.map((token) => `/${escapePointerToken(token)}`).join("");
+    result = applyJsonPatch(result, [{ op: "add", path: parentPath, value: {} }]);
+  }
+  return result;
+};
+
+/**
+ * Apply edit operations to a character file
+ * The input is not modified; an edited copy is returned.
+ * @throws JsonPatchError when an operation cannot be applied, with the index of the operation
+ */
+export const applyCharacterEdits = <T>(characterFile: T, operations: CharacterEditOperation[]): T => {
+  let result: unknown = characterFile;
+  operations.forEach((operation, index) => {
+    try {
+      switch (operation.op) {
+        case "set": {
+          const withParents = ensureParents(result, operation.path);
+          const exists = valueAt(withParents, parseJsonPointer(operation.path)) !== undefined;
+          result = applyJsonPatch(withParents, [
+            { op: exists ? "replace" : "add", path: operation.path, value: operation.value },
+          ]);
+          break;
+        }
+        case "append": {
+          const withParents = ensureParents(result, operation.path);
+          const current = valueAt(withParents, parseJsonPointer(operation.path));
+          if (current !== undefined && !Array.isArray(current)) {
+            throw new JsonPatchError(`Path "${operation.path}" is not an array`);
+          }
+          // Appending to a field that does not exist yet starts the array
+          result = applyJsonPatch(withParents, [
+            current === undefined
+              ? { op: "add", path: operation.path, value: [operation.value] }
+              : { op: "add", path: `${operation.path}/-`, value: operation.value },
+          ]);
+          break;
+        }
+        case "remove":
+          result = applyJsonPatch(result, [{ op: "remove", path: operation.path }]);
+          break;
+      }
+    } catch (error) {
+      if (error instanceof JsonPatchError) throw new JsonPatchError(error.message, index);
+      throw error;
+    }
+  });
+  return result as T;
+};
+
+// The valid operations of a partial answer, leaving out the one that may still be streaming
+const completeOperations = (partial: unknown): CharacterEditOperation[] => {
+  const operations = (partial as { operations?: unknown } | null)?.operations;
+  if (!Array.isArray(operations)) return [];
+  const complete: CharacterEditOperation[] = [];
+  for (const operation of operations.slice(0, -1)) {
+    const parsed = CharacterEditOperationSchema.safeParse(operation);
+    if (!parsed.success) break;
+    complete.push(parsed.data);
+  }
+  return complete;
+};
+
+/**
+ * Ask the model how the character file should change and apply its edit operations
+ * @param model Chat model to make the edit call with, or a structured output model returning the parsed answer
+ * @param input Prompt variables: conversation, knowledge, catalog and the current character file
+ * @param onPreview Called while the answer streams, with the character file after each complete operation
+ * @returns The edited character file and the operations, or the reason the edits could not be used
+ */
+export const editCharacterFile = async (
+  model: Runnable<BaseLanguageModelInput, unknown>,
+  characterFile: unknown,
+  input: { messageHistory: string; context: string; catalog: string; userMessage: string },
+  onPreview?: (characterFile: unknown) => void,
+): Promise<{ characterFile: unknown; operations: CharacterEditOperation[] } | { error: string }> => {
+  const prompt = await characterEditPrompt.formatMessages({
+    ...input,
+    characterFields,
+    characterFile: JSON.stringify(characterFile, null, 2),
+  });
+  let previewed = 0;
+  const preview = (partial: unknown) => {
+    // The last operation may still be streaming, the ones before it are complete
+    const operations = completeOperations(partial);
+    if (!onPreview || operations.length <= previewed) return;
+    try {
+      onPreview(applyCharacterEdits(characterFile, operations));
+      previewed = operations.length;
+    } catch (error) {
+      if (!(error instanceof JsonPatchError)) throw error;
+    }
+  };
+
+  let answer: unknown;
+  try {
+    answer = parseCharacterDraft(await streamStructuredAnswer(model, prompt, preview));
+  } catch (error) {
+    if (error instanceof OutputParserException) return { error: error.message };
+    throw error;
+  }
+  const parsed = CharacterEditResponseSchema.safeParse(answer);
+  if (!parsed.success) {
+    return { error: "The model did not answer with edit operations" };
+  }
+
+  try {
+    const { operations } = parsed.data;
+    return { characterFile: applyCharacterEdits(characterFile, operations), operations };
+  } catch (error) {
+    if (error instanceof JsonPatchError) return { error: error.message };
+    throw error;
+  }
+};
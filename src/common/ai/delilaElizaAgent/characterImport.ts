@@ -0,0 +1,157 @@
+import { z } from "zod";
+
+import { escapePointerToken } from "@/common/utils/jsonDiff";
+import { CharacterSchema } from "./characterConfig";
+import { type CharacterFieldError, validateCharacterFile } from "./characterValidation";
+
+export type CharacterImportReport = {
+  /** JSON Pointers of fields that are not part of CharacterSchema and were removed */
+  droppedFields: string[];
+  /** JSON Pointers of required fields that were missing and filled with an empty value */
+  defaultedFields: string[];
+  /** Fields that are still invalid after normalization and need fixing */
+  invalidFields: CharacterFieldError[];
+  /** Whether the normalized character file passes CharacterSchema */
+  valid: boolean;
+};
+
+export type CharacterImportResult = {
+  characterFile: Record<string, unknown>;
+  report: CharacterImportReport;
+};
+
+// Required array fields that ElizaOS tolerates leaving out but CharacterSchema does not
+const REQUIRED_ARRAY_FIELDS = ["lore", "messageExamples", "postExamples", "topics", "adjectives", "plugins"] as const;
+const STYLE_SECTIONS = ["all", "chat", "post"] as const;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const unwrap = (schema: z.ZodTypeAny): z.ZodTypeAny => {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) return unwrap(schema.unwrap());
+  if (schema instanceof z.ZodDefault) return unwrap(schema._def.innerType);
+  if (schema instanceof z.ZodEffects) return unwrap(schema.innerType());
+  return schema;
+};
+
+/**
+ * Remove keys the schema does not know about, recording where they were
+ * Objects declared with a catchall or passthrough keep their extra keys.
+ */
+const stripUnknownFields = (schema: z.ZodTypeAny, value: unknown, path: string, dropped: string[]): unknown => {
+  const inner = unwrap(schema);
+
+  if (inner instanceof z.ZodObject && isPlainObject(value)) {
+    const shape = inner.shape as Record<string, z.ZodTypeAny>;
+    const allowsUnknownKeys = !(inner._def.catchall instanceof z.ZodNever) || inner._def.unknownKeys === "passthrough";
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      const childPath = `${path}/${escapePointerToken(key)}`;
+      // Only the schema's own keys: `constructor`, `toString` or `__proto__` are unknown fields like any other
+      if (Object.hasOwn(shape, key)) {
+        result[key] = stripUnknownFields(shape[key], child, childPath, dropped);
+      } else if (allowsUnknownKeys && key !== "__proto__") {
+        result[key] = child;
+      } else {
+        dropped.push(childPath);
+      }
+    }
+    return result;
+  }
+
+  if (inner instanceof z.ZodArray && Array.isArray(value)) {
+    return value.map((item, index) => stripUnknownFields(inner.element, item, `${path}/${index}`, dropped));
+  }
+
+  if (inner instanceof z.ZodRecord && isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [
+        key,
+        stripUnknownFields(inner.valueSchema, child, `${path}/${escapePointerToken(key)}`, dropped),
+      ]),
+    );
+  }
+
+  return value;
+};
+
+/**
+ * Fill in the shapes ElizaOS accepts loosely but CharacterSchema requires
+ */
+const applyDefaults = (characterFile: Record<string, unknown>, defaulted: string[]): Record<string, unknown> => {
+  const result = { ...characterFile };
+
+  if (typeof result.bio === "string") {
+    result.bio = [result.bio];
+  } else if (result.bio === undefined) {
+    result.bio = [];
+    defaulted.push("/bio");
+  }
+
+  for (const field of REQUIRED_ARRAY_FIELDS) {
+    if (result[field] === undefined) {
+      result[field] = [];
+      defaulted.push(`/${field}`);
+    }
+  }
+
+  if (result.style === undefined) {
+    result.style = {};
+    defaulted.push("/style");
+  }
+  if (isPlainObject(result.style)) {
+    const style = { ...result.style };
+    for (const section of STYLE_SECTIONS) {
+      if (style[section] === undefined) {
+        style[section] = [];
+        defaulted.push(`/style/${section}`);
+      }
+    }
+    result.style = style;
+  }
+
+  // ElizaOS provider names are lowercase enum values
+  if (typeof result.modelProvider === "string") {
+    result.modelProvider = result.modelProvider.trim().toLowerCase();
+  }
+
+  return result;
+};
+
+/**
+ * Normalize an uploaded ElizaOS character file against CharacterSchema
+ *
+ * Unknown fields are dropped and missing required collections are defaulted, but invalid
+ * values are kept as-is so the user can fix them through chat or a manual edit.
+ * @param input The parsed contents of a `.character.json` file
+ * @returns The normalized character file and a report of what changed or still needs fixing
+ */
+export const normalizeCharacterImport = (input: unknown): CharacterImportResult => {
+  if (!isPlainObject(input)) {
+    return {
+      characterFile: {},
+      report: {
+        droppedFields: [],
+        defaultedFields: [],
+        invalidFields: [{ path: "", message: "Character file must be a JSON object", code: "invalid_type" }],
+        valid: false,
+      },
+    };
+  }
+
+  const droppedFields: string[] = [];
+  const defaultedFields: string[] = [];
+  const stripped = stripUnknownFields(CharacterSchema, input, "", droppedFields) as Record<string, unknown>;
+  const characterFile = applyDefaults(stripped, defaultedFields);
+
+  const validation = validateCharacterFile(characterFile);
+  return {
+    characterFile: validation.success ? validation.data : characterFile,
+    report: {
+      droppedFields,
+      defaultedFields,
+      invalidFields: validation.success ? [] : validation.errors,
+      valid: validation.success,
+    },
+  };
+};
@@ -0,0 +1,238 @@
+import { escapePointerToken } from "@/common/utils/jsonDiff";
+import { elizaCatalog, modelProviderSecrets } from "./elizaCatalog";
+
+export type LintSeverity = "error" | "warning" | "info";
+
+export type LintFinding = {
+  /** Identifier of the rule that produced the finding, e.g. "min-items" */
+  rule: string;
+  severity: LintSeverity;
+  /** JSON Pointer to the field, e.g. "/settings/secrets/DISCORD_API_TOKEN" */
+  path: string;
+  message: string;
+  /** True when the finding is resolved by the autofixes in `fixedCharacterFile` */
+  fixable: boolean;
+};
+
+export type CharacterLintResult = {
+  findings: LintFinding[];
+  counts: Record<LintSeverity, number>;
+  /** The character file with every fixable finding applied, or null when there is nothing to fix */
+  fixedCharacterFile: Record<string, unknown> | null;
+};
+
+/** Items each descriptive section needs before the agent is ready, as asked of the model in the prompts */
+export const MIN_SECTION_ITEMS = 10;
+
+const SECTIONS = [
+  ["bio"],
+  ["lore"],
+  ["topics"],
+  ["adjectives"],
+  ["messageExamples"],
+  ["postExamples"],
+  ["style", "all"],
+  ["style", "chat"],
+  ["style", "post"],
+];
+
+// Lists of plain strings that are safe to trim and de-duplicate
+const STRING_LISTS = [...SECTIONS.filter(([section]) => section !== "messageExamples"), ["clients"], ["plugins"]];
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const pointer = (...segments: (string | number)[]) =>
+  segments.map((segment) => `/${escapePointerToken(segment)}`).join("");
+
+const getPath = (file: JsonObject, path: string[]): unknown =>
+  path.reduce<unknown>((value, key) => (isObject(value) ? value[key] : undefined), file);
+
+const setPath = (file: JsonObject, path: string[], value: unknown) => {
+  const parent = getPath(file, path.slice(0, -1));
+  if (isObject(parent)) parent[path[path.length - 1]] = value;
+};
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+
+// Secret keys the model provider, clients and plugins of the character file need, with who needs them
+const requiredSecrets = (file: JsonObject): { key: string; neededBy: string }[] => {
+  const needed: { key: string; neededBy: string }[] = [];
+  if (typeof file.modelProvider === "string") {
+    for (const key of modelProviderSecrets[file.modelProvider] ?? []) {
+      needed.push({ key, neededBy: `model provider "${file.modelProvider}"` });
+    }
+  }
+  for (const [kind, names] of [
+    ["client", stringList(file.clients)],
+    ["plugin", stringList(file.plugins)],
+  ] as const) {
+    for (const name of names) {
+      const entry = elizaCatalog.entries.find((candidate) => candidate.kind === kind && candidate.name === name);
+      for (const key of entry?.secrets.required ?? []) {
+        needed.push({ key, neededBy: `${kind} "${name}"` });
+      }
+    }
+  }
+  return needed;
+};
+
+/**
+ * Apply the safe autofixes to a copy of the character file
+ * Trims strings, drops empty and duplicate list items, turns a string `bio` into an array and
+ * adds empty placeholders for missing secrets. None of these change what the character says.
+ */
+const applyFixes = (characterFile: JsonObject): { fixed: JsonObject; fixes: LintFinding[]; addedSecrets: string[] } => {
+  const fixed = structuredClone(characterFile);
+  const fixes: LintFinding[] = [];
+  const fix = (rule: string, severity: LintSeverity, path: string, message: string) =>
+    fixes.push({ rule, severity, path, message, fixable: true });
+
+  if (typeof fixed.name === "string" && fixed.name !== fixed.name.trim()) {
+    fix("trim-whitespace", "info", pointer("name"), "Leading or trailing whitespace");
+    fixed.name = fixed.name.trim();
+  }
+
+  if (typeof fixed.bio === "string") {
+    fix("bio-array", "info", pointer("bio"), "bio should be an array of statements");
+    fixed.bio = fixed.bio.trim() ? [fixed.bio] : [];
+  }
+
+  for (const path of STRING_LISTS) {
+    const list = getPath(fixed, path);
+    if (!Array.isArray(list)) continue;
+
+    const seen = new Set<string>();
+    const cleaned: unknown[] = [];
+    list.forEach((item, index) => {
+      if (typeof item !== "string") {
+        cleaned.push(item);
+        return;
+      }
+      const trimmed = item.trim();
+      if (!trimmed) {
+        fix("empty-item", "warning", pointer(...path, index), "Empty item");
+        return;
+      }
+      if (seen.has(trimmed)) {
+        fix("duplicate-item", "warning", pointer(...path, index), `Duplicate of an earlier item: "${trimmed}"`);
+        return;
+      }
+      if (trimmed !== item) {
+        fix("trim-whitespace", "info", pointer(...path, index), "Leading or trailing whitespace");
+      }
+      seen.add(trimmed);
+      cleaned.push(trimmed);
+    });
+    setPath(fixed, path, cleaned);
+  }
+
+  const addedSecrets: string[] = [];
+  for (const { key, neededBy } of requiredSecrets(fixed)) {
+    const settings = isObject(fixed.settings) ? fixed.settings : {};
+    const secrets = isObject(settings.secrets) ? settings.secrets : {};
+    if (key in secrets) continue;
+
+    fix("missing-secret", "error", pointer("settings", "secrets", key), `${key} is required by ${neededBy}`);
+    secrets[key] = "";
+    settings.secrets = secrets;
+    fixed.settings = settings;
+    addedSecrets.push(key);
+  }
+
+  return { fixed, fixes, addedSecrets };
+};
+
+// Rules without a safe autofix, checked on the fixed character file
+const checkReadiness = (file: JsonObject, addedSecrets: string[]): LintFinding[] => {
+  const findings: LintFinding[] = [];
+  const report = (rule: string, severity: LintSeverity, path: string, message: string) =>
+    findings.push({ rule, severity, path, message, fixable: false });
+
+  for (const path of SECTIONS) {
+    const items = getPath(file, path);
+    const count = Array.isArray(items) ? items.length : 0;
+    if (count < MIN_SECTION_ITEMS) {
+      report("min-items", "warning", pointer(...path), `Has ${count} items, needs at least ${MIN_SECTION_ITEMS}`);
+    }
+  }
+
+  const clients = stringList(file.clients);
+  if (clients.length === 0) {
+    report("client-required", "error", pointer("clients"), "Add at least one client so the agent can be reached");
+  }
+  clients.forEach((name, index) => {
+    if (!elizaCatalog.entries.some((entry) => entry.kind === "client" && entry.name === name)) {
+      report("unknown-client", "warning", pointer("clients", index), `"${name}" is not a known ElizaOS client`);
+    }
+  });
+  stringList(file.plugins).forEach((name, index) => {
+    if (!elizaCatalog.entries.some((entry) => entry.kind === "plugin" && entry.name === name)) {
+      report("unknown-plugin", "warning", pointer("plugins", index), `"${name}" is not a known ElizaOS plugin`);
+    }
+  });
+
+  if (typeof file.modelProvider === "string" && !(file.modelProvider in modelProviderSecrets)) {
+    report(
+      "unknown-model-provider-secrets",
+      "info",
+      pointer("modelProvider"),
+      `Secrets for "${file.modelProvider}" are not known, check them by hand`,
+    );
+  }
+
+  const secrets = getPath(file, ["settings", "secrets"]);
+  const checked = new Set(addedSecrets);
+  for (const { key, neededBy } of requiredSecrets(file)) {
+    if (!isObject(secrets) || checked.has(key)) continue;
+    checked.add(key);
+    // As much an error as a missing key: the placeholder the autofix adds does not make the agent ready
+    if (secrets[key] === "") {
+      report(
+        "empty-secret",
+        "error",
+        pointer("settings", "secrets", key),
+        `Fill in ${key} for ${neededBy} before deploying`,
+      );
+    }
+  }
+
+  return findings;
+};
+
+/**
+ * Check a character file against the ElizaOS readiness rules
+ *
+ * CharacterSchema only checks types; these rules check whether the agent can actually run:
+ * enough items per section, at least one client and the secrets for the model provider,
+ * clients and plugins. The result is deterministic for a given character file.
+ * @param characterFile The character file to lint
+ * @returns Findings with severity and JSON Pointer, and the autofixed character file
+ */
+export const lintCharacterFile = (characterFile: unknown): CharacterLintResult => {
+  if (!isObject(characterFile)) {
+    return {
+      findings: [
+        {
+          rule: "not-an-object",
+          severity: "error",
+          path: "",
+          message: "The character file is not a JSON object",
+          fixable: false,
+        },
+      ],
+      counts: { error: 1, warning: 0, info: 0 },
+      fixedCharacterFile: null,
+    };
+  }
+
+  const { fixed, fixes, addedSecrets } = applyFixes(characterFile);
+  const findings = [...fixes, ...checkReadiness(fixed, addedSecrets)];
+  const counts = { error: 0, warning: 0, info: 0 };
+  for (const finding of findings) counts[finding.severity]++;
+
+  return { findings, counts, fixedCharacterFile: fixes.length > 0 ? fixed : null };
+};
@@ -0,0 +1,101 @@
+import { diffJson } from "@/common/utils/jsonDiff";
+import { applyJsonPatch, parseJsonPointer } from "@/common/utils/jsonPatch";
+
+export type CharacterFieldEvent = {
+  /** JSON Pointer to the field, e.g. "/bio/3" */
+  path: string;
+  /** The same path for display, e.g. "bio[3]" or "settings.secrets.DISCORD_API_TOKEN" */
+  field: string;
+  /** "added" for new array items, "set" for new or changed values and "removed" */
+  change: "added" | "set" | "removed";
+  /** The new value; omitted for removals */
+  value?: unknown;
+};
+
+export type CharacterProgressTracker = {
+  /**
+   * Report the fields that changed since the last update
+   * @param snapshot The character file as far as it is known
+   * @param partial True while the model is still writing it: fields it has not reached yet are not reported as removed
+   */
+  update: (snapshot: unknown, partial: boolean) => void;
+};
+
+const isContainer = (value: unknown): value is Record<string, unknown> | unknown[] =>
+  typeof value === "object" && value !== null;
+
+/**
+ * Drop the value the model was writing last from a partially parsed document
+ * Partial JSON parsing closes an unfinished string, so the last value in document order may
+ * still be growing. Containers left empty by the removal are dropped as well.
+ * @returns A copy without the last value, or undefined when nothing is left
+ */
+export const withoutLastValue = (value: unknown): unknown => {
+  if (!isContainer(value)) return undefined;
+
+  const copy: Record<string, unknown> | unknown[] = Array.isArray(value) ? [...value] : { ...value };
+  const keys = Object.keys(copy);
+  const lastKey = keys[keys.length - 1];
+  if (lastKey === undefined) return undefined;
+
+  const last = (copy as Record<string, unknown>)[lastKey];
+  const rest = isContainer(last) ? withoutLastValue(last) : undefined;
+  if (rest !== undefined) {
+    (copy as Record<string, unknown>)[lastKey] = rest;
+  } else if (Array.isArray(copy)) {
+    copy.pop();
+  } else {
+    delete copy[lastKey];
+  }
+  return Object.keys(copy).length > 0 ? copy : undefined;
+};
+
+const fieldName = (path: string) =>
+  parseJsonPointer(path)
+    .map((token, index) => (/^\d+$/.test(token) ? `[${token}]` : index === 0 ? token : `.${token}`))
+    .join("");
+
+const parentOf = (document: unknown, path: string): unknown =>
+  parseJsonPointer(path)
+    .slice(0, -1)
+    .reduce<unknown>(
+      (value, token) => (isContainer(value) ? (value as Record<string, unknown>)[token] : undefined),
+      document,
+    );
+
+/**
+ * Follow a character file while the model writes it and report each field as it changes
+ *
+ * Snapshots are diffed against the fields reported so far, starting from the current character
+ * file, so only changes are reported.
+ * @param baseline The character file before this turn
+ * @param onEvent Called for each changed field, in document order
+ */
+export const trackCharacterProgress = (
+  baseline: unknown,
+  onEvent: (event: CharacterFieldEvent) => void,
+): CharacterProgressTracker => {
+  let reported: unknown = structuredClone(baseline ?? {});
+
+  return {
+    update: (snapshot, partial) => {
+      if (!isContainer(snapshot) || Array.isArray(snapshot)) return;
+
+      for (const operation of diffJson(reported, snapshot)) {
+        if (operation.op === "remove" && partial) continue;
+
+        const inArray = Array.isArray(parentOf(reported, operation.path));
+        const change = operation.op === "remove" ? "removed" : operation.op === "add" && inArray ? "added" : "set";
+        reported = applyJsonPatch(reported, [
+          operation.op === "remove" ? { op: "remove", path: operation.path } : operation,
+        ]);
+        onEvent({
+          path: operation.path,
+          field: fieldName(operation.path),
+          change,
+          ...(operation.op === "remove" ? {} : { value: operation.value }),
+        });
+      }
+    },
+  };
+};
@@ -0,0 +1,144 @@
+import type { BaseLanguageModelInput } from "@langchain/core/language_models/base";
+import type { AIMessageChunk } from "@langchain/core/messages";
+import type { Runnable } from "@langchain/core/runnables";
+
+import { JsonPatchError, applyJsonPatch, parseJsonPointer } from "@/common/utils/jsonPatch";
+import { characterRepairPrompt } from "../systemPromtTemplates/characterRepairPrompt";
+import { characterJsonSchema } from "./characterConfig";
+import type { CharacterFieldError } from "./characterValidation";
+
+export type CharacterRepairFix = { path: string; value: unknown };
+
+type JsonSchema = {
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  additionalProperties?: boolean | JsonSchema;
+  [key: string]: unknown;
+};
+
+const rootSchema: JsonSchema = JSON.parse(characterJsonSchema);
+
+const schemaAtTokens = (schema: JsonSchema, tokens: string[]): JsonSchema | null => {
+  const [token, ...rest] = tokens;
+  if (token === undefined) return schema;
+
+  for (const candidate of schema.anyOf ?? [schema]) {
+    const child =
+      candidate.properties?.[token] ??
+      (/^\d+$/.test(token) ? candidate.items : undefined) ??
+      (typeof candidate.additionalProperties === "object" ? candidate.additionalProperties : undefined);
+    const found = child ? schemaAtTokens(child, rest) : null;
+    if (found) return found;
+  }
+  return null;
+};
+
+/**
+ * Find the part of the character JSON schema that describes the value at a JSON Pointer
+ * @returns The sub-schema, or null when the path is not described by the schema
+ */
+export const subSchemaAt = (path: string): JsonSchema | null => schemaAtTokens(rootSchema, parseJsonPointer(path));
+
+/**
+ * Parse the model's character file output locally
+ * Accepts an object as is, and JSON text with or without a Markdown code fence around it.
+ * @returns The parsed value, or the original text when it is not JSON
+ */
+export const parseCharacterDraft = (draft: unknown): unknown => {
+  if (typeof draft !== "string") return draft;
+
+  const text = draft
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+  for (const candidate of [text, text.slice(text.indexOf("{"), text.lastIndexOf("}") + 1)]) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return draft;
+};
+
+const valueAt = (document: unknown, path: string): unknown =>
+  parseJsonPointer(path).reduce<unknown>(
+    (value, token) =>
+      value && typeof value === "object" && Object.prototype.hasOwnProperty.call(value, token)
+        ? (value as Record<string, unknown>)[token]
+        : undefined,
+    document,
+  );
+
+// Describes each failing field for the repair prompt, with its current value and sub-schema
+const describeFailures = (characterFile: unknown, errors: CharacterFieldError[]): string =>
+  errors
+    .map((error) => {
+      const value = valueAt(characterFile, error.path);
+      return [
+        `- path: "${error.path}"`,
+        `  error: ${error.message}`,
+        `  current value: ${value === undefined ? "missing" : JSON.stringify(value)}`,
+        `  schema: ${JSON.stringify(subSchemaAt(error.path) ?? {})}`,
+      ].join("\n");
+    })
+    .join("\n");
+
+const parseFixes = (text: string): CharacterRepairFix[] => {
+  const parsed = parseCharacterDraft(text) as { fixes?: unknown } | string;
+  if (typeof parsed !== "object" || parsed === null || !Array.isArray(parsed.fixes)) return [];
+  return parsed.fixes.filter(
+    (fix): fix is CharacterRepairFix => typeof fix === "object" && fix !== null && typeof fix.path === "string",
+  );
+};
+
+/**
+ * Apply repair fixes, replacing existing values and adding missing ones
+ * Fixes whose path cannot be reached are skipped.
+ * @returns The patched copy and the number of fixes applied
+ */
+export const applyRepairFixes = (
+  characterFile: unknown,
+  fixes: CharacterRepairFix[],
+): { characterFile: unknown; applied: number } => {
+  let result = characterFile;
+  let applied = 0;
+  for (const { path, value } of fixes) {
+    for (const op of ["replace", "add"] as const) {
+      try {
+        result = applyJsonPatch(result, [{ op, path, value }]);
+        applied++;
+        break;
+      } catch (error) {
+        if (!(error instanceof JsonPatchError)) throw error;
+      }
+    }
+  }
+  return { characterFile: result, applied };
+};
+
+/**
+ * Ask the model to fix just the fields that failed validation
+ *
+ * Only the failing paths, their current values and their part of the schema are sent, instead of
+ * the whole character file and schema.
+ * @param model Chat model to make the repair call with
+ * @param characterFile The character file that failed validation
+ * @param errors The field errors from validateCharacterFile
+ * @param messageHistory Conversation so far, for fields that have to be filled in
+ */
+export const repairCharacterFile = async (
+  model: Runnable<BaseLanguageModelInput, AIMessageChunk>,
+  characterFile: unknown,
+  errors: CharacterFieldError[],
+  messageHistory: string,
+): Promise<{ characterFile: unknown; fixes: CharacterRepairFix[]; applied: number }> => {
+  const prompt = await characterRepairPrompt.formatMessages({
+    failures: describeFailures(characterFile, errors),
+    messageHistory,
+  });
+  const response = await model.invoke(prompt);
+  const fixes = parseFixes(typeof response.content === "string" ? response.content : "");
+  return { ...applyRepairFixes(characterFile, fixes), fixes };
+};
@@ -0,0 +1,112 @@
+import type { BaseLanguageModelInput } from "@langchain/core/language_models/base";
+import { type AIMessageChunk, type BaseMessage, HumanMessage, ToolMessage } from "@langchain/core/messages";
+import type { Runnable } from "@langchain/core/runnables";
+
+import { agentToolExecutors } from "./AgentTools";
+
+export const VALIDATE_CHARACTER_FILE_TOOL = "validate_character_file";
+export const LOOKUP_ELIZA_CATALOG_TOOL = "lookup_eliza_catalog";
+
+export type ToolLoopConfig = {
+  /** Maximum number of model calls before the loop gives up */
+  maxSteps: number;
+};
+
+export type ToolLoopStep = {
+  toolCall: { id: string; name: string; args: Record<string, unknown> };
+  /** What the tool returned to the model */
+  result: string;
+};
+
+export type CharacterToolLoopResult = {
+  /** The last character file the model produced, as an object or as raw text when it answered without a tool call */
+  characterFile: unknown;
+  /** True when validate_character_file accepted the character file */
+  valid: boolean;
+  steps: ToolLoopStep[];
+  /** Number of times the model was called */
+  modelCalls: number;
+};
+
+export const characterToolInstructions = new HumanMessage(
+  [
+    `Call the ${VALIDATE_CHARACTER_FILE_TOOL} tool with the complete character file.`,
+    `If you need a client or plugin that is not described in the catalog above, look it up with ${LOOKUP_ELIZA_CATALOG_TOOL} first.`,
+    "If it reports validation errors, fix every listed field and call it again with the whole corrected file.",
+    "Once the tool accepts the character file you are done.",
+  ].join(" "),
+);
+
+// validate_character_file answers with the validated JSON on success and with an error report otherwise
+const parseValidatedCharacterFile = (result: string): Record<string, unknown> | null => {
+  try {
+    const parsed = JSON.parse(result);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+const parseJsonText = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+/**
+ * Let the model build the character file through validate_character_file
+ *
+ * The model may call lookup_eliza_catalog on the way. Each tool call is executed and its result
+ * sent back as a tool message, so the model sees catalog entries and Zod errors. The loop ends as soon as the tool accepts a character file, when
+ * the model answers without calling a tool, or after `maxSteps` model calls.
+ * @param model Chat model with the agent tools bound
+ * @param prompt Messages that ask for the character file
+ * @param onDraft Called while a validate_character_file call streams, with its partially parsed arguments
+ */
+export const runCharacterToolLoop = async (
+  model: Runnable<BaseLanguageModelInput, AIMessageChunk>,
+  prompt: BaseMessage[],
+  config: ToolLoopConfig,
+  onDraft?: (partial: Record<string, unknown>) => void,
+): Promise<CharacterToolLoopResult> => {
+  const messages: BaseMessage[] = [...prompt, characterToolInstructions];
+  const steps: ToolLoopStep[] = [];
+  let characterFile: unknown = null;
+
+  for (let step = 0; step < config.maxSteps; step++) {
+    let response: AIMessageChunk | undefined;
+    for await (const chunk of await model.stream(messages)) {
+      response = response ? response.concat(chunk) : chunk;
+      // Tool call arguments are parsed as partial JSON while they stream
+      const draft = response.tool_calls?.find((call) => call.name === VALIDATE_CHARACTER_FILE_TOOL)?.args;
+      if (draft && onDraft) onDraft(draft);
+    }
+    if (!response) throw new Error("The model returned an empty response");
+    messages.push(response);
+
+    const toolCalls = response.tool_calls ?? [];
+    if (toolCalls.length === 0) {
+      const text = typeof response.content === "string" ? response.content : "";
+      return { characterFile: text ? parseJsonText(text) : characterFile, valid: false, steps, modelCalls: step + 1 };
+    }
+
+    for (const [index, call] of toolCalls.entries()) {
+      const toolCall = { id: call.id ?? `call_${step}_${index}`, name: call.name, args: call.args };
+      const execute = agentToolExecutors[call.name];
+      const result = execute ? await execute(call.args) : `Unknown tool "${call.name}"`;
+      steps.push({ toolCall, result });
+      messages.push(new ToolMessage({ content: result, tool_call_id: toolCall.id, name: call.name }));
+
+      if (call.name !== VALIDATE_CHARACTER_FILE_TOOL) continue;
+      const validated = parseValidatedCharacterFile(result);
+      if (validated) {
+        return { characterFile: validated, valid: true, steps, modelCalls: step + 1 };
+      }
+      characterFile = call.args;
+    }
+  }
+
+  return { characterFile, valid: false, steps, modelCalls: config.maxSteps };
+};
@@ -0,0 +1,40 @@
+import type { z } from "zod";
+
+import { escapePointerToken } from "@/common/utils/jsonDiff";
+import { CharacterSchema } from "./characterConfig";
+
+export type CharacterFieldError = {
+  /** JSON Pointer to the offending field, e.g. "/settings/secrets/OPENAI_API_KEY" */
+  path: string;
+  message: string;
+  code: string;
+};
+
+export type CharacterValidationResult =
+  | { success: true; data: z.infer<typeof CharacterSchema> }
+  | { success: false; errors: CharacterFieldError[] };
+
+/**
+ * Convert Zod issues into field-level errors addressed by JSON Pointer
+ * @param error The Zod error to convert
+ * @returns One entry per issue
+ */
+export const toCharacterFieldErrors = (error: z.ZodError): CharacterFieldError[] =>
+  error.issues.map((issue) => ({
+    path: issue.path.map((segment) => `/${escapePointerToken(segment)}`).join(""),
+    message: issue.message,
+    code: issue.code,
+  }));
+
+/**
+ * Validate a character file against CharacterSchema
+ * @param characterFile The candidate character file
+ * @returns The parsed character file, or the field-level errors that prevent it from parsing
+ */
+export const validateCharacterFile = (characterFile: unknown): CharacterValidationResult => {
+  const result = CharacterSchema.safeParse(characterFile);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return { success: false, errors: toCharacterFieldErrors(result.error) };
+};
@@ -0,0 +1,317 @@
+import { tokenize } from "../knowledge/hybridSearch";
+
+export type CatalogEntryKind = "client" | "plugin";
+
+export type CatalogEntry = {
+  kind: CatalogEntryKind;
+  /** Value to put in the character file: the client name for `clients`, the package name for `plugins` */
+  name: string;
+  /** npm package that provides the client or plugin */
+  package: string;
+  description: string;
+  /** `settings.secrets` keys the client or plugin reads */
+  secrets: { required: string[]; optional: string[] };
+  /** Key and example of the matching `clientConfig` block, when the client has one */
+  clientConfig: { key: string; example: Record<string, unknown> } | null;
+  /** Words in a conversation that suggest the entry is wanted */
+  keywords: string[];
+};
+
+export type ElizaCatalog = {
+  /** Revision of this catalog; bump it whenever an entry changes */
+  version: string;
+  /** ElizaOS release the entries were checked against */
+  elizaVersion: string;
+  entries: CatalogEntry[];
+};
+
+const client = (entry: Omit<CatalogEntry, "kind" | "package">): CatalogEntry => ({
+  kind: "client",
+  package: `@elizaos/client-${entry.name}`,
+  ...entry,
+});
+
+const plugin = (entry: Omit<CatalogEntry, "kind" | "name" | "clientConfig">): CatalogEntry => ({
+  kind: "plugin",
+  name: entry.package,
+  clientConfig: null,
+  ...entry,
+});
+
+export const elizaCatalog: ElizaCatalog = {
+  version: "2025.03.1",
+  elizaVersion: "0.25.9",
+  entries: [
+    client({
+      name: "discord",
+      description: "Chats in Discord servers and DMs, optionally joins voice channels",
+      secrets: { required: ["DISCORD_APPLICATION_ID", "DISCORD_API_TOKEN"], optional: ["DISCORD_VOICE_CHANNEL_ID"] },
+      clientConfig: {
+        key: "discord",
+        example: {
+          shouldIgnoreBotMessages: true,
+          shouldIgnoreDirectMessages: false,
+          shouldRespondOnlyToMentions: false,
+        },
+      },
+      keywords: ["discord", "guild", "voice channel"],
+    }),
+    client({
+      name: "twitter",
+      description: "Posts tweets, replies to mentions and searches the timeline on X/Twitter",
+      secrets: {
+        required: ["TWITTER_USERNAME", "TWITTER_PASSWORD", "TWITTER_EMAIL"],
+        optional: [
+          "TWITTER_2FA_SECRET",
+          "POST_INTERVAL_MIN",
+          "POST_INTERVAL_MAX",
+          "POST_IMMEDIATELY",
+          "TWITTER_DRY_RUN",
+        ],
+      },
+      clientConfig: null,
+      keywords: ["twitter", "tweet", "tweets", "x.com"],
+    }),
+    client({
+      name: "telegram",
+      description: "Answers in Telegram groups and private chats through a bot account",
+      secrets: { required: ["TELEGRAM_BOT_TOKEN"], optional: [] },
+      clientConfig: {
+        key: "telegram",
+        example: {
+          shouldIgnoreBotMessages: true,
+          shouldRespondOnlyToMentions: false,
+          shouldOnlyJoinInAllowedGroups: false,
+        },
+      },
+      keywords: ["telegram"],
+    }),
+    client({
+      name: "farcaster",
+      description: "Casts and replies on Farcaster through Neynar",
+      secrets: {
+        required: ["FARCASTER_FID", "FARCASTER_NEYNAR_API_KEY", "FARCASTER_NEYNAR_SIGNER_UUID"],
+        optional: ["FARCASTER_DRY_RUN", "FARCASTER_POLL_INTERVAL"],
+      },
+      clientConfig: null,
+      keywords: ["farcaster", "warpcast", "casts", "neynar"],
+    }),
+    client({
+      name: "lens",
+      description: "Posts and replies on Lens Protocol",
+      secrets: { required: ["EVM_PRIVATE_KEY", "LENS_PROFILE_ID"], optional: [] },
+      clientConfig: null,
+      keywords: ["lens protocol"],
+    }),
+    client({
+      name: "slack",
+      description: "Responds in Slack workspaces as a Slack app",
+      secrets: {
+        required: ["SLACK_APP_ID", "SLACK_CLIENT_ID", "SLACK_CLIENT_SECRET", "SLACK_SIGNING_SECRET", "SLACK_BOT_TOKEN"],
+        optional: ["SLACK_VERIFICATION_TOKEN"],
+      },
+      clientConfig: { key: "slack", example: { shouldIgnoreBotMessages: true, shouldIgnoreDirectMessages: false } },
+      keywords: ["slack"],
+    }),
+    client({
+      name: "github",
+      description: "Reads a GitHub repository and opens issues or pull requests",
+      secrets: {
+        required: ["GITHUB_OWNER", "GITHUB_REPO", "GITHUB_API_TOKEN"],
+        optional: ["GITHUB_BRANCH", "GITHUB_PATH"],
+      },
+      clientConfig: null,
+      keywords: ["github", "pull request", "pull requests"],
+    }),
+    client({
+      name: "direct",
+      description: "REST API for talking to the agent from a custom frontend",
+      secrets: { required: [], optional: ["SERVER_PORT"] },
+      clientConfig: null,
+      keywords: ["rest api", "website", "web app", "frontend"],
+    }),
+    client({
+      name: "auto",
+      description: "Runs the agent's actions on a timer without incoming messages",
+      secrets: { required: [], optional: [] },
+      clientConfig: null,
+      keywords: ["autonomous", "autonomously", "scheduled"],
+    }),
+    plugin({
+      package: "@elizaos/plugin-bootstrap",
+      description: "Core actions, evaluators and providers every agent needs",
+      secrets: { required: [], optional: [] },
+      keywords: [],
+    }),
+    plugin({
+      package: "@elizaos/plugin-solana",
+      description: "Solana wallet: balances, SPL token transfers and swaps",
+      secrets: {
+        required: ["SOLANA_PRIVATE_KEY", "SOLANA_PUBLIC_KEY"],
+        optional: ["SOLANA_RPC_URL", "HELIUS_API_KEY", "BIRDEYE_API_KEY"],
+      },
+      keywords: ["solana", "spl", "jupiter", "memecoin", "memecoins"],
+    }),
+    plugin({
+      package: "@elizaos/plugin-evm",
+      description: "EVM wallet: transfers, swaps and bridges on Ethereum and L2 chains",
+      secrets: { required: ["EVM_PRIVATE_KEY"], optional: ["EVM_PROVIDER_URL"] },
+      keywords: ["ethereum", "eth", "evm", "arbitrum", "optimism", "polygon", "erc20"],
+    }),
+    plugin({
+      package: "@elizaos/plugin-sui",
+      description: "Sui wallet: balances and token transfers",
+      secrets: { required: ["SUI_PRIVATE_KEY"], optional: ["SUI_NETWORK"] },
+      keywords: ["sui"],
+    }),
+    plugin({
+      package: "@elizaos/plugin-story",
+      description: "Registers and licenses IP on Story Protocol",
+      secrets: { required: ["STORY_PRIVATE_KEY"], optional: ["STORY_API_KEY", "PINATA_JWT"] },
+      keywords: ["story protocol"],
+    }),
+    plugin({
+      package: "@elizaos/plugin-coinbase",
+      description: "Coinbase Commerce charges, mass payments and advanced trading",
+      secrets: { required: ["COINBASE_API_KEY", "COINBASE_PRIVATE_KEY"], optional: ["COINBASE_COMMERCE_KEY"] },
+      keywords: ["coinbase"],
+    }),
+    plugin({
+      package: "@elizaos/plugin-image-generation",
+      description: "Generates images with the configured image model provider",
+      secrets: { required: [], optional: ["IMAGE_GEN"] },
+      keywords: ["image", "images", "picture", "pictures"],
+    }),
+    plugin({
+      package: "@elizaos/plugin-node",
+      description: "Node services: browser, PDF reading, speech-to-text, text-to-speech and video",
+      secrets: { required: [], optional: ["ELEVENLABS_XI_API_KEY", "ELEVENLABS_VOICE_ID"] },
+      keywords: ["voice", "speech", "tts", "audio", "pdf", "video"],
+    }),
+    plugin({
+      package: "@elizaos/plugin-web-search",
+      description: "Searches the web for up-to-date answers",
+      secrets: { required: ["TAVILY_API_KEY"], optional: [] },
+      keywords: ["web search", "search the web", "news"],
+    }),
+    plugin({
+      package: "@elizaos/plugin-tee",
+      description: "Runs the agent in a Trusted Execution Environment and derives keys remotely",
+      secrets: { required: ["WALLET_SECRET_SALT"], optional: ["TEE_MODE"] },
+      keywords: ["tee", "sgx", "tdx", "trusted execution", "attestation"],
+    }),
+    plugin({
+      package: "@elizaos/plugin-nft-generation",
+      description: "Generates NFT collections and mints them on Solana",
+      secrets: {
+        required: ["SOLANA_PRIVATE_KEY", "SOLANA_PUBLIC_KEY"],
+        optional: ["AWS_ACCESS_KEY_ID", "AWS_SECRET_ACCESS_KEY"],
+      },
+      keywords: ["nft", "nfts", "minting"],
+    }),
+  ],
+};
+
+/** `settings.secrets` keys each `modelProvider` needs */
+export const modelProviderSecrets: Record<string, string[]> = {
+  openai: ["OPENAI_API_KEY"],
+  anthropic: ["ANTHROPIC_API_KEY"],
+  google: ["GOOGLE_GENERATIVE_AI_API_KEY"],
+  claude_vertex: ["CLAUDE_VERTEX_API_KEY"],
+  grok: ["GROK_API_KEY"],
+  groq: ["GROQ_API_KEY"],
+  llama_cloud: ["LLAMA_CLOUD_API_KEY"],
+  llama_local: ["LLAMA_LOCAL_API_KEY"],
+  ollama: ["OLLAMA_API_KEY"],
+  redpill: ["REDPILL_API_KEY"],
+  openrouter: ["OPENROUTER_API_KEY"],
+  heurist: ["HEURIST_API_KEY"],
+  together: ["TOGETHER_API_KEY"],
+  eternalai: ["ETERNALAI_API_KEY"],
+  galadriel: ["GALADRIEL_API_KEY"],
+  falai: ["FAL_API_KEY"],
+  gaianet: ["GAIANET_SERVER_URL"],
+  ali_bailian: ["ALI_BAILIAN_API_KEY"],
+  volengine: ["VOLENGINE_API_URL"],
+  nanogpt: ["NANOGPT_API_KEY"],
+  hyperbolic: ["HYPERBOLIC_API_KEY"],
+  venice: ["VENICE_API_KEY"],
+  akash_chat_api: ["AKASH_CHAT_API_KEY"],
+  livepeer: ["LIVEPEER_GATEWAY_URL"],
+  deepseek: ["DEEPSEEK_API_KEY"],
+  mistral: ["MISTRAL_API_KEY"],
+};
+
+/**
+ * Find catalog entries by kind and free-text query
+ * @param options `kind` limits the entries to clients or plugins; `query` words match names, packages, descriptions,
+ * keywords and required secrets
+ */
+export const findCatalogEntries = (options: { kind?: CatalogEntryKind; query?: string } = {}): CatalogEntry[] => {
+  // Whole query words only, so "TAVILY_API_KEY" does not match every entry with an API key
+  const terms = (options.query ?? "")
+    .toLowerCase()
+    .split(/\s+/)
+    .map((word) => word.replace(/^[^\w@]+|[^\w]+$/g, ""))
+    .filter(Boolean);
+  return elizaCatalog.entries.filter((entry) => {
+    if (options.kind && entry.kind !== options.kind) return false;
+    if (terms.length === 0) return true;
+    const haystack = new Set(
+      tokenize([entry.name, entry.package, entry.description, ...entry.keywords, ...entry.secrets.required].join(" ")),
+    );
+    return terms.some((term) => haystack.has(term));
+  });
+};
+
+/**
+ * Pick the entries a character file generation should know about
+ * An entry is relevant when the character file already uses it, or when one of its keywords or its
+ * name comes up in the conversation.
+ */
+export const relevantCatalogEntries = (conversation: string, characterFile: unknown): CatalogEntry[] => {
+  const text = ` ${tokenize(conversation).join(" ")} `;
+  const file = (characterFile ?? {}) as { clients?: unknown; plugins?: unknown };
+  const used = new Set(
+    [file.clients, file.plugins]
+      .flatMap((list) => (Array.isArray(list) ? list : []))
+      .filter((v) => typeof v === "string"),
+  );
+
+  return elizaCatalog.entries.filter(
+    (entry) =>
+      used.has(entry.name) ||
+      [entry.name, ...entry.keywords].some((keyword) => text.includes(` ${tokenize(keyword).join(" ")} `)),
+  );
+};
+
+/**
+ * Render catalog entries for a prompt
+ * Every known client and plugin name is listed so the model never has to invent one; the relevant
+ * entries are described in full with their secrets and clientConfig block.
+ */
+export const formatCatalogForPrompt = (entries: CatalogEntry[]): string => {
+  const names = (kind: CatalogEntryKind) =>
+    elizaCatalog.entries
+      .filter((entry) => entry.kind === kind)
+      .map((entry) => entry.name)
+      .join(", ");
+  const details = entries.map((entry) =>
+    [
+      `- ${entry.kind} "${entry.name}" (${entry.package}): ${entry.description}`,
+      `  required secrets: ${entry.secrets.required.join(", ") || "none"}`,
+      `  optional secrets: ${entry.secrets.optional.join(", ") || "none"}`,
+      ...(entry.clientConfig
+        ? [`  clientConfig.${entry.clientConfig.key}: ${JSON.stringify(entry.clientConfig.example)}`]
+        : []),
+    ].join("\n"),
+  );
+
+  return [
+    `Catalog version ${elizaCatalog.version} (ElizaOS ${elizaCatalog.elizaVersion})`,
+    `Known clients: ${names("client")}`,
+    `Known plugins: ${names("plugin")}`,
+    "Relevant entries:",
+    details.length > 0 ? details.join("\n") : "- none yet",
+  ].join("\n");
+};
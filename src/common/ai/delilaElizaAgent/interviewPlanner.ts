@@ -0,0 +1,153 @@
+import { type LintFinding, MIN_SECTION_ITEMS, lintCharacterFile } from "./characterLint";
+import { validateCharacterFile } from "./characterValidation";
+
+export const INTERVIEW_STAGES = ["persona", "style", "platforms", "keys", "review", "deploy"] as const;
+export type InterviewStage = (typeof INTERVIEW_STAGES)[number];
+
+export type MissingField = {
+  stage: InterviewStage;
+  /** JSON Pointer to the field, e.g. "/lore" or "/settings/secrets/DISCORD_API_TOKEN" */
+  path: string;
+  message: string;
+};
+
+export type InterviewPlan = {
+  stage: InterviewStage;
+  /** How complete the character file is, from 0 to 100; 100 only once it is reviewed */
+  progress: number;
+  /** The highest-priority missing fields, to ask about next */
+  missing: MissingField[];
+  /** Number of missing fields in total, including those not listed */
+  remaining: number;
+};
+
+/** Missing fields handed to the reply per turn, so Delila asks a few focused questions */
+export const MAX_PLANNED_FIELDS = 3;
+
+// Lint rules the user has to answer; the other findings are autofixed or informational
+const INTERVIEW_RULES = new Set(["min-items", "client-required", "unknown-client", "unknown-plugin", "empty-secret"]);
+
+const SECTION_PATHS = [
+  ["bio"],
+  ["lore"],
+  ["topics"],
+  ["adjectives"],
+  ["messageExamples"],
+  ["postExamples"],
+  ["style", "all"],
+  ["style", "chat"],
+  ["style", "post"],
+];
+
+// Which stage of the interview collects a field, by its top-level key
+const stageOfPath = (path: string): InterviewStage => {
+  const [, key, child] = path.split("/");
+  switch (key) {
+    case "name":
+    case "username":
+    case "system":
+    case "bio":
+    case "lore":
+    case "topics":
+    case "adjectives":
+    case "knowledge":
+      return "persona";
+    case "style":
+    case "messageExamples":
+    case "postExamples":
+      return "style";
+    case "clients":
+    case "plugins":
+    case "modelProvider":
+    case "clientConfig":
+      return "platforms";
+    case "settings":
+      return child === "secrets" ? "keys" : "review";
+    default:
+      return "review";
+  }
+};
+
+const stageIndex = (stage: InterviewStage) => INTERVIEW_STAGES.indexOf(stage);
+
+const asObject = (value: unknown): Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+
+const countItems = (file: Record<string, unknown>, path: string[]) => {
+  const value = path.reduce<unknown>((current, key) => asObject(current)[key], file);
+  return Array.isArray(value) ? value.length : 0;
+};
+
+// Share of the requirements met: section sizes, name, model provider, a client and filled-in secrets
+const completeness = (file: Record<string, unknown>, findings: LintFinding[]) => {
+  const sections = SECTION_PATHS.map((path) => Math.min(countItems(file, path), MIN_SECTION_ITEMS) / MIN_SECTION_ITEMS);
+  const secrets = Object.values(asObject(asObject(file.settings).secrets));
+  const emptySecrets = findings.filter((finding) => finding.rule === "empty-secret").length;
+  const clients = Array.isArray(file.clients) && file.clients.length > 0;
+  const scores = [
+    ...sections,
+    typeof file.name === "string" && file.name.trim() ? 1 : 0,
+    typeof file.modelProvider === "string" && file.modelProvider ? 1 : 0,
+    clients ? 1 : 0,
+    secrets.length > 0 ? (secrets.length - emptySecrets) / secrets.length : clients ? 1 : 0,
+  ];
+  return scores.reduce((sum, score) => sum + score, 0) / scores.length;
+};
+
+/**
+ * Work out what the interview should ask about next
+ *
+ * Compares the character file against CharacterSchema and the readiness rules of the linter and
+ * orders the gaps by stage: persona, style, platforms, then keys. Once nothing is missing the
+ * interview moves to review, and after one review turn without new gaps to deploy.
+ * @param characterFile The session's current character file
+ * @param previousStage The stage stored on the session, if any
+ */
+export const planInterview = (characterFile: unknown, previousStage?: string | null): InterviewPlan => {
+  // Plan on the autofixed character file, the one that gets stored
+  const firstLint = lintCharacterFile(characterFile);
+  const file = asObject(firstLint.fixedCharacterFile ?? characterFile);
+  const { findings } = firstLint.fixedCharacterFile ? lintCharacterFile(file) : firstLint;
+
+  const missing: MissingField[] = [];
+  if (typeof file.name !== "string" || !file.name.trim()) {
+    missing.push({ stage: "persona", path: "/name", message: "The agent needs a name" });
+  }
+  const validation = validateCharacterFile(file);
+  if (!validation.success) {
+    for (const error of validation.errors) {
+      missing.push({ stage: stageOfPath(error.path), path: error.path, message: error.message });
+    }
+  }
+  for (const finding of findings) {
+    if (!INTERVIEW_RULES.has(finding.rule)) continue;
+    missing.push({ stage: stageOfPath(finding.path), path: finding.path, message: finding.message });
+  }
+
+  // Stable sort keeps the schema and rule order within a stage
+  const unique = missing.filter((field, index) => missing.findIndex((other) => other.path === field.path) === index);
+  unique.sort((a, b) => stageIndex(a.stage) - stageIndex(b.stage));
+
+  let stage: InterviewStage;
+  if (unique.length > 0) {
+    stage = unique[0].stage;
+  } else {
+    stage = previousStage === "review" || previousStage === "deploy" ? "deploy" : "review";
+  }
+
+  const progress = stage === "deploy" ? 100 : Math.round(95 * completeness(file, findings));
+  return { stage, progress, missing: unique.slice(0, MAX_PLANNED_FIELDS), remaining: unique.length };
+};
+
+/**
+ * Render an interview plan for the reply prompt
+ * @param plan The plan for this turn
+ */
+export const formatInterviewPlan = (plan: InterviewPlan): string =>
+  [
+    `Stage: ${plan.stage} (${plan.progress}% complete)`,
+    plan.missing.length > 0
+      ? `Ask about these next (${plan.remaining} gaps left in total):`
+      : "Nothing is missing from the character file.",
+    ...plan.missing.map((field) => `- ${field.path.slice(1).replace(/\//g, ".")}: ${field.message}`),
+  ].join("\n");
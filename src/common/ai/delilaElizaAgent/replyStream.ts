@@ -0,0 +1,28 @@
+import type { ReplyStreamEvent } from "./AgentServer";
+
+const replyText = (snapshot: unknown): string | undefined => {
+  if (!snapshot || typeof snapshot !== "object") return undefined;
+  const { reply } = snapshot as { reply?: unknown };
+  return typeof reply === "string" ? reply : undefined;
+};
+
+/**
+ * Turn partially parsed `{ reply }` snapshots into text deltas
+ *
+ * Each snapshot holds the whole reply parsed so far, so only the text past what was already sent
+ * is emitted. A snapshot that does not extend the sent text is skipped. The stream ends with a
+ * `replyComplete` event carrying the sent text, which is exactly the concatenation of the deltas.
+ * When the snapshots fail, their error is thrown instead and no `replyComplete` follows.
+ * @param snapshots Output of the reply chain, one partial answer per model chunk
+ */
+export async function* replyDeltas(snapshots: AsyncIterable<unknown>): AsyncGenerator<ReplyStreamEvent> {
+  let sent = "";
+  for await (const snapshot of snapshots) {
+    const reply = replyText(snapshot);
+    if (reply === undefined || reply.length <= sent.length || !reply.startsWith(sent)) continue;
+
+    yield { type: "reply", content: reply.slice(sent.length) };
+    sent = reply;
+  }
+  yield { type: "replyComplete", content: sent };
+}
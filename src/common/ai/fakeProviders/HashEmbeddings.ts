@@ -0,0 +1,49 @@
+import { Embeddings, type EmbeddingsParams } from "@langchain/core/embeddings";
+
+export interface HashEmbeddingsParams extends EmbeddingsParams {
+  /** Number of dimensions of each vector */
+  dimensions?: number;
+}
+
+// FNV-1a, so the same token always lands in the same bucket across processes
+const hashToken = (token: string): number => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < token.length; index++) {
+    hash ^= token.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Deterministic embeddings built by hashing lowercase word tokens into a fixed number of buckets
+ * Texts sharing words end up close together, which is enough for retrieval in tests without an API.
+ */
+export class HashEmbeddings extends Embeddings {
+  readonly dimensions: number;
+
+  constructor(params: HashEmbeddingsParams = {}) {
+    super(params);
+    this.dimensions = params.dimensions ?? 256;
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    return documents.map((document) => this.embed(document));
+  }
+
+  async embedQuery(document: string): Promise<number[]> {
+    return this.embed(document);
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const token of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+      const hash = hashToken(token);
+      // The top bit picks the sign so unrelated tokens tend to cancel out instead of piling up
+      vector[(hash & 0x7fffffff) % this.dimensions] += hash & 0x80000000 ? -1 : 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map((value) => value / norm);
+  }
+}
@@ -0,0 +1,141 @@
+import { readFileSync } from "node:fs";
+import type { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import type { BaseLanguageModelInput } from "@langchain/core/language_models/base";
+import {
+  BaseChatModel,
+  type BaseChatModelCallOptions,
+  type BaseChatModelParams,
+  type BindToolsInput,
+} from "@langchain/core/language_models/chat_models";
+import { AIMessage, AIMessageChunk, type BaseMessage } from "@langchain/core/messages";
+import type { ToolCall } from "@langchain/core/messages/tool";
+import { ChatGenerationChunk, type ChatResult } from "@langchain/core/outputs";
+import type { Runnable } from "@langchain/core/runnables";
+
+import { defaultFakeResponses } from "./defaultFakeResponses";
+
+export type FakeResponse = {
+  /** Substring the prompt must contain for this response to be used; omit to match any prompt */
+  match?: string;
+  /** Text the model answers with; objects are serialized as JSON */
+  response?: string | Record<string, unknown>;
+  /** Tool calls the model makes, used when tools are bound to the model */
+  toolCalls?: { name: string; args: Record<string, unknown> }[];
+};
+
+export interface ScriptedChatModelParams extends BaseChatModelParams {
+  /** Responses checked in order; the first one whose `match` appears in the prompt wins */
+  responses?: FakeResponse[];
+  /** Path to a JSON file with `{ "responses": FakeResponse[] }`, used instead of `responses` */
+  fixturesPath?: string;
+  /** Number of characters per streamed chunk */
+  chunkSize?: number;
+}
+
+/**
+ * Loads fake model responses from a fixtures file
+ * @param fixturesPath Path to a JSON file containing `{ "responses": [...] }` or a bare array
+ */
+export const loadFakeResponses = (fixturesPath: string): FakeResponse[] => {
+  const fixtures = JSON.parse(readFileSync(fixturesPath, "utf8"));
+  const responses = Array.isArray(fixtures) ? fixtures : fixtures?.responses;
+  if (!Array.isArray(responses)) {
+    throw new Error(`Fake LLM fixtures at ${fixturesPath} must contain a "responses" array`);
+  }
+  return responses;
+};
+
+const messageText = (message: BaseMessage): string =>
+  typeof message.content === "string"
+    ? message.content
+    : message.content.map((part) => ("text" in part ? part.text : "")).join("");
+
+/**
+ * Chat model that answers from scripted fixtures instead of calling a provider
+ * Used for local development and tests without API keys; responses are fully deterministic.
+ */
+export class ScriptedChatModel extends BaseChatModel {
+  private responses: FakeResponse[];
+  private chunkSize: number;
+
+  constructor(params: ScriptedChatModelParams = {}) {
+    super(params);
+    this.responses = params.fixturesPath
+      ? loadFakeResponses(params.fixturesPath)
+      : (params.responses ?? defaultFakeResponses);
+    this.chunkSize = params.chunkSize ?? 16;
+  }
+
+  static lc_name() {
+    return "ScriptedChatModel";
+  }
+
+  _llmType() {
+    return "fake";
+  }
+
+  bindTools(
+    tools: BindToolsInput[],
+    kwargs?: Partial<BaseChatModelCallOptions>,
+  ): Runnable<BaseLanguageModelInput, AIMessageChunk, BaseChatModelCallOptions> {
+    return this.bind({ tools, ...kwargs } as Partial<BaseChatModelCallOptions>);
+  }
+
+  /**
+   * Picks the scripted response for a prompt
+   * Tool calls are only made when tools are bound, like a real model.
+   * @throws Error when no fixture matches, so missing fixtures are noticed instead of answered with junk
+   */
+  respondTo(messages: BaseMessage[], options?: Record<string, unknown>): { text: string; toolCalls: ToolCall[] } {
+    const prompt = messages.map(messageText).join("\n");
+    const fixture = this.responses.find(({ match }) => match === undefined || prompt.includes(match));
+    if (!fixture) {
+      throw new Error(`No fake LLM response matches the prompt: ${prompt.slice(0, 200)}`);
+    }
+    const toolsBound = Array.isArray(options?.tools) && options.tools.length > 0;
+    const toolCalls: ToolCall[] = toolsBound
+      ? (fixture.toolCalls ?? []).map(({ name, args }, index) => ({
+          id: `call_${messages.length}_${index}`,
+          name,
+          args,
+          type: "tool_call",
+        }))
+      : [];
+    const response = fixture.response ?? "";
+    return { text: typeof response === "string" ? response : JSON.stringify(response), toolCalls };
+  }
+
+  async _generate(messages: BaseMessage[], options?: this["ParsedCallOptions"]): Promise<ChatResult> {
+    const { text, toolCalls } = this.respondTo(messages, options);
+    return { generations: [{ text, message: new AIMessage({ content: text, tool_calls: toolCalls }) }] };
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun,
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const { text, toolCalls } = this.respondTo(messages, options);
+    if (toolCalls.length > 0) {
+      yield new ChatGenerationChunk({
+        text,
+        message: new AIMessageChunk({
+          content: text,
+          tool_call_chunks: toolCalls.map((call, index) => ({
+            type: "tool_call_chunk",
+            id: call.id,
+            name: call.name,
+            args: JSON.stringify(call.args),
+            index,
+          })),
+        }),
+      });
+      return;
+    }
+    for (let start = 0; start < text.length; start += this.chunkSize) {
+      const token = text.slice(start, start + this.chunkSize);
+      yield new ChatGenerationChunk({ text: token, message: new AIMessageChunk(token) });
+      await runManager?.handleLLMNewToken(token);
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import type { Document } from "@langchain/core/documents";
+
+import { VectorStoreManager } from "@/common/ai/VectorStoreManager";
+import { embeddingConfig, vectorStoreConfig } from "@/common/ai/aiConfig";
+import { type KnowledgeContentType, loadKnowledgeDocuments } from "./knowledgeLoaders";
+import { type SplitterConfig, createTextSplitter } from "./knowledgeSplitters";
+
+export type KnowledgeUpload = {
+  content: Buffer;
+  contentType: KnowledgeContentType;
+  filename: string;
+  title?: string | null;
+};
+
+/**
+ * Loads uploads, splits them into chunks and keeps the vector store in sync with knowledge sources
+ *
+ * Every chunk is tagged with the `sourceId` of its KnowledgeSource so a source can be
+ * replaced or removed without touching anything else in the store, and with the `namespace`
+ * it belongs to so retrieval can be limited to global and per-session knowledge.
+ */
+export class KnowledgeIngestor {
+  private getVectorStore: () => VectorStoreManager;
+
+  // The vector store is resolved lazily so importing the ingestor never needs API keys
+  constructor(
+    getVectorStore: () => VectorStoreManager = () => VectorStoreManager.getInstance(vectorStoreConfig, embeddingConfig),
+  ) {
+    this.getVectorStore = getVectorStore;
+  }
+
+  /**
+   * Load and split an upload
+   * @throws KnowledgeLoadError when the upload cannot be parsed
+   * @returns The chunks, with filename, content type, title, chunk index and page metadata
+   */
+  async split(upload: KnowledgeUpload, splitter: SplitterConfig): Promise<Document[]> {
+    const documents = await loadKnowledgeDocuments(upload.content, upload.contentType);
+    const chunks = await createTextSplitter(splitter).splitDocuments(documents);
+
+    return chunks
+      .filter((chunk) => chunk.pageContent.trim().length > 0)
+      .map((chunk, chunkIndex) => {
+        const pageNumber = (chunk.metadata.loc as { pageNumber?: number } | undefined)?.pageNumber;
+        chunk.metadata = {
+          filename: upload.filename,
+          contentType: upload.contentType,
+          ...(upload.title ? { title: upload.title } : {}),
+          ...(pageNumber ? { page: pageNumber } : {}),
+          chunkIndex,
+        };
+        return chunk;
+      });
+  }
+
+  /**
+   * Replace the stored chunks of a source
+   * @param sourceId KnowledgeSource ID
+   * @param source KnowledgeSource name, stored on each chunk for display
+   * @param namespace Namespace of the source, see `knowledgeNamespace`
+   * @param chunks Chunks produced by `split`
+   */
+  async replace(sourceId: string, source: string, namespace: string, chunks: Document[]): Promise<void> {
+    const vectorStore = this.getVectorStore();
+    await vectorStore.deleteDocuments({ sourceId });
+    for (const chunk of chunks) {
+      chunk.metadata = { ...chunk.metadata, sourceId, source, namespace };
+    }
+    await vectorStore.addDocuments(chunks);
+  }
+
+  /**
+   * Remove every chunk of a source from the vector store
+   * @param sourceId KnowledgeSource ID
+   */
+  async remove(sourceId: string): Promise<void> {
+    await this.getVectorStore().deleteDocuments({ sourceId });
+  }
+
+  /**
+   * Remove every chunk of a namespace from the vector store, e.g. when its session is deleted
+   * @param namespace Namespace to clear, see `knowledgeNamespace`
+   */
+  async removeNamespace(namespace: string): Promise<void> {
+    await this.getVectorStore().deleteDocuments({ namespace });
+  }
+}
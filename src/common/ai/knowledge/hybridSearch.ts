@@ -0,0 +1,95 @@
+import type { Document } from "@langchain/core/documents";
+
+/** A document found by hybrid search, with the score of each retriever that found it */
+export type HybridSearchResult = {
+  document: Document;
+  /** Reciprocal-rank fusion score, or the reranker's score once reranked */
+  score: number;
+  /** Cosine similarity to the query, when found by vector search */
+  vectorScore?: number;
+  /** Full-text rank, when found by lexical search */
+  lexicalScore?: number;
+};
+
+// Rank constant from the original RRF paper; dampens the weight of the very first ranks
+export const DEFAULT_RRF_K = 60;
+
+/**
+ * Split text into lowercase search terms
+ *
+ * Identifiers such as `@elizaos/plugin-solana` or `TWITTER_USERNAME` are kept whole and also
+ * split into their parts, so both an exact mention and a loose one ("solana plugin") match.
+ */
+export const tokenize = (text: string): string[] => {
+  const terms: string[] = [];
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}@][\p{L}\p{N}@_./-]*/gu) ?? []) {
+    const identifier = word.replace(/[._/-]+$/, "");
+    const parts = identifier.split(/[@_./-]+/).filter(Boolean);
+    terms.push(...parts);
+    if (parts.length > 1 || identifier !== parts[0]) {
+      terms.push(identifier);
+    }
+  }
+  return terms;
+};
+
+/**
+ * Rank documents against a query with BM25, for stores without a full-text index
+ * @returns Documents containing at least one query term with their BM25 score, best first
+ */
+export const bm25Search = (documents: Document[], query: string, k: number): [Document, number][] => {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0 || documents.length === 0) return [];
+
+  const k1 = 1.2;
+  const b = 0.75;
+  const tokenized = documents.map((document) => tokenize(document.pageContent));
+  const averageLength = tokenized.reduce((sum, terms) => sum + terms.length, 0) / documents.length || 1;
+  const documentFrequency = new Map(
+    queryTerms.map((term) => [term, tokenized.filter((terms) => terms.includes(term)).length]),
+  );
+
+  const scored: [Document, number][] = [];
+  tokenized.forEach((terms, index) => {
+    let score = 0;
+    for (const term of queryTerms) {
+      const frequency = terms.filter((t) => t === term).length;
+      if (frequency === 0) continue;
+      const df = documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+      score += (idf * frequency * (k1 + 1)) / (frequency + k1 * (1 - b + (b * terms.length) / averageLength));
+    }
+    if (score > 0) scored.push([documents[index], score]);
+  });
+
+  return scored.sort((a, b) => b[1] - a[1]).slice(0, k);
+};
+
+/**
+ * Fuse the rankings of vector and lexical search with reciprocal-rank fusion
+ *
+ * Each document scores the sum of 1 / (rrfK + rank) over the rankings it appears in, so
+ * documents found by both retrievers rise to the top without having to compare their raw scores.
+ * @param key Identifies the same document across rankings
+ * @returns The fused ranking, best first
+ */
+export const reciprocalRankFusion = (
+  rankings: { vector: [Document, number][]; lexical: [Document, number][] },
+  key: (document: Document) => string,
+  rrfK = DEFAULT_RRF_K,
+): HybridSearchResult[] => {
+  const fused = new Map<string, HybridSearchResult>();
+  const add = (results: [Document, number][], field: "vectorScore" | "lexicalScore") => {
+    results.forEach(([document, score], index) => {
+      const id = key(document);
+      const entry = fused.get(id) ?? { document, score: 0 };
+      entry.score += 1 / (rrfK + index + 1);
+      entry[field] = score;
+      fused.set(id, entry);
+    });
+  };
+  add(rankings.vector, "vectorScore");
+  add(rankings.lexical, "lexicalScore");
+
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+};
@@ -0,0 +1,69 @@
+import { WebPDFLoader } from "@langchain/community/document_loaders/web/pdf";
+import { Document } from "@langchain/core/documents";
+
+export const KNOWLEDGE_CONTENT_TYPES = ["text/markdown", "text/plain", "application/json", "application/pdf"] as const;
+
+export type KnowledgeContentType = (typeof KNOWLEDGE_CONTENT_TYPES)[number];
+
+const EXTENSION_CONTENT_TYPES: Record<string, KnowledgeContentType> = {
+  md: "text/markdown",
+  markdown: "text/markdown",
+  txt: "text/plain",
+  text: "text/plain",
+  json: "application/json",
+  pdf: "application/pdf",
+};
+
+/**
+ * Thrown when an upload cannot be turned into text, e.g. malformed JSON or an unreadable PDF
+ */
+export class KnowledgeLoadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "KnowledgeLoadError";
+  }
+}
+
+/**
+ * Resolve the content type of an upload from the declared type or the filename extension
+ * @returns The content type, or null when the upload is not a supported format
+ */
+export const resolveKnowledgeContentType = (filename: string, declared?: string): KnowledgeContentType | null => {
+  const mediaType = declared?.split(";")[0].trim().toLowerCase();
+  if (mediaType && (KNOWLEDGE_CONTENT_TYPES as readonly string[]).includes(mediaType)) {
+    return mediaType as KnowledgeContentType;
+  }
+  const extension = filename.split(".").pop()?.toLowerCase() ?? "";
+  return EXTENSION_CONTENT_TYPES[extension] ?? null;
+};
+
+/**
+ * Turn an upload into documents ready for splitting
+ * PDFs produce one document per page (with `loc.pageNumber` metadata), other formats a single document.
+ * JSON is pretty-printed so keys stay next to their values in the chunks.
+ * @throws KnowledgeLoadError when the content cannot be parsed
+ */
+export const loadKnowledgeDocuments = async (
+  content: Buffer,
+  contentType: KnowledgeContentType,
+): Promise<Document[]> => {
+  switch (contentType) {
+    case "application/pdf":
+      try {
+        return await new WebPDFLoader(new Blob([content]), { splitPages: true }).load();
+      } catch (error) {
+        throw new KnowledgeLoadError(`PDF could not be read: ${(error as Error).message}`);
+      }
+
+    case "application/json":
+      try {
+        const json = JSON.parse(content.toString("utf8"));
+        return [new Document({ pageContent: JSON.stringify(json, null, 2), metadata: {} })];
+      } catch (error) {
+        throw new KnowledgeLoadError(`JSON could not be parsed: ${(error as Error).message}`);
+      }
+
+    default:
+      return [new Document({ pageContent: content.toString("utf8"), metadata: {} })];
+  }
+};
@@ -0,0 +1,91 @@
+import type { Document } from "@langchain/core/documents";
+
+import type { VectorStoreManager } from "@/common/ai/VectorStoreManager";
+import type { Reranker } from "./rerankers";
+
+export const GLOBAL_NAMESPACE = "global";
+
+/**
+ * Namespace stored on every chunk: `global` for knowledge shared by every session,
+ * `session:<id>` for material uploaded for one session only
+ */
+export const knowledgeNamespace = (sessionId?: string | null): string =>
+  sessionId ? `session:${sessionId}` : GLOBAL_NAMESPACE;
+
+export type RetrievalConfig = {
+  /** Maximum number of global chunks to retrieve */
+  globalK: number;
+  /** Maximum number of chunks to retrieve from the session's own uploads */
+  sessionK: number;
+  /** Chunks less similar to the query than this (0-1) are dropped, unless they contain a query term */
+  minScore: number;
+  /** Hybrid-search candidates per namespace handed to the reranker */
+  candidates: number;
+  reranker: Reranker;
+};
+
+export type RetrievedChunk = {
+  document: Document;
+  score: number;
+  namespace: string;
+};
+
+/** Where a piece of retrieved context came from, shown to the user next to the reply */
+export type KnowledgeCitation = {
+  sourceId: string | null;
+  title: string;
+  /** File the chunk was taken from */
+  path: string;
+  page?: number;
+  namespace: string;
+  score: number;
+};
+
+export const toCitation = ({ document, score, namespace }: RetrievedChunk): KnowledgeCitation => {
+  const metadata = document.metadata as Record<string, unknown>;
+  const path = String(metadata.filename ?? metadata.source ?? "unknown");
+  return {
+    sourceId: typeof metadata.sourceId === "string" ? metadata.sourceId : null,
+    title: String(metadata.title ?? metadata.source ?? path),
+    path,
+    ...(typeof metadata.page === "number" ? { page: metadata.page } : {}),
+    namespace,
+    score: Math.round(score * 10000) / 10000,
+  };
+};
+
+/**
+ * Retrieve knowledge for a session from the global namespace and the session's own namespace
+ *
+ * Each namespace is searched with its own metadata filter, so chunks uploaded for another
+ * session can never be returned. Within a namespace, hybrid-search candidates are reranked
+ * and the best k are kept.
+ * @returns The kept chunks with their reranked score, best first
+ */
+export const retrieveKnowledge = async (
+  vectorStore: VectorStoreManager,
+  query: string,
+  sessionId: string,
+  config: RetrievalConfig,
+): Promise<RetrievedChunk[]> => {
+  const searches: [string, number][] = [
+    [GLOBAL_NAMESPACE, config.globalK],
+    [knowledgeNamespace(sessionId), config.sessionK],
+  ];
+
+  const results = await Promise.all(
+    searches
+      .filter(([, k]) => k > 0)
+      .map(async ([namespace, k]) => {
+        const candidates = (
+          await vectorStore.hybridSearch(query, Math.max(k, config.candidates), { namespace })
+        ).filter(
+          (candidate) => candidate.lexicalScore !== undefined || (candidate.vectorScore ?? 0) >= config.minScore,
+        );
+        const reranked = await config.reranker.rerank(query, candidates);
+        return reranked.slice(0, k).map(({ document, score }): RetrievedChunk => ({ document, score, namespace }));
+      }),
+  );
+
+  return results.flat().sort((a, b) => b.score - a.score);
+};
@@ -0,0 +1,39 @@
+import { CharacterTextSplitter, RecursiveCharacterTextSplitter, type TextSplitter } from "langchain/text_splitter";
+import { z } from "zod";
+
+import { env } from "@/common/utils/envConfig";
+import type { KnowledgeContentType } from "./knowledgeLoaders";
+
+export const SplitterConfigSchema = z
+  .object({
+    type: z.enum(["recursive", "markdown", "character"]),
+    chunkSize: z.number().int().min(50).max(20000),
+    chunkOverlap: z.number().int().min(0),
+  })
+  .refine((config) => config.chunkOverlap < config.chunkSize, {
+    message: "chunkOverlap must be smaller than chunkSize",
+    path: ["chunkOverlap"],
+  });
+
+export type SplitterConfig = z.infer<typeof SplitterConfigSchema>;
+
+/**
+ * Default splitter for a content type, sized by KNOWLEDGE_CHUNK_SIZE / KNOWLEDGE_CHUNK_OVERLAP
+ * Markdown is split on headings first so sections stay together.
+ */
+export const defaultSplitterConfig = (contentType: KnowledgeContentType): SplitterConfig => ({
+  type: contentType === "text/markdown" ? "markdown" : "recursive",
+  chunkSize: env.KNOWLEDGE_CHUNK_SIZE,
+  chunkOverlap: env.KNOWLEDGE_CHUNK_OVERLAP,
+});
+
+export const createTextSplitter = ({ type, chunkSize, chunkOverlap }: SplitterConfig): TextSplitter => {
+  switch (type) {
+    case "markdown":
+      return RecursiveCharacterTextSplitter.fromLanguage("markdown", { chunkSize, chunkOverlap });
+    case "character":
+      return new CharacterTextSplitter({ chunkSize, chunkOverlap });
+    default:
+      return new RecursiveCharacterTextSplitter({ chunkSize, chunkOverlap });
+  }
+};
@@ -0,0 +1,77 @@
+import { type HybridSearchResult, tokenize } from "./hybridSearch";
+
+export const RERANKERS = ["none", "heuristic"] as const;
+export type RerankerName = (typeof RERANKERS)[number];
+
+/**
+ * Reorders retrieval candidates before the best k are used as context
+ *
+ * Implementations replace each candidate's `score` with their own and return the candidates
+ * best first. A cross-encoder or hosted rerank API can be added behind this interface.
+ */
+export interface Reranker {
+  readonly name: RerankerName;
+  rerank(query: string, candidates: HybridSearchResult[]): Promise<HybridSearchResult[]>;
+}
+
+// Words that carry no meaning for matching knowledge chunks
+const STOPWORDS = new Set(
+  "a an and are as at be but by can do for from how i in is it my of on or so that the this to we what with you your".split(
+    " ",
+  ),
+);
+
+// Terms the user most likely meant verbatim: package names, env keys, paths, hyphenated names
+const isIdentifier = (term: string) => /[@_./-]/.test(term);
+
+/** Keeps the fused hybrid-search order */
+export class PassthroughReranker implements Reranker {
+  readonly name = "none";
+
+  async rerank(_query: string, candidates: HybridSearchResult[]): Promise<HybridSearchResult[]> {
+    return candidates;
+  }
+}
+
+/**
+ * Local reranker that needs no model or network
+ *
+ * Blends the fused rank with how many query terms a chunk contains, weighting exact matches
+ * of identifiers such as `@elizaos/plugin-solana` or `DISCORD_API_TOKEN` the most.
+ * Scores range from 0 to 1.
+ */
+export class HeuristicReranker implements Reranker {
+  readonly name = "heuristic";
+
+  async rerank(query: string, candidates: HybridSearchResult[]): Promise<HybridSearchResult[]> {
+    if (candidates.length === 0) return candidates;
+
+    const queryTerms = [...new Set(tokenize(query))].filter((term) => !STOPWORDS.has(term));
+    const identifiers = queryTerms.filter(isIdentifier);
+    const words = queryTerms.filter((term) => !isIdentifier(term));
+    const topScore = Math.max(...candidates.map((candidate) => candidate.score)) || 1;
+
+    return candidates
+      .map((candidate) => {
+        const terms = new Set(tokenize(candidate.document.pageContent));
+        const coverage = words.length ? words.filter((term) => terms.has(term)).length / words.length : 0;
+        const exact = identifiers.length
+          ? identifiers.filter((term) => terms.has(term)).length / identifiers.length
+          : 0;
+        const rank = candidate.score / topScore;
+
+        const score = identifiers.length ? 0.4 * rank + 0.25 * coverage + 0.35 * exact : 0.6 * rank + 0.4 * coverage;
+        return { ...candidate, score };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+}
+
+export const createReranker = (name: RerankerName): Reranker => {
+  switch (name) {
+    case "heuristic":
+      return new HeuristicReranker();
+    case "none":
+      return new PassthroughReranker();
+  }
+};
@@ -0,0 +1,69 @@
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+
+import { type LLLModelConfig, LLMProviders } from "./LLMModelManager";
+
+/**
+ * Chains that can run on a model of their own
+ * - reply: Delila's conversational answer
+ * - character: editing or drafting the character file, including the tool loop
+ * - repair: the one call fixing the fields that fail validation
+ */
+export const MODEL_PROFILES = ["reply", "character", "repair"] as const;
+export type ModelProfileName = (typeof MODEL_PROFILES)[number];
+
+/** Overrides of a chain's model; whatever is left out comes from the session's model */
+export type ModelProfile = z.infer<typeof ModelProfileSchema>;
+export const ModelProfileSchema = z
+  .object({
+    provider: z.nativeEnum(LLMProviders).optional(),
+    model: z.string().min(1).optional(),
+    temperature: z.number().min(0).max(2).optional(),
+    maxTokens: z.number().int().positive().optional(),
+  })
+  .strict();
+
+export type ModelProfiles = Partial<Record<ModelProfileName, ModelProfile>>;
+const ModelProfilesSchema = z
+  .object(
+    Object.fromEntries(MODEL_PROFILES.map((name) => [name, ModelProfileSchema.optional()])) as Record<
+      ModelProfileName,
+      z.ZodOptional<typeof ModelProfileSchema>
+    >,
+  )
+  .strict();
+
+/** Model configuration of every chain */
+export type ProfileModelConfigs = Record<ModelProfileName, LLLModelConfig>;
+
+const parseModelProfiles = (text: string, origin: string): ModelProfiles => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error(`${origin} is not valid JSON`);
+  }
+  const result = ModelProfilesSchema.safeParse(json);
+  if (!result.success) {
+    const issues = result.error.errors.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    throw new Error(`Invalid model profiles in ${origin}: ${issues.join("; ")}`);
+  }
+  return result.data;
+};
+
+/**
+ * Load the model profiles from a JSON file and/or inline JSON
+ * Both have the shape `{ "reply": { "model": "gpt-4o-mini", "temperature": 0.7 }, ... }`. Fields set
+ * inline override the same fields of the file.
+ * @param path JSON file, e.g. from LLM_PROFILES_PATH; skipped when empty
+ * @param json Inline JSON, e.g. from LLM_PROFILES; skipped when empty
+ */
+export const loadModelProfiles = (path: string, json: string): ModelProfiles => {
+  const fromFile = path ? parseModelProfiles(readFileSync(path, "utf8"), path) : {};
+  const inline = json ? parseModelProfiles(json, "LLM_PROFILES") : {};
+  const profiles: ModelProfiles = {};
+  for (const name of MODEL_PROFILES) {
+    if (fromFile[name] || inline[name]) profiles[name] = { ...fromFile[name], ...inline[name] };
+  }
+  return profiles;
+};
@@ -0,0 +1,73 @@
+import { LLMProviders } from "./LLMModelManager";
+
+export type ModelChoice = { provider: LLMProviders; model: string };
+
+const sameChoice = (a: ModelChoice, b: ModelChoice) => a.provider === b.provider && a.model === b.model;
+
+/**
+ * Parse a list of models such as "OPENAI:gpt-4o,ANTHROPIC", e.g. the allow-list or the fallbacks
+ * A provider without a model stands for that provider's default model.
+ * @param value Comma separated `PROVIDER:model` entries
+ * @param defaultModels Model used for a provider listed without one
+ * @param variable Environment variable the list comes from, named in errors
+ */
+export const parseModelChoices = (
+  value: string,
+  defaultModels: Record<LLMProviders, string>,
+  variable: string,
+): ModelChoice[] => {
+  const choices: ModelChoice[] = [];
+  for (const entry of value.split(",")) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+
+    const separator = trimmed.indexOf(":");
+    const provider = separator === -1 ? trimmed : trimmed.slice(0, separator);
+    const model = separator === -1 ? "" : trimmed.slice(separator + 1).trim();
+    if (!Object.values<string>(LLMProviders).includes(provider)) {
+      throw new Error(`Unknown LLM provider "${provider}" in ${variable}`);
+    }
+    const choice = { provider: provider as LLMProviders, model: model || defaultModels[provider as LLMProviders] };
+    if (!choice.model) {
+      throw new Error(`${variable} needs a model for ${provider}, it has no default`);
+    }
+    if (!choices.some((other) => sameChoice(other, choice))) choices.push(choice);
+  }
+  return choices;
+};
+
+/**
+ * Fill in the provider or model a request leaves out
+ * Both come from the fallback, except that naming another provider without a model picks that
+ * provider's default model.
+ * @param requested Provider and/or model asked for
+ * @param fallback The model used when nothing is asked for
+ * @param defaultModels Default model of each provider
+ */
+export const completeModelChoice = (
+  requested: Partial<ModelChoice>,
+  fallback: ModelChoice,
+  defaultModels: Record<LLMProviders, string>,
+): ModelChoice => {
+  const provider = requested.provider ?? fallback.provider;
+  const model = requested.model ?? (provider === fallback.provider ? fallback.model : defaultModels[provider]);
+  return { provider, model };
+};
+
+/**
+ * Work out which provider and model a request uses, see `completeModelChoice`
+ * @param requested Provider and/or model asked for
+ * @param fallback The session's model, or the configured default
+ * @param allowed The allow-list
+ * @param defaultModels Default model of each provider
+ * @returns The choice, or null when it is not on the allow-list
+ */
+export const resolveModelChoice = (
+  requested: Partial<ModelChoice>,
+  fallback: ModelChoice,
+  allowed: ModelChoice[],
+  defaultModels: Record<LLMProviders, string>,
+): ModelChoice | null => {
+  const choice = completeModelChoice(requested, fallback, defaultModels);
+  return allowed.some((other) => sameChoice(other, choice)) ? choice : null;
+};
@@ -0,0 +1,95 @@
+import { createHash } from "node:crypto";
+
+type ClientConfig = {
+  apiKey?: string;
+  headers?: Record<string, string>;
+  [option: string]: unknown;
+};
+
+const hash = (value: string) => createHash("sha256").update(value).digest("hex");
+
+// Sorted entries without undefined values, with credentials hashed, also in nested configurations such as fallbacks
+const keyEntries = (config: ClientConfig): [string, unknown][] => {
+  const { apiKey, headers, ...options } = config;
+  return Object.entries({
+    ...options,
+    apiKey: apiKey ? hash(apiKey) : "",
+    headers: headers ? hash(JSON.stringify(headers)) : undefined,
+  })
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]): [string, unknown] => [
+      name,
+      Array.isArray(value)
+        ? value.map((item) => (item && typeof item === "object" ? keyEntries(item as ClientConfig) : item))
+        : value,
+    ])
+    .sort(([a], [b]) => a.localeCompare(b));
+};
+
+/**
+ * Key a provider client by its configuration
+ *
+ * Clients are cached per provider, model and options, so a session choosing another model gets
+ * its own client instead of the first one created. The API key and HTTP headers, which may carry
+ * credentials too, are part of the key as a SHA-256 hash only.
+ * @param config Configuration the client was created from
+ */
+export const registryKey = (config: ClientConfig): string => JSON.stringify(keyEntries(config));
+
+/**
+ * Clients by `registryKey`, bounded in size and idle time
+ *
+ * Every user's own API key adds clients, each holding the decrypted key, so the least recently
+ * used client is dropped beyond `maxEntries`, and any client unused for `idleMs` on its next lookup.
+ */
+export class ClientRegistry<T> {
+  private entries = new Map<string, { client: T; usedAt: number }>();
+
+  constructor(
+    private readonly maxEntries: number,
+    private readonly idleMs: number,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Get the client for a key, creating it when it is missing or was evicted
+   * @param key Key from `registryKey`
+   * @param create Creates the client
+   */
+  getOrCreate(key: string, create: () => T): T {
+    const now = this.now();
+    for (const [entryKey, entry] of this.entries) {
+      if (now - entry.usedAt >= this.idleMs) this.entries.delete(entryKey);
+    }
+
+    const client = this.entries.get(key)?.client ?? create();
+    // Map order is insertion order, so re-inserting keeps the least recently used first
+    this.entries.delete(key);
+    this.entries.set(key, { client, usedAt: now });
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(oldest);
+    }
+    return client;
+  }
+
+  /** Drop every client */
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Key the circuit breaker of a provider credential
+ *
+ * A user's own API key that is rate limited or revoked must not open the circuit for everyone else
+ * on the provider, so each API key gets its own breaker. The key is a SHA-256 hash prefix only.
+ * @param provider Provider of the model
+ * @param apiKey API key the model calls the provider with
+ */
+export const circuitKey = (provider: string, apiKey?: string): string =>
+  apiKey ? `${provider}:${hash(apiKey).slice(0, 16)}` : provider;
@@ -0,0 +1,252 @@
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import type { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import type { BaseLanguageModelInput } from "@langchain/core/language_models/base";
+import {
+  BaseChatModel,
+  type BaseChatModelCallOptions,
+  type BaseChatModelParams,
+  type BindToolsInput,
+} from "@langchain/core/language_models/chat_models";
+import type { AIMessageChunk, BaseMessage } from "@langchain/core/messages";
+import { ChatGenerationChunk, type ChatResult } from "@langchain/core/outputs";
+import type { Runnable } from "@langchain/core/runnables";
+import { convertToOpenAITool } from "@langchain/core/utils/function_calling";
+
+import { redactApiKeys } from "@/common/utils/redactSecrets";
+import type { ClientRegistry } from "../providerRegistry";
+import { CircuitBreaker, type CircuitBreakerConfig, providerCircuitBreakers } from "./circuitBreaker";
+import { backoffDelay, errorStatus, isRetryableError, withTimeout } from "./retry";
+
+export type ResilienceConfig = CircuitBreakerConfig & {
+  /** Milliseconds an attempt may go without progress: the whole answer when invoked, each chunk when streamed */
+  timeoutMs: number;
+  /** Retries of a model after its first attempt, for retryable errors only */
+  maxRetries: number;
+  /** Upper bound of the first retry's jittered backoff, doubled for each further retry */
+  baseDelayMs: number;
+  /** Upper bound of any backoff */
+  maxDelayMs: number;
+};
+
+export type ModelRef = { provider: string; model: string | null };
+
+export type ModelCandidate = ModelRef & {
+  chatModel: BaseChatModel;
+  /** Circuit breaker the candidate shares with the other models of its credential; its provider when omitted */
+  circuit?: string;
+};
+
+export type ModelFallbackNotice = {
+  /** The model that was asked first */
+  from: ModelRef;
+  /** The fallback model that answered */
+  to: ModelRef;
+  /** Why the models before it failed, e.g. "529 Overloaded" or "circuit open" */
+  reason: string;
+};
+
+/** Name of the custom callback event reporting a ModelFallbackNotice */
+export const MODEL_FALLBACK_EVENT = "model_fallback";
+
+export class ModelUnavailableError extends Error {
+  constructor(readonly failures: string[]) {
+    super(`No model could answer: ${failures.join("; ")}`);
+    this.name = "ModelUnavailableError";
+  }
+}
+
+export interface ResilientChatModelParams extends BaseChatModelParams {
+  /** The model to call first, then its fallbacks in order */
+  candidates: ModelCandidate[];
+  resilience: ResilienceConfig;
+  /** Circuit breakers by circuit key; shared by every model of the process when omitted */
+  circuitBreakers?: ClientRegistry<CircuitBreaker>;
+}
+
+const label = ({ provider, model }: ModelRef) => (model ? `${provider}:${model}` : provider);
+
+// Reported to clients in fallback notices, so keys quoted by the provider are removed
+const describeError = (error: unknown) => {
+  const status = errorStatus(error);
+  const message = redactApiKeys(error instanceof Error ? error.message : String(error));
+  return (status && !message.startsWith(String(status)) ? `${status} ${message}` : message).slice(0, 200);
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Chat model that calls its candidates with timeouts, retries and circuit breaking, falling back
+ * to the next candidate when one keeps failing
+ *
+ * Retryable errors (see `isRetryableError`) are retried with jittered backoff, then the next
+ * candidate is tried; other errors are thrown right away. A stream that has already yielded
+ * chunks is never retried, since its text has been passed on. When a fallback answers, a
+ * MODEL_FALLBACK_EVENT custom callback event reports it.
+ */
+export class ResilientChatModel extends BaseChatModel {
+  readonly candidates: ModelCandidate[];
+  private config: ResilienceConfig;
+  private circuitBreakers: ClientRegistry<CircuitBreaker>;
+
+  constructor(params: ResilientChatModelParams) {
+    super(params);
+    if (params.candidates.length === 0) {
+      throw new Error("At least one model is required");
+    }
+    this.candidates = params.candidates;
+    this.config = params.resilience;
+    this.circuitBreakers = params.circuitBreakers ?? providerCircuitBreakers;
+  }
+
+  static lc_name() {
+    return "ResilientChatModel";
+  }
+
+  _llmType() {
+    return "resilient";
+  }
+
+  // Plain JSON tool definitions, which every provider accepts, so any candidate can answer
+  bindTools(
+    tools: BindToolsInput[],
+    kwargs?: Partial<BaseChatModelCallOptions>,
+  ): Runnable<BaseLanguageModelInput, AIMessageChunk, BaseChatModelCallOptions> {
+    return this.bind({
+      tools: tools.map((tool) => convertToOpenAITool(tool)),
+      ...kwargs,
+    } as Partial<BaseChatModelCallOptions>);
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun,
+  ): Promise<ChatResult> {
+    const answers = this.callWithFailover(
+      async function* (candidate, signal) {
+        yield await candidate.chatModel.invoke(messages, { ...options, signal });
+      },
+      options.signal,
+      runManager,
+    );
+    for await (const message of answers) {
+      return { generations: [{ text: typeof message.content === "string" ? message.content : "", message }] };
+    }
+    throw new Error("The model returned no answer");
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun,
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const chunks = this.callWithFailover(
+      async function* (candidate, signal) {
+        yield* await candidate.chatModel.stream(messages, { ...options, signal });
+      },
+      options.signal,
+      runManager,
+    );
+    for await (const chunk of chunks) {
+      const text = typeof chunk.content === "string" ? chunk.content : "";
+      yield new ChatGenerationChunk({ text, message: chunk });
+      await runManager?.handleLLMNewToken(text);
+    }
+  }
+
+  private circuitBreakerFor(candidate: ModelCandidate): CircuitBreaker {
+    const key = candidate.circuit ?? candidate.provider;
+    return this.circuitBreakers.getOrCreate(key, () => new CircuitBreaker(this.config));
+  }
+
+  private async *callWithFailover<T>(
+    call: (candidate: ModelCandidate, signal: AbortSignal) => AsyncGenerator<T>,
+    signal: AbortSignal | undefined,
+    runManager?: CallbackManagerForLLMRun,
+  ): AsyncGenerator<T> {
+    const [primary] = this.candidates;
+    const failures: string[] = [];
+    let reason = "";
+
+    for (const candidate of this.candidates) {
+      const breaker = this.circuitBreakerFor(candidate);
+
+      for (let attempt = 0; attempt <= this.config.maxRetries; attempt++) {
+        if (!breaker.allowRequest()) {
+          reason = "circuit open";
+          failures.push(`${label(candidate)}: ${reason}`);
+          break;
+        }
+
+        const controller = new AbortController();
+        const abort = () => controller.abort();
+        signal?.addEventListener("abort", abort);
+        let yielded = false;
+        let failed = false;
+        try {
+          const iterator = call(candidate, controller.signal);
+          while (true) {
+            const result = await withTimeout(iterator.next(), this.config.timeoutMs, abort);
+            if (result.done) return;
+            if (!yielded && candidate !== primary) {
+              console.warn(`[LLM] Answered by fallback ${label(candidate)} after: ${reason}`);
+              const notice: ModelFallbackNotice = {
+                from: { provider: primary.provider, model: primary.model },
+                to: { provider: candidate.provider, model: candidate.model },
+                reason,
+              };
+              await runManager?.handleCustomEvent(MODEL_FALLBACK_EVENT, notice);
+            }
+            yielded = true;
+            yield result.value;
+          }
+        } catch (error) {
+          if (yielded || signal?.aborted || !isRetryableError(error)) {
+            failed = isRetryableError(error);
+            throw error;
+          }
+          failed = true;
+          reason = describeError(error);
+          failures.push(`${label(candidate)}: ${reason}`);
+        } finally {
+          signal?.removeEventListener("abort", abort);
+          // An answer, or an error the provider is not to blame for such as a rejected API key
+          // (401/403 are not retryable), counts as the provider being up
+          if (failed) breaker.recordFailure();
+          else breaker.recordSuccess();
+        }
+
+        if (attempt < this.config.maxRetries) {
+          const delay = backoffDelay(attempt, this.config.baseDelayMs, this.config.maxDelayMs);
+          console.warn(`[LLM] ${label(candidate)} failed (${reason}), retrying in ${delay}ms`);
+          await sleep(delay);
+        }
+      }
+    }
+
+    throw new ModelUnavailableError(failures);
+  }
+}
+
+class ModelFallbackHandler extends BaseCallbackHandler {
+  name = "ModelFallbackHandler";
+
+  constructor(private readonly onFallback: (notice: ModelFallbackNotice) => void) {
+    // Awaited, so the notice is reported before the answer it concerns
+    super({ _awaitHandler: true });
+  }
+
+  async handleCustomEvent(eventName: string, data: unknown) {
+    if (eventName === MODEL_FALLBACK_EVENT) this.onFallback(data as ModelFallbackNotice);
+  }
+}
+
+/**
+ * Report the fallbacks of every resilient model a runnable calls
+ * @param model A chat model, or a chain or binding around one
+ * @param onFallback Called when a fallback model answered instead of the first one
+ */
+export const withFallbackNotices = <RunInput, RunOutput>(
+  model: Runnable<RunInput, RunOutput>,
+  onFallback: (notice: ModelFallbackNotice) => void,
+): Runnable<RunInput, RunOutput> => model.withConfig({ callbacks: [new ModelFallbackHandler(onFallback)] });
@@ -0,0 +1,65 @@
+import { ClientRegistry } from "../providerRegistry";
+
+export type CircuitState = "closed" | "open" | "halfOpen";
+
+export type CircuitBreakerConfig = {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** Milliseconds an open circuit rejects calls before it lets one trial call through */
+  resetTimeoutMs: number;
+};
+
+/**
+ * Stops calling a provider that keeps failing
+ *
+ * After `failureThreshold` consecutive failures the circuit opens and calls are rejected without
+ * reaching the provider. Once `resetTimeoutMs` has passed, one trial call is let through: its
+ * success closes the circuit, its failure opens it again.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly config: CircuitBreakerConfig,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === null) return "closed";
+    return this.now() - this.openedAt < this.config.resetTimeoutMs ? "open" : "halfOpen";
+  }
+
+  /**
+   * Check whether a call may go through, reserving the trial call of a half-open circuit
+   */
+  allowRequest(): boolean {
+    const state = this.state;
+    if (state === "closed") return true;
+    if (state === "open" || this.trialInFlight) return false;
+    this.trialInFlight = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this.trialInFlight || this.failures >= this.config.failureThreshold) {
+      this.openedAt = this.now();
+    }
+    this.trialInFlight = false;
+  }
+}
+
+/**
+ * Breakers shared by every model using a provider credential, keyed by `circuitKey`
+ *
+ * Every user's own API key adds a breaker, so they are bounded like the clients that use them.
+ */
+export const providerCircuitBreakers = new ClientRegistry<CircuitBreaker>(200, 30 * 60 * 1000);
@@ -0,0 +1,79 @@
+// Overloaded, rate limited, timed out or failing on the provider's side; 529 is Anthropic's "overloaded"
+const RETRYABLE_STATUSES = new Set([408, 409, 425, 429, 500, 502, 503, 504, 529]);
+
+const RETRYABLE_ERROR_NAMES = new Set(["APIConnectionError", "APIConnectionTimeoutError", "ModelTimeoutError"]);
+
+const RETRYABLE_ERROR_CODES = new Set(["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "ENOTFOUND", "EAI_AGAIN", "EPIPE"]);
+
+export class ModelTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`The model did not respond within ${timeoutMs}ms`);
+    this.name = "ModelTimeoutError";
+  }
+}
+
+type ProviderError = {
+  name?: string;
+  message?: string;
+  status?: number;
+  code?: string;
+  response?: { status?: number };
+  cause?: { code?: string };
+};
+
+/**
+ * HTTP status of a provider error, as set by the OpenAI and Anthropic SDKs
+ */
+export const errorStatus = (error: unknown): number | undefined => {
+  const { status, response } = (error ?? {}) as ProviderError;
+  return typeof status === "number" ? status : response?.status;
+};
+
+/**
+ * Check whether a model call may succeed when tried again
+ * Timeouts, network errors, rate limits and server errors are retryable; invalid requests,
+ * authentication errors and errors of our own code are not.
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  const status = errorStatus(error);
+  if (status !== undefined) return RETRYABLE_STATUSES.has(status);
+
+  const { name, code, cause, message } = (error ?? {}) as ProviderError;
+  return (
+    RETRYABLE_ERROR_NAMES.has(name ?? "") ||
+    RETRYABLE_ERROR_CODES.has(code ?? cause?.code ?? "") ||
+    message === "fetch failed"
+  );
+};
+
+/**
+ * Delay before a retry: a random time up to the exponential backoff ("full jitter"), so clients
+ * failing together do not retry together
+ * @param attempt Number of the retry, from 0
+ * @param baseDelayMs Backoff of the first retry
+ * @param maxDelayMs Upper bound of the backoff
+ */
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number, random = Math.random) =>
+  Math.round(random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+
+/**
+ * Settle with a promise, or reject with a ModelTimeoutError when it takes longer than `timeoutMs`
+ * @param onTimeout Called when the time is up, e.g. to abort the request
+ */
+export const withTimeout = <T>(promise: Promise<T>, timeoutMs: number, onTimeout: () => void): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      onTimeout();
+      reject(new ModelTimeoutError(timeoutMs));
+    }, timeoutMs);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      },
+    );
+  });
@@ -0,0 +1,170 @@
+import type { BaseLanguageModelInput } from "@langchain/core/language_models/base";
+import type { BaseChatModel, BaseChatModelCallOptions } from "@langchain/core/language_models/chat_models";
+import { AIMessageChunk, type BaseMessage, isAIMessage } from "@langchain/core/messages";
+import {
+  BaseTransformOutputParser,
+  OutputParserException,
+  parseJsonMarkdown,
+  parsePartialJson,
+} from "@langchain/core/output_parsers";
+import type { ChatGeneration, Generation } from "@langchain/core/outputs";
+import type { Runnable } from "@langchain/core/runnables";
+import type { ZodTypeAny } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+
+/**
+ * How a provider returns structured output natively
+ * - jsonSchema: a `json_schema` response format, the answer is JSON text
+ * - toolCalling: a forced call of a single tool, the answer is the tool call's arguments
+ */
+export type StructuredOutputMethod = "jsonSchema" | "toolCalling";
+
+/**
+ * Format instructions for prompts whose answer format is enforced by structured output
+ * @param name Name passed to `bindStructuredOutput`
+ */
+export const structuredOutputInstructions = (name: string) =>
+  `Answer through the "${name}" structured output. Its JSON schema is enforced by the API, fill in every field.`;
+
+// Text blocks only, Anthropic sends tool input as separate blocks
+const messageText = (message: BaseMessage) =>
+  typeof message.content === "string"
+    ? message.content
+    : message.content
+        .map((block) => (block.type === "text" && typeof block.text === "string" ? block.text : ""))
+        .join("");
+
+/**
+ * Parses a structured answer from JSON text or from the arguments of a tool call
+ *
+ * Streaming yields the partially parsed answer each time it grows, so the last value is the
+ * whole answer. Invoking parses the complete message and raises an OutputParserException when
+ * it holds no answer. The output is not validated against a schema.
+ */
+export class StructuredAnswerParser extends BaseTransformOutputParser<unknown> {
+  lc_namespace = ["delila", "structured_output"];
+
+  /** Tool whose call arguments are the answer; the message text is parsed when omitted */
+  readonly toolName?: string;
+
+  constructor(fields: { toolName?: string } = {}) {
+    super();
+    this.toolName = fields.toolName;
+  }
+
+  private toolCallArgs(message: BaseMessage): Record<string, unknown> | undefined {
+    if (!isAIMessage(message)) return undefined;
+    return message.tool_calls?.find((call) => call.name === this.toolName)?.args;
+  }
+
+  // Partial JSON is closed off, so a half-streamed string or array still parses
+  private parsePartial(message: AIMessageChunk): unknown {
+    if (this.toolName) return this.toolCallArgs(message);
+    return parseJsonMarkdown(messageText(message), parsePartialJson) ?? undefined;
+  }
+
+  async *_transform(inputGenerator: AsyncGenerator<string | BaseMessage>): AsyncGenerator<unknown> {
+    let message: AIMessageChunk | undefined;
+    let previous = "";
+    for await (const chunk of inputGenerator) {
+      const next =
+        chunk instanceof AIMessageChunk
+          ? chunk
+          : new AIMessageChunk(typeof chunk === "string" ? chunk : messageText(chunk));
+      message = message ? message.concat(next) : next;
+
+      const parsed = this.parsePartial(message);
+      const serialized = JSON.stringify(parsed);
+      if (parsed !== undefined && serialized !== previous) {
+        previous = serialized;
+        yield parsed;
+      }
+    }
+  }
+
+  async parseResult(generations: Generation[] | ChatGeneration[]): Promise<unknown> {
+    const [generation] = generations;
+    if (this.toolName) {
+      const message = "message" in generation ? generation.message : undefined;
+      const args = message && this.toolCallArgs(message);
+      if (!args) {
+        throw new OutputParserException(`The model did not call the "${this.toolName}" tool`, generation.text);
+      }
+      return args;
+    }
+    return this.parse(generation.text);
+  }
+
+  async parse(text: string): Promise<unknown> {
+    try {
+      return parseJsonMarkdown(text, JSON.parse);
+    } catch {
+      throw new OutputParserException(`The structured output is not valid JSON: ${text.slice(0, 200)}`, text);
+    }
+  }
+
+  getFormatInstructions(): string {
+    return "";
+  }
+}
+
+/**
+ * Bind a chat model to structured output for a schema
+ *
+ * The output is the parsed JSON, not validated against the schema, so callers can validate
+ * and repair it the way they do with the parser output.
+ * @param model Chat model of the provider, or a cassette recording it
+ * @param method The provider's native mechanism
+ * @param schema Zod schema of the answer
+ * @param name Name of the response format or tool, e.g. "reply"
+ * @returns The bound model, or null when the model cannot call tools
+ */
+export const bindStructuredOutput = (
+  model: BaseChatModel,
+  method: StructuredOutputMethod,
+  schema: ZodTypeAny,
+  name: string,
+): Runnable<BaseLanguageModelInput, unknown> | null => {
+  if (method === "jsonSchema") {
+    const responseFormat = { type: "json_schema", json_schema: { name, schema: zodToJsonSchema(schema) } };
+    return model
+      .bind({ response_format: responseFormat } as Partial<BaseChatModelCallOptions>)
+      .pipe(new StructuredAnswerParser());
+  }
+
+  if (typeof model.bindTools !== "function") {
+    return null;
+  }
+  return model
+    .bindTools([{ name, description: `Answer with the ${name}`, schema }], { tool_choice: name })
+    .pipe(new StructuredAnswerParser({ toolName: name }));
+};
+
+/**
+ * Stream a structured answer, reporting the partially parsed answer as it grows
+ * Works with a plain chat model, whose JSON text is parsed as it streams, and with a model from
+ * `bindStructuredOutput`, which already yields partial answers.
+ * @param model Plain or structured output model
+ * @param input Prompt messages
+ * @param onPartial Called with each new partial answer
+ * @returns The whole text of a plain model, which the caller parses, or the last answer of a structured output model
+ */
+export const streamStructuredAnswer = async (
+  model: Runnable<BaseLanguageModelInput, unknown>,
+  input: BaseLanguageModelInput,
+  onPartial: (partial: unknown) => void,
+): Promise<unknown> => {
+  let message: AIMessageChunk | undefined;
+  let answer: unknown;
+  for await (const chunk of await model.stream(input)) {
+    if (chunk instanceof AIMessageChunk) {
+      message = message ? message.concat(chunk) : chunk;
+      const partial = parseJsonMarkdown(messageText(message), parsePartialJson);
+      if (partial !== null && partial !== undefined) onPartial(partial);
+    } else {
+      answer = chunk;
+      onPartial(chunk);
+    }
+  }
+  return message ? messageText(message) : answer;
+};
@@ -0,0 +1,22 @@
+import { ChatPromptTemplate } from "@langchain/core/prompts";
+
+export const characterRepairPrompt = ChatPromptTemplate.fromTemplate(
+  `
+You are a character file repair expert. A generated elizaos character file failed schema validation.
+Fix ONLY the fields listed below. Each one comes with its JSON Pointer path, the validation error,
+its current value and the JSON schema that the value must match.
+
+### FAILING FIELDS:
+{failures}
+
+### CONVERSATION SUMMARY (for filling in missing content):
+{messageHistory}
+
+Answer with a JSON object of this shape and nothing else:
+{{"fixes": [{{"path": "<JSON Pointer from the list>", "value": <corrected value matching its schema>}}]}}
+
+- Give one fix per failing path, using the path exactly as listed
+- Keep the meaning of the current value where there is one; only change what the error is about
+- DO NOT output the whole character file and DO NOT wrap the JSON in a code block
+`,
+);
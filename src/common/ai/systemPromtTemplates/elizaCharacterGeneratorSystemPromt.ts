@@ -20,11 +20,9 @@ Your task is to help users create a elizaos characterfile for their agent based
 
 8. Dependency Handling:
    - Auto-add clients when mentioned (e.g., "Twitter" → twitter client)
-   - Include related plugins automatically:
-     * Social media → @elizaos/plugin-social
-     * NFTs → @elizaos/plugin-nft
-     * Voice → @elizaos/plugin-voice
-   - Ensure required secrets are added for activated features
+   - Include related plugins from the CLIENT AND PLUGIN CATALOG below, never invent package names
+   - Ensure the required secrets listed in the catalog are added for every client and plugin
+   - Add the catalog's clientConfig block for clients that have one
 
 9. Validation Steps:
    1. Verify all arrays have ≥10 items
@@ -124,41 +122,8 @@ livepeer: {{
   LIVEPEER_GATEWAY_URL: '',
 }}
 
-FOR CLIENTS:
-discord: {{
-  DISCORD_API_TOKEN: '',
-  DISCORD_APPLICATION_ID: '',
-}},
-twitter: {{
-  TWITTER_USERNAME: '',
-  TWITTER_PASSWORD: '',
-  TWITTER_EMAIL: '',
-  POST_IMMEDIATELY: 'true',
-}},
-telegram: {{ TELEGRAM_BOT_TOKEN: '' }},
-farcaster: {{
-  FARCASTER_NEYNAR_API_KEY: '',
-  FARCASTER_FID: '',
-  FARCASTER_NEYNAR_SIGNER_UUID: '',
-}},
-lens: {{ EVM_PRIVATE_KEY: '', LENS_PROFILE_ID: '' }},
-auto: {{}},
-slack: {{
-  SLACK_TOKEN: '',
-  SLACK_APP_ID: '',
-  SLACK_CLIENT_ID: '',
-  SLACK_CLIENT_SECRET: '',
-  SLACK_SIGNING_SECRET: '',
-  SLACK_BOT_TOKEN: '',
-  SLACK_VERIFICATION_TOKEN: '',
-}},
-github: {{
-  GITHUB_OWNER: '',
-  GITHUB_REPO: '',
-  GITHUB_BRANCH: '',
-  GITHUB_PATH: '',
-  GITHUB_API_TOKEN: '',
-}}
+### CLIENT AND PLUGIN CATALOG:
+{catalog}
 
 ### BIO IDEAS (Need 10+):
 - Main personality traits
@@ -187,9 +152,8 @@ github: {{
 
 ### Plugins array:
 - Include all plugins character uses
-- You just need to add plugin name with prefix like if you are adding plugin-story which is a supported plugin, you have to add that like this "plugins": ["@elizaos/plugin-story"]
-- If you are adding multiple plugins then you can add like this "plugins": ["@elizaos/plugin-story", "@elizaos/plugin-sui"]
-- Check plugin descriptions and info to see if they are required and if you doubt confirm with user but only when extremely necessary or ambiguous
+- Use the package names from the catalog, for example "plugins": ["@elizaos/plugin-story", "@elizaos/plugin-sui"]
+- Check plugin descriptions in the catalog to see if they are required and if you doubt confirm with user but only when extremely necessary or ambiguous
 
 ### IMPORTANT: ENSURE COMPLETE AND VALID JSON
 - Your output MUST be complete, valid JSON that matches the schema
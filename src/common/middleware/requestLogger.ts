@@ -28,7 +28,8 @@ const requestLogger = (options?: Options): RequestHandler[] => {
   const pinoOptions: Options = {
     enabled: env.isProduction,
     customProps: customProps as unknown as Options["customProps"],
-    redact: [],
+    // The gateway's secret must not end up in the request logs
+    redact: ['request.headers["x-gateway-secret"]'],
     genReqId,
     customLogLevel,
     customSuccessMessage,
@@ -6,5 +6,13 @@ export const commonValidations = {
     .refine((data) => !Number.isNaN(Number(data)), "ID must be a numeric value")
     .transform(Number)
     .refine((num) => num > 0, "ID must be a positive number"),
+  uuid: z.string().uuid("ID must be a valid UUID"),
+  page: z.coerce.number().int().min(1, "Page must be a positive number").default(1),
+  pageSize: z.coerce
+    .number()
+    .int()
+    .min(1, "Page size must be a positive number")
+    .max(100, "Page size must not exceed 100")
+    .default(20),
   // ... other common validations
 };
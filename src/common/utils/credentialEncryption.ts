@@ -0,0 +1,65 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+
+export type EncryptedCredential = {
+  /** The encrypted secret, base64 */
+  ciphertext: string;
+  /** Initialization vector, base64; a new one for every encryption */
+  iv: string;
+  /** GCM authentication tag, base64 */
+  authTag: string;
+};
+
+const ALGORITHM = "aes-256-gcm";
+const IV_BYTES = 12;
+
+/**
+ * Decode the master key the credentials are encrypted with
+ * @param value 32 bytes, hex (64 characters) or base64 encoded
+ */
+export const parseMasterKey = (value: string): Buffer => {
+  const key = /^[0-9a-f]{64}$/i.test(value) ? Buffer.from(value, "hex") : Buffer.from(value, "base64");
+  if (key.length !== 32) {
+    throw new Error("CREDENTIALS_MASTER_KEY must be 32 bytes, hex or base64 encoded");
+  }
+  return key;
+};
+
+/**
+ * Encrypt a secret with AES-256-GCM
+ * @param secret The secret, e.g. an API key
+ * @param masterKey Key from `parseMasterKey`
+ * @param context What the secret belongs to, e.g. "user:provider"; authenticated but not encrypted, so
+ * the ciphertext only decrypts with the same context
+ */
+export const encryptCredential = (secret: string, masterKey: Buffer, context: string): EncryptedCredential => {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, masterKey, iv);
+  cipher.setAAD(Buffer.from(context, "utf8"));
+  const ciphertext = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+  return {
+    ciphertext: ciphertext.toString("base64"),
+    iv: iv.toString("base64"),
+    authTag: cipher.getAuthTag().toString("base64"),
+  };
+};
+
+/**
+ * Decrypt a secret from `encryptCredential`
+ * Throws when the master key or context differ, or the stored values were tampered with.
+ * @param encrypted The stored ciphertext, IV and authentication tag
+ * @param masterKey Key from `parseMasterKey`
+ * @param context The context the secret was encrypted with
+ */
+export const decryptCredential = (encrypted: EncryptedCredential, masterKey: Buffer, context: string): string => {
+  const decipher = createDecipheriv(ALGORITHM, masterKey, Buffer.from(encrypted.iv, "base64"));
+  decipher.setAAD(Buffer.from(context, "utf8"));
+  decipher.setAuthTag(Buffer.from(encrypted.authTag, "base64"));
+  return Buffer.concat([decipher.update(Buffer.from(encrypted.ciphertext, "base64")), decipher.final()]).toString(
+    "utf8",
+  );
+};
+
+/**
+ * The last characters of a secret, to tell secrets apart without revealing them; nothing for short secrets
+ */
+export const credentialHint = (secret: string) => (secret.length >= 16 ? `…${secret.slice(-4)}` : "…");
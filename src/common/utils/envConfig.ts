@@ -1,5 +1,5 @@
 import dotenv from "dotenv";
-import { cleanEnv, host, num, port, str, testOnly } from "envalid";
+import { bool, cleanEnv, host, json, num, port, str, testOnly } from "envalid";
 
 dotenv.config();
 
@@ -10,5 +10,48 @@ export const env = cleanEnv(process.env, {
   CORS_ORIGIN: str({ devDefault: testOnly("http://localhost:3001") }),
   COMMON_RATE_LIMIT_MAX_REQUESTS: num({ devDefault: testOnly(1000) }),
   COMMON_RATE_LIMIT_WINDOW_MS: num({ devDefault: testOnly(1000) }),
-  OPENAI_API_KEY: str(),
+  LLM_PROVIDER: str({
+    default: "ANTHROPIC",
+    choices: ["OPENAI", "ANTHROPIC", "DEEPSEEK", "OPENAI_COMPATIBLE", "FAKE"],
+  }),
+  LLM_MODEL: str({ default: "" }),
+  LLM_ALLOWED_MODELS: str({ default: "" }),
+  LLM_PROFILES: str({ default: "" }),
+  LLM_PROFILES_PATH: str({ default: "" }),
+  LLM_FALLBACK_MODELS: str({ default: "" }),
+  LLM_TIMEOUT_MS: num({ default: 60000 }),
+  LLM_MAX_RETRIES: num({ default: 2 }),
+  LLM_RETRY_BASE_DELAY_MS: num({ default: 500 }),
+  LLM_RETRY_MAX_DELAY_MS: num({ default: 8000 }),
+  LLM_CIRCUIT_FAILURE_THRESHOLD: num({ default: 5 }),
+  LLM_CIRCUIT_RESET_MS: num({ default: 30000 }),
+  FAKE_LLM_FIXTURES: str({ default: "" }),
+  LLM_CASSETTE_MODE: str({ default: "off", choices: ["off", "record", "replay"] }),
+  LLM_CASSETTE_PATH: str({ default: "" }),
+  EMBEDDING_PROVIDER: str({ default: "OPENAI", choices: ["OPENAI", "OPENAI_COMPATIBLE", "FAKE"] }),
+  EMBEDDING_MODEL: str({ default: "" }),
+  OPENAI_COMPATIBLE_BASE_URL: str({ default: "" }),
+  OPENAI_COMPATIBLE_MODEL: str({ default: "" }),
+  OPENAI_COMPATIBLE_HEADERS: json<Record<string, string>>({ default: {} }),
+  OPENAI_COMPATIBLE_STREAMING: bool({ default: true }),
+  OPENAI_COMPATIBLE_TOOLS: bool({ default: false }),
+  OPENAI_COMPATIBLE_JSON_MODE: bool({ default: false }),
+  VECTOR_STORE_PROVIDER: str({ default: "PGVECTOR", choices: ["MEMORY", "PGVECTOR"] }),
+  CHARACTER_TOOL_MAX_STEPS: num({ default: 4 }),
+  CHARACTER_UPDATE_MODE: str({ default: "edits", choices: ["edits", "full"] }),
+  KNOWLEDGE_CHUNK_SIZE: num({ default: 1000 }),
+  KNOWLEDGE_CHUNK_OVERLAP: num({ default: 200 }),
+  KNOWLEDGE_GLOBAL_K: num({ default: 3 }),
+  KNOWLEDGE_SESSION_K: num({ default: 3 }),
+  KNOWLEDGE_MIN_SCORE: num({ default: 0 }),
+  KNOWLEDGE_CANDIDATES: num({ default: 20 }),
+  KNOWLEDGE_RERANKER: str({ default: "heuristic", choices: ["none", "heuristic"] }),
+  OPENAI_API_KEY: str({ default: "" }),
+  ANTHROPIC_API_KEY: str({ default: "" }),
+  DEEPSEEK_API_KEY: str({ default: "" }),
+  OPENAI_COMPATIBLE_API_KEY: str({ default: "" }),
+  CREDENTIALS_MASTER_KEY: str({ default: "" }),
+  CREDENTIALS_SERVER_FALLBACK: bool({ default: false }),
+  GATEWAY_SECRET: str({ default: "" }),
+  ADMIN_USER_IDS: str({ default: "" }),
 });
@@ -0,0 +1,70 @@
+export type JsonDiffOperation =
+  | { op: "add"; path: string; value: unknown }
+  | { op: "remove"; path: string; oldValue: unknown }
+  | { op: "replace"; path: string; value: unknown; oldValue: unknown };
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Escapes a key for use as a JSON Pointer (RFC 6901) reference token
+export const escapePointerToken = (token: string | number) => String(token).replace(/~/g, "~0").replace(/\//g, "~1");
+
+// Deep equality for JSON values, ignoring object key order
+export const isJsonEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isJsonEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length && keys.every((key) => Object.hasOwn(b, key) && isJsonEqual(a[key], b[key]))
+    );
+  }
+  return false;
+};
+
+/**
+ * Computes the structural differences between two JSON values.
+ *
+ * Paths are JSON Pointers and operations are ordered so that the result is also a valid
+ * RFC 6902 JSON Patch that turns `before` into `after` (array removals run from the end).
+ */
+export const diffJson = (before: unknown, after: unknown, path = ""): JsonDiffOperation[] => {
+  if (isJsonEqual(before, after)) return [];
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const operations: JsonDiffOperation[] = [];
+    const shared = Math.min(before.length, after.length);
+    for (let index = 0; index < shared; index++) {
+      operations.push(...diffJson(before[index], after[index], `${path}/${index}`));
+    }
+    for (let index = shared; index < after.length; index++) {
+      operations.push({ op: "add", path: `${path}/${index}`, value: after[index] });
+    }
+    for (let index = before.length - 1; index >= shared; index--) {
+      operations.push({ op: "remove", path: `${path}/${index}`, oldValue: before[index] });
+    }
+    return operations;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const operations: JsonDiffOperation[] = [];
+    for (const key of Object.keys(before)) {
+      const childPath = `${path}/${escapePointerToken(key)}`;
+      if (!Object.hasOwn(after, key)) {
+        operations.push({ op: "remove", path: childPath, oldValue: before[key] });
+      } else {
+        operations.push(...diffJson(before[key], after[key], childPath));
+      }
+    }
+    for (const key of Object.keys(after)) {
+      if (!Object.hasOwn(before, key)) {
+        operations.push({ op: "add", path: `${path}/${escapePointerToken(key)}`, value: after[key] });
+      }
+    }
+    return operations;
+  }
+
+  return [{ op: "replace", path, value: after, oldValue: before }];
+};
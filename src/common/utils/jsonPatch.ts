@@ -0,0 +1,193 @@
+import { z } from "zod";
+
+import { isJsonEqual } from "@/common/utils/jsonDiff";
+
+export const JsonPatchOperationSchema = z.discriminatedUnion("op", [
+  z.object({ op: z.literal("add"), path: z.string(), value: z.unknown() }),
+  z.object({ op: z.literal("remove"), path: z.string() }),
+  z.object({ op: z.literal("replace"), path: z.string(), value: z.unknown() }),
+  z.object({ op: z.literal("move"), from: z.string(), path: z.string() }),
+  z.object({ op: z.literal("copy"), from: z.string(), path: z.string() }),
+  z.object({ op: z.literal("test"), path: z.string(), value: z.unknown() }),
+]);
+
+export type JsonPatchOperation = z.infer<typeof JsonPatchOperationSchema>;
+
+export class JsonPatchError extends Error {
+  constructor(
+    message: string,
+    readonly operationIndex?: number,
+  ) {
+    super(operationIndex === undefined ? message : `Operation ${operationIndex}: ${message}`);
+    this.name = "JsonPatchError";
+  }
+}
+
+type Container = Record<string, unknown> | unknown[];
+
+const isContainer = (value: unknown): value is Container => typeof value === "object" && value !== null;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => isContainer(value) && !Array.isArray(value);
+
+// Sets a member as an own data property, so a `__proto__` key is stored like any other instead of replacing the prototype
+const setMember = (object: Record<string, unknown>, key: string, value: unknown) => {
+  Object.defineProperty(object, key, { value, writable: true, enumerable: true, configurable: true });
+};
+
+// Splits a JSON Pointer (RFC 6901) into its unescaped reference tokens
+export const parseJsonPointer = (pointer: string): string[] => {
+  if (pointer === "") return [];
+  if (!pointer.startsWith("/")) {
+    throw new JsonPatchError(`Invalid JSON Pointer "${pointer}"`);
+  }
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+};
+
+const toArrayIndex = (array: unknown[], token: string, allowEnd: boolean): number => {
+  if (allowEnd && token === "-") return array.length;
+  if (!/^(0|[1-9][0-9]*)$/.test(token)) {
+    throw new JsonPatchError(`Invalid array index "${token}"`);
+  }
+  const index = Number(token);
+  if (index > array.length || (!allowEnd && index === array.length)) {
+    throw new JsonPatchError(`Array index ${index} is out of bounds`);
+  }
+  return index;
+};
+
+const getValue = (document: unknown, tokens: string[]): unknown => {
+  let current = document;
+  for (const token of tokens) {
+    if (Array.isArray(current)) {
+      current = current[toArrayIndex(current, token, false)];
+    } else if (isPlainObject(current) && Object.prototype.hasOwnProperty.call(current, token)) {
+      current = current[token];
+    } else {
+      throw new JsonPatchError(`Path "/${tokens.join("/")}" does not exist`);
+    }
+  }
+  return current;
+};
+
+const getParent = (document: unknown, tokens: string[]): Container => {
+  const parent = getValue(document, tokens.slice(0, -1));
+  if (!isContainer(parent)) {
+    throw new JsonPatchError(`Path "/${tokens.join("/")}" has no parent object or array`);
+  }
+  return parent;
+};
+
+const addValue = (document: unknown, tokens: string[], value: unknown): unknown => {
+  if (tokens.length === 0) return value;
+  const parent = getParent(document, tokens);
+  const key = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) {
+    parent.splice(toArrayIndex(parent, key, true), 0, value);
+  } else {
+    setMember(parent, key, value);
+  }
+  return document;
+};
+
+const removeValue = (document: unknown, tokens: string[]): unknown => {
+  if (tokens.length === 0) {
+    throw new JsonPatchError("Cannot remove the document root");
+  }
+  const parent = getParent(document, tokens);
+  const key = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) {
+    parent.splice(toArrayIndex(parent, key, false), 1);
+  } else {
+    if (!Object.prototype.hasOwnProperty.call(parent, key)) {
+      throw new JsonPatchError(`Path "/${tokens.join("/")}" does not exist`);
+    }
+    Reflect.deleteProperty(parent, key);
+  }
+  return document;
+};
+
+const replaceValue = (document: unknown, tokens: string[], value: unknown): unknown => {
+  if (tokens.length === 0) return value;
+  const parent = getParent(document, tokens);
+  const key = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) {
+    parent[toArrayIndex(parent, key, false)] = value;
+  } else {
+    setMember(parent, key, value);
+  }
+  return document;
+};
+
+/**
+ * Applies a JSON Patch (RFC 6902) to a document.
+ * The input is not modified; a patched copy is returned.
+ * @throws JsonPatchError when an operation cannot be applied
+ */
+export const applyJsonPatch = <T>(document: T, operations: JsonPatchOperation[]): T => {
+  let result: unknown = structuredClone(document);
+
+  operations.forEach((operation, index) => {
+    try {
+      const tokens = parseJsonPointer(operation.path);
+      switch (operation.op) {
+        case "add":
+          result = addValue(result, tokens, structuredClone(operation.value));
+          break;
+        case "remove":
+          result = removeValue(result, tokens);
+          break;
+        case "replace":
+          getValue(result, tokens);
+          result = replaceValue(result, tokens, structuredClone(operation.value));
+          break;
+        case "move": {
+          const fromTokens = parseJsonPointer(operation.from);
+          if (operation.path.startsWith(`${operation.from}/`)) {
+            throw new JsonPatchError(`Cannot move "${operation.from}" into one of its children`);
+          }
+          const value = getValue(result, fromTokens);
+          result = addValue(removeValue(result, fromTokens), tokens, value);
+          break;
+        }
+        case "copy": {
+          const value = getValue(result, parseJsonPointer(operation.from));
+          result = addValue(result, tokens, structuredClone(value));
+          break;
+        }
+        case "test":
+          if (!isJsonEqual(getValue(result, tokens), operation.value)) {
+            throw new JsonPatchError(`Test failed for path "${operation.path}"`);
+          }
+          break;
+      }
+    } catch (error) {
+      if (error instanceof JsonPatchError && error.operationIndex === undefined) {
+        throw new JsonPatchError(error.message, index);
+      }
+      throw error;
+    }
+  });
+
+  return result as T;
+};
+
+/**
+ * Applies a JSON Merge Patch (RFC 7386) to a document.
+ * The input is not modified; a patched copy is returned.
+ */
+export const applyMergePatch = <T>(document: T, patch: unknown): T => {
+  if (!isPlainObject(patch)) return structuredClone(patch) as T;
+
+  const result: Record<string, unknown> = isPlainObject(document) ? structuredClone(document) : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      Reflect.deleteProperty(result, key);
+    } else {
+      setMember(result, key, applyMergePatch(Object.hasOwn(result, key) ? result[key] : undefined, value));
+    }
+  }
+  return result as T;
+};
@@ -0,0 +1,32 @@
+const REDACTED = "[REDACTED]";
+
+// Key formats of the hosted providers: "sk-..." for OpenAI and DeepSeek, "sk-ant-..." for Anthropic.
+// Provider errors about a rejected key quote it partly masked with asterisks.
+const API_KEY_PATTERN = /\bsk-[A-Za-z0-9_*-]{12,}/g;
+
+/**
+ * Replace known secrets in a text with "[REDACTED]"
+ * @param text e.g. a chat message
+ * @param secrets Secrets to remove wherever they appear; very short values are ignored so ordinary words survive
+ */
+export const redactSecrets = (text: string, secrets: string[]): string =>
+  secrets
+    .filter((secret) => secret.length >= 8)
+    .reduce((redacted, secret) => redacted.split(secret).join(REDACTED), text);
+
+/**
+ * Replace anything shaped like a provider API key in a text with "[REDACTED]", for error messages and logs
+ * @param text e.g. a provider's error message
+ */
+export const redactApiKeys = (text: string): string => text.replace(API_KEY_PATTERN, REDACTED);
+
+/**
+ * An error as text to log, with API keys and the given secrets removed
+ * Only the message and stack are kept: provider SDK errors can carry the request, headers included.
+ * @param error Anything thrown
+ * @param secrets e.g. the API keys of the session's user
+ */
+export const redactError = (error: unknown, secrets: string[] = []): string => {
+  const text = error instanceof Error ? (error.stack ?? `${error.name}: ${error.message}`) : String(error);
+  return redactSecrets(redactApiKeys(text), secrets);
+};
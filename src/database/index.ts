@@ -2,11 +2,20 @@ import prisma from './prisma/client';
 import { SessionRepository } from './repositories/sessionRepository';
 import { MessageRepository } from './repositories/messageRepository';
 import { CharacterFileRepository } from './repositories/characterFileRepository';
+import { CharacterFileVersionRepository } from './repositories/characterFileVersionRepository';
+import { KnowledgeSourceRepository } from './repositories/knowledgeSourceRepository';
+import { ProviderCredentialRepository } from './repositories/providerCredentialRepository';
 
 // Export repositories
 export { SessionRepository } from './repositories/sessionRepository';
 export { MessageRepository } from './repositories/messageRepository';
 export { CharacterFileRepository } from './repositories/characterFileRepository';
+export type { CharacterFileVersionSource } from './repositories/characterFileRepository';
+export { CharacterFileVersionRepository } from './repositories/characterFileVersionRepository';
+export { KnowledgeSourceRepository } from './repositories/knowledgeSourceRepository';
+export type { KnowledgeSourceRow } from './repositories/knowledgeSourceRepository';
+export { ProviderCredentialRepository } from './repositories/providerCredentialRepository';
+export type { ProviderCredentialSummary } from './repositories/providerCredentialRepository';
 
 // Database service class
 export class DatabaseService {
@@ -15,11 +24,17 @@ export class DatabaseService {
   public readonly sessions: SessionRepository;
   public readonly messages: MessageRepository;
   public readonly characterFiles: CharacterFileRepository;
+  public readonly characterFileVersions: CharacterFileVersionRepository;
+  public readonly knowledgeSources: KnowledgeSourceRepository;
+  public readonly providerCredentials: ProviderCredentialRepository;
   
   private constructor() {
     this.sessions = new SessionRepository();
     this.messages = new MessageRepository();
     this.characterFiles = new CharacterFileRepository();
+    this.characterFileVersions = new CharacterFileVersionRepository();
+    this.knowledgeSources = new KnowledgeSourceRepository();
+    this.providerCredentials = new ProviderCredentialRepository();
   }
   
   /**
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "CharacterFile" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "CharacterFileVersion" (
+    "id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "content" JSONB NOT NULL,
+    "source" TEXT NOT NULL,
+    "revertedFrom" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "characterFileId" TEXT NOT NULL,
+    "messageId" TEXT,
+
+    CONSTRAINT "CharacterFileVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CharacterFileVersion_characterFileId_version_key" ON "CharacterFileVersion"("characterFileId", "version");
+
+-- AddForeignKey
+ALTER TABLE "CharacterFileVersion" ADD CONSTRAINT "CharacterFileVersion_characterFileId_fkey" FOREIGN KEY ("characterFileId") REFERENCES "CharacterFile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CharacterFileVersion" ADD CONSTRAINT "CharacterFileVersion_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "Message"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: existing character files become version 1 of their history
+INSERT INTO "CharacterFileVersion" ("id", "version", "content", "source", "createdAt", "characterFileId")
+SELECT gen_random_uuid()::text, 1, "content", 'generated', "updatedAt", "id" FROM "CharacterFile";
+
+UPDATE "CharacterFile" SET "version" = 1;
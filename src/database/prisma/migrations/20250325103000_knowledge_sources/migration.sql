@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "KnowledgeSource" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "title" TEXT,
+    "filename" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "checksum" TEXT NOT NULL,
+    "sizeBytes" INTEGER NOT NULL,
+    "content" BYTEA NOT NULL,
+    "splitter" JSONB NOT NULL,
+    "chunkCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "KnowledgeSource_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "KnowledgeSource_name_key" ON "KnowledgeSource"("name");
@@ -0,0 +1,11 @@
+-- DropIndex
+DROP INDEX "KnowledgeSource_name_key";
+
+-- AlterTable
+ALTER TABLE "KnowledgeSource" ADD COLUMN     "sessionId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "KnowledgeSource_sessionId_name_idx" ON "KnowledgeSource"("sessionId", "name");
+
+-- AddForeignKey
+ALTER TABLE "KnowledgeSource" ADD CONSTRAINT "KnowledgeSource_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
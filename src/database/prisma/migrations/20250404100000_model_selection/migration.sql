@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN     "provider" TEXT,
+ADD COLUMN     "model" TEXT;
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "provider" TEXT,
+ADD COLUMN     "model" TEXT;
@@ -1,37 +1,61 @@
 import prisma from '../prisma/client';
 import type { Prisma } from '@prisma/client';
 
+/**
+ * Where a character file revision came from
+ */
+export type CharacterFileVersionSource = 'generated' | 'edited' | 'imported' | 'reverted';
+
 /**
  * Repository for CharacterFile-related database operations
  */
 export class CharacterFileRepository {
   /**
-   * Create a new character file
-   * @param data Character file data
-   * @returns The created character file
+   * Create or update the character file for a session and record the change as a new version
+   * @param data Character file data, plus where the revision came from
+   * @returns The created or updated character file
    */
   async createCharacterFile(data: {
     content: any;
     sessionId: string;
+    source?: CharacterFileVersionSource;
+    messageId?: string;
+    revertedFrom?: number;
   }): Promise<Prisma.CharacterFileGetPayload<{}>> {
-    // Check if a character file already exists for this session
-    const existingFile = await prisma.characterFile.findUnique({
-      where: { sessionId: data.sessionId },
-    });
+    return prisma.$transaction(async (tx) => {
+      // Check if a character file already exists for this session
+      const existingFile = await tx.characterFile.findUnique({
+        where: { sessionId: data.sessionId },
+      });
+
+      const characterFile = existingFile
+        ? await tx.characterFile.update({
+            where: { id: existingFile.id },
+            data: {
+              content: data.content,
+              version: { increment: 1 },
+            },
+          })
+        : await tx.characterFile.create({
+            data: {
+              content: data.content,
+              sessionId: data.sessionId,
+              version: 1,
+            },
+          });
 
-    if (existingFile) {
-      // Update the existing character file
-      return prisma.characterFile.update({
-        where: { id: existingFile.id },
+      await tx.characterFileVersion.create({
         data: {
+          characterFileId: characterFile.id,
+          version: characterFile.version,
           content: data.content,
+          source: data.source ?? 'generated',
+          messageId: data.messageId,
+          revertedFrom: data.revertedFrom,
         },
       });
-    }
 
-    // Create a new character file
-    return prisma.characterFile.create({
-      data,
+      return characterFile;
     });
   }
 
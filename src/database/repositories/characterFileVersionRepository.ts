@@ -0,0 +1,43 @@
+import type { CharacterFileVersion, Prisma } from "@prisma/client";
+import prisma from "../prisma/client";
+
+/**
+ * Repository for CharacterFileVersion-related database operations
+ *
+ * Versions are written by CharacterFileRepository.createCharacterFile,
+ * so this repository only reads them.
+ */
+export class CharacterFileVersionRepository {
+  /**
+   * Get all versions of a character file, newest first
+   * @param characterFileId Character file ID
+   * @returns Array of versions without their content
+   */
+  async getVersionsByCharacterFileId(characterFileId: string): Promise<
+    Prisma.CharacterFileVersionGetPayload<{
+      omit: { content: true };
+    }>[]
+  > {
+    return prisma.characterFileVersion.findMany({
+      where: { characterFileId },
+      omit: { content: true },
+      orderBy: {
+        version: "desc",
+      },
+    });
+  }
+
+  /**
+   * Get a single version of a character file
+   * @param characterFileId Character file ID
+   * @param version Version number
+   * @returns The version or null if not found
+   */
+  async getVersion(characterFileId: string, version: number): Promise<CharacterFileVersion | null> {
+    return prisma.characterFileVersion.findUnique({
+      where: {
+        characterFileId_version: { characterFileId, version },
+      },
+    });
+  }
+}
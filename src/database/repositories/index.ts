@@ -1,3 +1,6 @@
 export * from './sessionRepository';
 export * from './messageRepository';
-export * from './characterFileRepository'; 
\ No newline at end of file
+export * from './characterFileRepository';
+export * from './characterFileVersionRepository';
+export * from './knowledgeSourceRepository';
+export * from './providerCredentialRepository';
@@ -0,0 +1,129 @@
+import type { KnowledgeSource, Prisma } from "@prisma/client";
+import prisma from "../prisma/client";
+
+export type KnowledgeSourceRow = Prisma.KnowledgeSourceGetPayload<{ omit: { content: true } }>;
+
+/**
+ * Repository for KnowledgeSource-related database operations
+ *
+ * The chunks themselves live in the vector store; this table keeps track of what was
+ * ingested so sources can be listed, re-ingested and deleted.
+ */
+export class KnowledgeSourceRepository {
+  /**
+   * Create a source, or replace the upload of an existing source with the same name in the same namespace
+   * @param data Source data; a null sessionId makes the source global
+   * @returns The saved source without its content, and whether it was newly created
+   */
+  async upsertKnowledgeSource(data: {
+    name: string;
+    sessionId: string | null;
+    title?: string | null;
+    filename: string;
+    contentType: string;
+    checksum: string;
+    sizeBytes: number;
+    content: Buffer;
+    splitter: Prisma.InputJsonValue;
+    chunkCount: number;
+  }): Promise<{ source: KnowledgeSourceRow; created: boolean }> {
+    // Names are unique per namespace, which a unique index cannot express for the nullable sessionId
+    return prisma.$transaction(async (tx) => {
+      const existing = await tx.knowledgeSource.findFirst({
+        where: { name: data.name, sessionId: data.sessionId },
+        select: { id: true },
+      });
+      const source = existing
+        ? await tx.knowledgeSource.update({ where: { id: existing.id }, data, omit: { content: true } })
+        : await tx.knowledgeSource.create({ data, omit: { content: true } });
+      return { source, created: !existing };
+    });
+  }
+
+  /**
+   * List sources, most recently updated first
+   * @param options Pagination options and an optional namespace filter (null sessionId for global sources);
+   * without a namespace, a userId limits the list to the global sources and those of the user's sessions
+   * (null userId for the sessions nobody owns)
+   * @returns The page of sources without their content, and the total count
+   */
+  async listKnowledgeSources(options: {
+    skip: number;
+    take: number;
+    sessionId?: string | null;
+    userId?: string | null;
+  }): Promise<{ sources: KnowledgeSourceRow[]; total: number }> {
+    let where: Prisma.KnowledgeSourceWhereInput = {};
+    if (options.sessionId !== undefined) {
+      where = { sessionId: options.sessionId };
+    } else if (options.userId !== undefined) {
+      where = { OR: [{ sessionId: null }, { session: { userId: options.userId } }] };
+    }
+    const [sources, total] = await prisma.$transaction([
+      prisma.knowledgeSource.findMany({
+        where,
+        omit: { content: true },
+        orderBy: { updatedAt: "desc" },
+        skip: options.skip,
+        take: options.take,
+      }),
+      prisma.knowledgeSource.count({ where }),
+    ]);
+    return { sources, total };
+  }
+
+  /**
+   * Get a source without its content
+   * @param id Source ID
+   * @returns The source or null if not found
+   */
+  async getKnowledgeSourceById(id: string): Promise<KnowledgeSourceRow | null> {
+    return prisma.knowledgeSource.findUnique({
+      where: { id },
+      omit: { content: true },
+    });
+  }
+
+  /**
+   * Get a source including its original upload
+   * @param id Source ID
+   * @returns The source or null if not found
+   */
+  async getKnowledgeSourceWithContent(id: string): Promise<KnowledgeSource | null> {
+    return prisma.knowledgeSource.findUnique({
+      where: { id },
+    });
+  }
+
+  /**
+   * Record the result of re-chunking a source
+   * @param id Source ID
+   * @param data New splitter settings and chunk count
+   * @returns The updated source without its content
+   */
+  async updateKnowledgeSourceChunks(
+    id: string,
+    data: { splitter: Prisma.InputJsonValue; chunkCount: number },
+  ): Promise<KnowledgeSourceRow> {
+    return prisma.knowledgeSource.update({
+      where: { id },
+      data,
+      omit: { content: true },
+    });
+  }
+
+  /**
+   * Delete a source
+   * @param id Source ID
+   * @returns The deleted source or null if not found
+   */
+  async deleteKnowledgeSource(id: string): Promise<KnowledgeSourceRow | null> {
+    const source = await this.getKnowledgeSourceById(id);
+    if (!source) return null;
+
+    await prisma.knowledgeSource.delete({
+      where: { id },
+    });
+    return source;
+  }
+}
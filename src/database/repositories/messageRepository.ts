@@ -14,9 +14,13 @@ export class MessageRepository {
     content: string;
     role: string;
     sessionId: string;
+    citations?: Prisma.InputJsonValue;
+    toolCall?: { id: string; name: string; args: Record<string, unknown> };
+    provider?: string;
+    model?: string;
   }): Promise<Prisma.MessageGetPayload<{}>> {
     return prisma.message.create({
-      data,
+      data: { ...data, toolCall: data.toolCall as Prisma.InputJsonValue | undefined },
     });
   }
 
@@ -0,0 +1,70 @@
+import type { ProviderCredential } from "@prisma/client";
+import prisma from "../prisma/client";
+
+export type ProviderCredentialSummary = Pick<ProviderCredential, "provider" | "hint" | "createdAt" | "updatedAt">;
+
+/**
+ * Repository for ProviderCredential-related database operations
+ *
+ * Rows hold the API key encrypted only; encrypting and decrypting is up to the caller.
+ */
+export class ProviderCredentialRepository {
+  /**
+   * Store a user's key for a provider, replacing the key they had for it
+   * @param data The encrypted key and its hint
+   * @returns The stored credential without the encrypted key
+   */
+  async upsertCredential(data: {
+    userId: string;
+    provider: string;
+    ciphertext: string;
+    iv: string;
+    authTag: string;
+    hint: string;
+  }): Promise<ProviderCredentialSummary> {
+    const { userId, provider, ...secret } = data;
+    return prisma.providerCredential.upsert({
+      where: { userId_provider: { userId, provider } },
+      create: data,
+      update: secret,
+      select: { provider: true, hint: true, createdAt: true, updatedAt: true },
+    });
+  }
+
+  /**
+   * List a user's credentials without the encrypted keys
+   * @param userId User ID
+   * @returns The credentials ordered by provider
+   */
+  async listCredentials(userId: string): Promise<ProviderCredentialSummary[]> {
+    return prisma.providerCredential.findMany({
+      where: { userId },
+      select: { provider: true, hint: true, createdAt: true, updatedAt: true },
+      orderBy: { provider: "asc" },
+    });
+  }
+
+  /**
+   * Get a user's credentials with the encrypted keys, to decrypt them for a model call
+   * @param userId User ID
+   * @returns The credentials
+   */
+  async getEncryptedCredentials(userId: string): Promise<ProviderCredential[]> {
+    return prisma.providerCredential.findMany({
+      where: { userId },
+    });
+  }
+
+  /**
+   * Delete a user's key for a provider
+   * @param userId User ID
+   * @param provider LLM provider
+   * @returns True if a key was deleted
+   */
+  async deleteCredential(userId: string, provider: string): Promise<boolean> {
+    const { count } = await prisma.providerCredential.deleteMany({
+      where: { userId, provider },
+    });
+    return count > 0;
+  }
+}
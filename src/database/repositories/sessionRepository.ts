@@ -1,17 +1,25 @@
 import prisma from '../prisma/client';
 import type { Prisma } from '@prisma/client';
 
+// The messages a session's messageCount counts: the conversation, without the tool messages of its character file updates
+const conversationMessages = { where: { role: { in: ['user', 'assistant'] } } };
+
 /**
  * Repository for Session-related database operations
  */
 export class SessionRepository {
   /**
    * Create a new session
+   * @param data Optional LLM provider and model the session chats with, and the user who owns it
    * @returns The created session
    */
-  async createSession(): Promise<Prisma.SessionGetPayload<{}>> {
+  async createSession(data: {
+    provider?: string;
+    model?: string;
+    userId?: string;
+  } = {}): Promise<Prisma.SessionGetPayload<{}>> {
     return prisma.session.create({
-      data: {},
+      data,
     });
   }
 
@@ -83,6 +91,73 @@ export class SessionRepository {
     });
   }
 
+  /**
+   * List sessions, most recently updated first
+   * @param options Pagination, optional tag filter and the owner; null lists the sessions without one
+   * @returns The page of sessions with message counts and character files, plus the total count
+   */
+  async listSessions(options: {
+    skip: number;
+    take: number;
+    tag?: string;
+    userId?: string | null;
+  }): Promise<{
+    sessions: Prisma.SessionGetPayload<{
+      include: { characterFile: true; _count: { select: { messages: true } } }
+    }>[];
+    total: number;
+  }> {
+    const where: Prisma.SessionWhereInput = {
+      userId: options.userId ?? null,
+      ...(options.tag && { tags: { has: options.tag } }),
+    };
+
+    const [sessions, total] = await prisma.$transaction([
+      prisma.session.findMany({
+        where,
+        skip: options.skip,
+        take: options.take,
+        orderBy: {
+          updatedAt: 'desc',
+        },
+        include: {
+          characterFile: true,
+          _count: {
+            select: { messages: conversationMessages },
+          },
+        },
+      }),
+      prisma.session.count({ where }),
+    ]);
+
+    return { sessions, total };
+  }
+
+  /**
+   * Update a session's title, tags and/or interview stage
+   * @param id Session ID
+   * @param data Fields to update
+   * @returns The updated session
+   */
+  async updateSession(id: string, data: {
+    title?: string | null;
+    tags?: string[];
+    stage?: string;
+  }): Promise<Prisma.SessionGetPayload<{
+    include: { characterFile: true; _count: { select: { messages: true } } }
+  }>> {
+    return prisma.session.update({
+      where: { id },
+      data,
+      include: {
+        characterFile: true,
+        _count: {
+          select: { messages: conversationMessages },
+        },
+      },
+    });
+  }
+
   /**
    * Delete a session and all related data
    * @param id Session ID
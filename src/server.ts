@@ -9,7 +9,9 @@ import errorHandler from "@/common/middleware/errorHandler";
 import rateLimiter from "@/common/middleware/rateLimiter";
 import requestLogger from "@/common/middleware/requestLogger";
 import { env } from "@/common/utils/envConfig";
+import { credentialsRouter } from "./api/credentials/credentialsRouter";
 import { elizaRouter } from "./api/eliza/elizaRouter";
+import { knowledgeRouter } from "./api/knowledge/knowledgeRouter";
 
 const logger = pino({ name: "server start" });
 const app: Express = express();
@@ -18,7 +20,13 @@ const app: Express = express();
 app.set("trust proxy", true);
 
 // Middlewares
-app.use(express.json());
+app.use(
+  express.json({
+    // Imported character files and base64 encoded knowledge uploads can exceed the 100kb default
+    limit: "10mb",
+    type: ["application/json", "application/json-patch+json", "application/merge-patch+json"],
+  }),
+);
 app.use(express.urlencoded({ extended: true }));
 app.use(cors({ origin: env.CORS_ORIGIN, credentials: true }));
 app.use(helmet());
@@ -30,6 +38,8 @@ app.use(requestLogger);
 // Routes
 app.use("/health-check", healthCheckRouter);
 app.use("/eliza", elizaRouter);
+app.use("/knowledge", knowledgeRouter);
+app.use("/credentials", credentialsRouter);
 
 // Swagger UI
 app.use(openAPIRouter);
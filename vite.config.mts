@@ -6,6 +6,14 @@ export default defineConfig({
     coverage: {
       exclude: ["**/node_modules/**", "**/index.ts"],
     },
+    // Tests run against the offline providers so no API keys or vector database are needed
+    env: {
+      LLM_PROVIDER: "FAKE",
+      EMBEDDING_PROVIDER: "FAKE",
+      VECTOR_STORE_PROVIDER: "MEMORY",
+      // Test-only key so the provider credentials store is enabled
+      CREDENTIALS_MASTER_KEY: "0000000000000000000000000000000000000000000000000000000000000000",
+    },
     globals: true,
     restoreMocks: true,
   },